@@ -76,6 +76,9 @@ export default function BackstoryScreen() {
     if (mode === 'story') {
       // Route Story mode players to the Receiving Room entry screen
       router.push('/receiving-room');
+    } else if (mode === 'practice') {
+      // Practice Mode starts on the screen where players write their puzzles
+      router.push('/practice');
     } else {
       // Puzzle Only or Beat the Clock - go directly to puzzle screen
       router.push('/puzzle');
@@ -0,0 +1,249 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { CosmicBackground } from '@/components/shared/CosmicBackground';
+import { useGameState } from '@/hooks/useGameState';
+import { getConfig } from '@/lib/core/config';
+import { DIRECTION_OPTIONS } from '@/lib/game/gridAccessibility';
+import {
+  PRACTICE_DIFFICULTIES,
+  createCustomPuzzle,
+  loadCustomPuzzles,
+  parseWordList,
+  saveCustomPuzzles,
+  validateCustomPuzzle,
+} from '@/lib/game/practice';
+import type { ValidationError } from '@/lib/game/puzzleValidation';
+import { getCustomPuzzleShareCode, getShareLink } from '@/lib/game/shareCode';
+import { getRoutePath } from '@/lib/utils/navigation';
+import type { CustomPuzzle, CustomPuzzleDifficulty } from '@/lib/game/state';
+import styles from './practice.module.css';
+
+const sameDirection = (a: number[], b: number[]) => a[0] === b[0] && a[1] === b[1];
+
+export default function PracticeScreen() {
+  const router = useRouter();
+  const { state, setState } = useGameState();
+  const config = getConfig();
+  const [puzzles, setPuzzles] = useState<CustomPuzzle[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [title, setTitle] = useState('');
+  const [wordText, setWordText] = useState('');
+  const [difficulty, setDifficulty] = useState<CustomPuzzleDifficulty>('medium');
+  const [directions, setDirections] = useState<[number, number][]>(
+    () => config.directions.map(([dRow, dCol]) => [dRow, dCol] as [number, number])
+  );
+  const [errors, setErrors] = useState<ValidationError[]>([]);
+  const [shareStatus, setShareStatus] = useState('');
+
+  // Custom puzzles live in localStorage, so they load after the first render
+  useEffect(() => {
+    const timer = setTimeout(() => setPuzzles(loadCustomPuzzles()), 0);
+    return () => clearTimeout(timer);
+  }, []);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setTitle('');
+    setWordText('');
+    setErrors([]);
+  };
+
+  const toggleDirection = (vector: [number, number]) => {
+    setDirections(current =>
+      current.some(direction => sameDirection(direction, vector))
+        ? current.filter(direction => !sameDirection(direction, vector))
+        : [...current, vector]
+    );
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const fields = { title, words: parseWordList(wordText), difficulty, directions };
+    const validationErrors = validateCustomPuzzle(fields, config);
+    setErrors(validationErrors);
+    if (validationErrors.length > 0) return;
+
+    const existing = puzzles.find(puzzle => puzzle.id === editingId);
+    const puzzle = existing
+      ? { ...createCustomPuzzle(fields, existing.id), createdAt: existing.createdAt }
+      : createCustomPuzzle(fields);
+    const updated = existing
+      ? puzzles.map(p => (p.id === existing.id ? puzzle : p))
+      : [...puzzles, puzzle];
+
+    if (!saveCustomPuzzles(updated)) {
+      setErrors([{ field: 'storage', message: 'Could not save the puzzle. Storage may be full.' }]);
+      return;
+    }
+    setPuzzles(updated);
+    resetForm();
+  };
+
+  const handleEdit = (puzzle: CustomPuzzle) => {
+    setEditingId(puzzle.id);
+    setTitle(puzzle.title);
+    setWordText(puzzle.words.join('\n'));
+    setDifficulty(puzzle.difficulty);
+    setDirections(puzzle.directions);
+    setErrors([]);
+  };
+
+  const handleDelete = (puzzle: CustomPuzzle) => {
+    if (!confirm(`Delete "${puzzle.title}"?`)) return;
+    const updated = puzzles.filter(p => p.id !== puzzle.id);
+    if (saveCustomPuzzles(updated)) {
+      setPuzzles(updated);
+      if (editingId === puzzle.id) resetForm();
+    }
+  };
+
+  const handleShare = async (puzzle: CustomPuzzle) => {
+    const link = getShareLink(
+      getCustomPuzzleShareCode(puzzle, config),
+      window.location.origin,
+      getRoutePath('/puzzle')
+    );
+    try {
+      await navigator.clipboard.writeText(link);
+      setShareStatus(`Link to "${puzzle.title}" copied.`);
+    } catch {
+      // Clipboard access can be refused; show the link so it can be copied by hand
+      setShareStatus(link);
+    }
+  };
+
+  const handlePlay = (puzzle: CustomPuzzle) => {
+    setState({
+      ...state,
+      gameMode: 'practice',
+      practicePuzzleId: puzzle.id,
+      // Practice stats are kept apart from other modes
+      sessionStats: null,
+      runStartTime: null,
+    });
+    router.push('/puzzle');
+  };
+
+  return (
+    <div className={styles.practiceContainer} data-testid="practice-screen">
+      <CosmicBackground variant="title" starCount={100} particleCount={20} />
+
+      <div className={styles.practiceScreen}>
+        <h1 className={styles.practiceTitle}>Practice Mode</h1>
+        <p className={styles.practiceIntro}>
+          Write your own word search. Practice puzzles never count towards your story progress.
+        </p>
+
+        <form className={styles.puzzleForm} onSubmit={handleSave} data-testid="practice-form">
+          <label className={styles.field}>
+            <span>Title</span>
+            <input
+              type="text"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              data-testid="practice-title"
+            />
+          </label>
+
+          <label className={styles.field}>
+            <span>Words (one per line, or separated by commas)</span>
+            <textarea
+              rows={6}
+              value={wordText}
+              onChange={(e) => setWordText(e.target.value)}
+              data-testid="practice-words"
+            />
+          </label>
+
+          <label className={styles.field}>
+            <span>Difficulty</span>
+            <select
+              value={difficulty}
+              onChange={(e) => setDifficulty(e.target.value as CustomPuzzleDifficulty)}
+              data-testid="practice-difficulty"
+            >
+              {PRACTICE_DIFFICULTIES.map(level => (
+                <option key={level} value={level}>
+                  {level[0].toUpperCase() + level.slice(1)} ({config.difficultyLevels[level].gridSize}×{config.difficultyLevels[level].gridSize}, up to {config.difficultyLevels[level].maxWords} words)
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <fieldset className={styles.directions}>
+            <legend>Directions</legend>
+            {DIRECTION_OPTIONS.map(option => (
+              <label key={option.label} className={styles.direction}>
+                <input
+                  type="checkbox"
+                  checked={directions.some(direction => sameDirection(direction, option.vector))}
+                  onChange={() => toggleDirection(option.vector)}
+                />
+                {option.label}
+              </label>
+            ))}
+          </fieldset>
+
+          {errors.length > 0 && (
+            <ul className={styles.errors} role="alert" data-testid="practice-errors">
+              {errors.map((error, index) => (
+                <li key={index}>{error.message}</li>
+              ))}
+            </ul>
+          )}
+
+          <div className={styles.actions}>
+            <button type="submit" className={styles.primaryButton} data-testid="practice-save">
+              {editingId ? 'Save Changes' : 'Save Puzzle'}
+            </button>
+            {editingId && (
+              <button type="button" className={styles.secondaryButton} onClick={resetForm}>
+                Cancel
+              </button>
+            )}
+          </div>
+        </form>
+
+        <section className={styles.puzzleList} data-testid="practice-puzzles">
+          <h2>Your Puzzles</h2>
+          {puzzles.length === 0 ? (
+            <p className={styles.practiceIntro}>No puzzles yet.</p>
+          ) : (
+            <ul>
+              {puzzles.map(puzzle => (
+                <li key={puzzle.id} className={styles.puzzleEntry}>
+                  <span className={styles.puzzleName}>
+                    {puzzle.title} · {puzzle.words.length} words · {puzzle.difficulty}
+                  </span>
+                  <button className={styles.primaryButton} onClick={() => handlePlay(puzzle)}>
+                    Play
+                  </button>
+                  <button className={styles.secondaryButton} onClick={() => handleShare(puzzle)}>
+                    Share
+                  </button>
+                  <button className={styles.secondaryButton} onClick={() => handleEdit(puzzle)}>
+                    Edit
+                  </button>
+                  <button className={styles.secondaryButton} onClick={() => handleDelete(puzzle)}>
+                    Delete
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          {shareStatus && (
+            <p className={styles.shareStatus} role="status" data-testid="practice-share-status">
+              {shareStatus}
+            </p>
+          )}
+        </section>
+
+        <button className={styles.secondaryButton} onClick={() => router.push('/')}>
+          Main Menu
+        </button>
+      </div>
+    </div>
+  );
+}
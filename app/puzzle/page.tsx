@@ -15,10 +15,25 @@ import { usePageLoader } from '@/hooks/usePageLoader';
 import { useGameLogic } from '@/hooks/useGameLogic';
 import { useGameModeHandlers } from '@/hooks/useGameModeHandlers';
 import { usePuzzleLoading } from '@/hooks/usePuzzleLoading';
-import { useStoryTimer, usePuzzleOnlyTimer, useBeatTheClockTimer } from '@/hooks/useTimer';
-import { startBeatTheClockRun, endBeatTheClockRun } from '@/lib/game/logic';
+import { useKeyboardGrid } from '@/hooks/useKeyboardGrid';
+import { useReplayRecorder } from '@/hooks/useReplayRecorder';
+import { useClozeExcerpt } from '@/hooks/useClozeExcerpt';
+import { WordPicker } from '@/components/WordPicker';
+import { PrintExportModal } from '@/components/PrintExportModal';
+import { ClozeExcerpt } from '@/components/ClozeExcerpt';
+import { describeCell, describeFoundWord, describeSelection, describeWordStatus } from '@/lib/game/gridAccessibility';
+import { useStoryTimer, usePuzzleOnlyTimer, useBeatTheClockTimer, useEndlessTimer } from '@/hooks/useTimer';
+import { startBeatTheClockRun, endBeatTheClockRun, startEndlessRun, restartPuzzle } from '@/lib/game/logic';
 import { getConfig } from '@/lib/core/config';
-import type { Cell } from '@/lib/game/state';
+import { audioManager } from '@/lib/audio/audioManager';
+import { getDailyStreak } from '@/lib/game/dailyArchive';
+import { getComboMultiplier } from '@/lib/game/scoring';
+import { summarizeGenerationReport } from '@/lib/game/puzzleGenerator';
+import { isVoidCell } from '@/lib/game/gridMask';
+import { countReplayFinds, getRunFrame, loadBestRunReplay, saveBestRunReplay, serializeReplay } from '@/lib/game/replay';
+import { HINT_KINDS, HINT_LABELS, clearHint, getHintBalance, requestHint, type HintKind } from '@/lib/game/hints';
+import type { PrintablePuzzle } from '@/lib/game/printExport';
+import type { Cell, GameState, ReplayFile } from '@/lib/game/state';
 import styles from './puzzle.module.css';
 
 export default function PuzzleScreen() {
@@ -30,21 +45,39 @@ export default function PuzzleScreen() {
   });
 
   const { state, setState, isReady } = useGameState();
-  const { loadSequential, loadAll, initialize, loadRandom, restorePuzzleOnly, loadBeatTheClock, loadWithSelection, markCompleted } = usePuzzle(state, setState);
+  const { loadSequential, loadAll, initialize, loadRandom, restorePuzzleOnly, loadBeatTheClock, restoreBeatTheClock, loadEndless, loadCalm, restoreFromSeed, loadDaily, loadPractice, loadWithSelection, prepareNext, markCompleted } = usePuzzle(state, setState);
   const config = getConfig();
   const [showStatsModal, setShowStatsModal] = useState(false);
   const [statsModalIsWin, setStatsModalIsWin] = useState(false);
   const [showGenreCompletionModal, setShowGenreCompletionModal] = useState(false);
   const [puzzleStartTime, setPuzzleStartTime] = useState<number | null>(null);
   const [showSettingsMenu, setShowSettingsMenu] = useState(false);
+  const [showPrintModal, setShowPrintModal] = useState(false);
+  // Story excerpt shown with the puzzle words blanked until they are found
+  const { clozeEnabled, setClozeEnabled } = useClozeExcerpt();
+  // Best Beat the Clock run, for the stats screen and ghost racing
+  const [bestRun, setBestRun] = useState<ReplayFile | null>(null);
+  const [isNewBestRun, setIsNewBestRun] = useState(false);
   // Track if we're transitioning between puzzles to prevent timer restart
   const isTransitioningRef = useRef(false);
+
+  // While the player reads the win screen, pick and generate the next story puzzle.
+  // Only when the win screen opens - state updates while it is open are irrelevant.
+  const storyWinScreenOpen = showStatsModal && statsModalIsWin && state.gameMode === 'story';
+  const storyWinScreenSeenRef = useRef(false);
+  useEffect(() => {
+    if (storyWinScreenSeenRef.current === storyWinScreenOpen) return;
+    storyWinScreenSeenRef.current = storyWinScreenOpen;
+    if (storyWinScreenOpen) {
+      prepareNext();
+    }
+  }, [storyWinScreenOpen, prepareNext]);
   
   // Wrapper for loadBeatTheClock that sets transition flag
-  const loadBeatTheClockWithTransition = useCallback(async () => {
+  const loadBeatTheClockWithTransition = useCallback(async (fromState?: GameState) => {
     isTransitioningRef.current = true;
     try {
-      const result = await loadBeatTheClock();
+      const result = await loadBeatTheClock(fromState);
       // Wait a tick for state to update before clearing flag
       await new Promise(resolve => setTimeout(resolve, 0));
       isTransitioningRef.current = false;
@@ -61,6 +94,8 @@ export default function PuzzleScreen() {
     setState,
     puzzleStartTime,
     loadBeatTheClock: loadBeatTheClockWithTransition,
+    loadEndless,
+    loadCalm,
     setPuzzleStartTime,
     setStatsModalIsWin,
     setShowStatsModal,
@@ -74,6 +109,12 @@ export default function PuzzleScreen() {
     isReady,
     loadAll,
     loadBeatTheClock: loadBeatTheClockWithTransition,
+    restoreBeatTheClock,
+    loadEndless,
+    loadCalm,
+    restoreFromSeed,
+    loadDaily,
+    loadPractice,
     loadRandom,
     restorePuzzleOnly,
     loadSequential,
@@ -97,15 +138,19 @@ export default function PuzzleScreen() {
   const storyTimer = useStoryTimer(state, setState);
   const puzzleOnlyTimer = usePuzzleOnlyTimer(state, setState, handleLose);
   const beatTheClockTimer = useBeatTheClockTimer(state, setState, handleLose, handleRunTimerExpired);
+  const endlessTimer = useEndlessTimer(state, setState, handleLose);
   
   // Select appropriate timer based on game mode (memoized to prevent recreation)
   const timer = useMemo(() => {
-    return state.gameMode === 'story' 
+    // Calm Mode, the Daily Archive and Practice Mode are untimed, so they share the Story Mode timer
+    return (state.gameMode === 'story' || state.gameMode === 'calm' || state.gameMode === 'daily' || state.gameMode === 'practice')
       ? storyTimer 
       : state.gameMode === 'puzzle-only' 
       ? puzzleOnlyTimer 
+      : state.gameMode === 'endless'
+      ? endlessTimer
       : beatTheClockTimer;
-  }, [state.gameMode, storyTimer, puzzleOnlyTimer, beatTheClockTimer]);
+  }, [state.gameMode, storyTimer, puzzleOnlyTimer, beatTheClockTimer, endlessTimer]);
 
   const [selectedCells, setSelectedCells] = useState<Set<string>>(new Set());
   const [storyOpen, setStoryOpen] = useState(false);
@@ -113,6 +158,8 @@ export default function PuzzleScreen() {
   const [isDragging, setIsDragging] = useState(false);
   const [dragStart, setDragStart] = useState<{ row: number; col: number } | null>(null);
   const gridRef = useRef<HTMLDivElement>(null);
+  const wordListRef = useRef<HTMLUListElement>(null);
+  const mobileWordListRef = useRef<HTMLUListElement>(null);
   const [puzzleLoadingComplete, setPuzzleLoadingComplete] = useState(false);
 
   // Track loading conditions
@@ -160,6 +207,22 @@ export default function PuzzleScreen() {
     }
   }, [isReady, state.currentGenre, state.currentPuzzleIndex, state.grid?.length, state.selectedGenre, loadPuzzleForMode]); // Re-run when ready, genre, puzzle index, selectedGenre, or grid changes
 
+  // A puzzle resumed from a save started before the reload; keep its stats timing
+  useEffect(() => {
+    if (state.puzzleStartedAt) {
+      setPuzzleStartTime(state.puzzleStartedAt);
+    }
+  }, [state.puzzleStartedAt]);
+
+  // Calm Mode can silence music and voice, leaving only ambient sound
+  useEffect(() => {
+    if (state.gameMode !== 'calm' || !config.calm.ambientOnlyAudio) return;
+    audioManager.setAmbientOnly(true);
+    return () => {
+      audioManager.setAmbientOnly(false);
+    };
+  }, [state.gameMode, config.calm.ambientOnlyAudio]);
+
   // Start timer when puzzle is loaded
   useEffect(() => {
     // Don't start timer if we're transitioning between puzzles
@@ -180,18 +243,72 @@ export default function PuzzleScreen() {
             puzzleOnlyTimer.start();
           } else if (state.gameMode === 'beat-the-clock') {
             beatTheClockTimer.start();
+          } else if (state.gameMode === 'endless') {
+            endlessTimer.start();
           }
         }
       }
     }
-  }, [state.grid?.length, state.timer, state.paused, state.gameOver, state.gameMode, state.timeRemaining, storyTimer, puzzleOnlyTimer, beatTheClockTimer]);
+  }, [state.grid?.length, state.timer, state.paused, state.gameOver, state.gameMode, state.timeRemaining, storyTimer, puzzleOnlyTimer, beatTheClockTimer, endlessTimer]);
 
   // Get current puzzle data
   const gridData = state.grid || [];
-  const wordList = state.wordList || [];
+  // Memoized so effects that depend on the word list only run when it changes
+  const wordList = useMemo(() => state.wordList || [], [state.wordList]);
   const currentPuzzle = state.currentGenre && state.puzzles[state.currentGenre] 
     ? state.puzzles[state.currentGenre][state.currentPuzzleIndex] 
     : null;
+  // The countdown bar is measured against the limit this puzzle's clock started from
+  const timerBarPercent = state.puzzleTimeLimit > 0
+    ? Math.max(0, Math.min(100, (state.timeRemaining / state.puzzleTimeLimit) * 100))
+    : 0;
+
+  // The current grid as a printable page; Practice puzzles have no entry in state.puzzles
+  const printablePuzzle = useMemo<PrintablePuzzle>(() => ({
+    title: currentPuzzle?.title ?? (state.currentBook || 'Word Search'),
+    grid: state.grid || [],
+    wordList: state.wordList || [],
+    book: currentPuzzle?.book,
+    storyExcerpt: currentPuzzle?.storyExcerpt,
+  }), [currentPuzzle, state.currentBook, state.grid, state.wordList]);
+
+  // Explain any generation fallbacks (grown grid, dropped words) to the player
+  const generationNotices = useMemo(
+    () => summarizeGenerationReport(state.generationReport),
+    [state.generationReport]
+  );
+
+  // Reveal the hidden message once every word has been found
+  const allWordsFound = wordList.length > 0 && wordList.every(word => word.found);
+  const revealedMessage = allWordsFound ? state.hiddenMessage : null;
+  const hiddenMessageCells = useMemo(
+    () => new Set((revealedMessage?.cells ?? []).map(([row, col]) => `${row}-${col}`)),
+    [revealedMessage]
+  );
+
+  // Hints: the budget for this mode, and the hint on screen while its word is still unfound
+  const hintBalance = getHintBalance(state, config);
+  const activeHint = state.activeHint && wordList.some(word => word.word === state.activeHint?.word && !word.found)
+    ? state.activeHint
+    : null;
+  const hintCells = useMemo(
+    () => new Set((activeHint?.cells ?? []).map(([row, col]) => `${row}-${col}`)),
+    [activeHint]
+  );
+
+  // Take the hint off the grid after a few seconds
+  useEffect(() => {
+    if (!state.activeHint) return;
+    const timeout = setTimeout(() => setState(prev => clearHint(prev)), config.hints.displayDuration);
+    return () => clearTimeout(timeout);
+  }, [state.activeHint, setState, config.hints.displayDuration]);
+
+  const handleHint = useCallback((kind: HintKind) => {
+    const { hint, newState } = requestHint(state, kind, config);
+    if (hint) {
+      setState(newState);
+    }
+  }, [state, config, setState]);
 
   // Precompute found word cells for performance
   const foundWordCells = useMemo(() => {
@@ -226,7 +343,7 @@ export default function PuzzleScreen() {
     for (let i = 0; i <= steps; i++) {
       const row = start.row + (rowStep * i);
       const col = start.col + (colStep * i);
-      if (row >= 0 && row < gridData.length && col >= 0 && col < gridData[0].length) {
+      if (row >= 0 && row < gridData.length && col >= 0 && col < gridData[0].length && !isVoidCell(gridData[row][col])) {
         cells.add(`${row}-${col}`);
       }
     }
@@ -234,6 +351,83 @@ export default function PuzzleScreen() {
     return cells;
   }, [gridData]);
 
+  // Screen-reader announcements for finds and keyboard selections
+  const [announcement, setAnnouncement] = useState('');
+
+  // Every selection is recorded for replays
+  const replayRecorder = useReplayRecorder(state);
+
+  // Beat the Clock run clock, read from runStartTime so hint penalties show up in it.
+  // Racing a best run, the ghost plays its replay against the same clock.
+  const [runTime, setRunTime] = useState(0);
+  useEffect(() => {
+    const runStartTime = state.runStartTime;
+    if (!runStartTime || isPaused) return;
+    const interval = setInterval(() => setRunTime(Date.now() - runStartTime), 250);
+    return () => clearInterval(interval);
+  }, [state.runStartTime, isPaused]);
+  const runSeconds = Math.max(0, Math.min(state.runDuration, Math.floor(runTime / 1000)));
+
+  const ghostCells = useMemo(() => {
+    const cells = new Set<string>();
+    if (!state.ghostRun) return cells;
+    const ghost = getRunFrame(state.ghostRun, runTime);
+    // The ghost only shows while both runs are on the same puzzle
+    if (!ghost || ghost.puzzle.seed !== state.currentSeed) return cells;
+
+    ghost.frame.foundWords.forEach(index => {
+      const word = ghost.puzzle.words[index];
+      if (!word) return;
+      for (let i = 0; i < word.word.length; i++) {
+        cells.add(`${word.row + word.direction[0] * i}-${word.col + word.direction[1] * i}`);
+      }
+    });
+    if (ghost.frame.selection) {
+      getCellsBetween(ghost.frame.selection.start, ghost.frame.selection.end).forEach(key => cells.add(key));
+    }
+    return cells;
+  }, [state.ghostRun, state.currentSeed, runTime, getCellsBetween]);
+
+  // Keyboard selection shares the word-checking path with mouse and touch
+  const keyboardGrid = useKeyboardGrid({
+    grid: gridData,
+    gridRef,
+    disabled: isPaused || state.gameOver,
+    getCellsBetween,
+    onCommit: (cells) => {
+      const hit = checkWord(cells);
+      replayRecorder.recordSelection(cells, hit);
+      if (!hit) {
+        setAnnouncement(`${describeSelection(cells.map(cell => cell.value))}, not a hidden word`);
+      }
+    },
+  });
+
+  // Read out the letters of a keyboard selection as it grows
+  const keyboardSelectionText = keyboardGrid.anchor
+    ? describeSelection(Array.from(keyboardGrid.selection).map(key => {
+        const [row, col] = key.split('-').map(Number);
+        return gridData[row]?.[col] || '';
+      }))
+    : '';
+  useEffect(() => {
+    if (keyboardSelectionText) {
+      setAnnouncement(keyboardSelectionText);
+    }
+  }, [keyboardSelectionText]);
+
+  // Announce each newly found word, however it was found
+  const announcedWordsRef = useRef<Set<string>>(new Set());
+  useEffect(() => {
+    const found = wordList.filter(word => word.found);
+    const newlyFound = found.filter(word => !announcedWordsRef.current.has(word.word));
+    announcedWordsRef.current = new Set(found.map(word => word.word));
+    // A freshly loaded puzzle can arrive with several words already found; only announce single finds
+    if (newlyFound.length === 1) {
+      setAnnouncement(describeFoundWord(newlyFound[0], wordList));
+    }
+  }, [wordList]);
+
   const handleCellClick = (row: number, col: number) => {
     // Only handle click if not dragging
     if (!isDragging) {
@@ -251,6 +445,8 @@ export default function PuzzleScreen() {
   };
 
   const handleDragStart = (row: number, col: number) => {
+    keyboardGrid.deactivate();
+    replayRecorder.record('s', { row, col });
     isDraggingRef.current = true;
     setIsDragging(true);
     setDragStart({ row, col });
@@ -323,10 +519,11 @@ export default function PuzzleScreen() {
     
     const cells = getCellsBetween(dragStart, { row, col });
     selectedCellsRef.current = cells;
+    replayRecorder.record('x', { row, col });
     
     // Update visual selection directly via DOM (no re-render)
     updateSelectionVisual(cells);
-  }, [dragStart, getCellsBetween, updateSelectionVisual]);
+  }, [dragStart, getCellsBetween, updateSelectionVisual, replayRecorder]);
 
   // Throttle mouse move updates using requestAnimationFrame
   const rafRef = useRef<number | null>(null);
@@ -374,6 +571,7 @@ export default function PuzzleScreen() {
       // Check if the selection forms a word
       if (cells.length > 0) {
         const wordFound = checkWord(cells);
+        replayRecorder.record(wordFound ? 'h' : 'm');
         // Always clear visual selection after checking
         // If word found, it will be styled as "found" via React state update
         // If not found, cells should be deselected
@@ -393,7 +591,7 @@ export default function PuzzleScreen() {
     setSelectedCells(new Set());
     selectedCellsRef.current = new Set();
     prevSelectionRef.current = new Set();
-  }, [dragStart, gridData, checkWord, clearSelectionVisual]);
+  }, [dragStart, gridData, checkWord, clearSelectionVisual, replayRecorder]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -519,36 +717,79 @@ export default function PuzzleScreen() {
     const cellKey = `${row}-${col}`;
     let classes = styles.gridCell;
     
-    if (selectedCells.has(cellKey)) classes += ` ${styles.selected}`;
+    if (selectedCells.has(cellKey) || keyboardGrid.selection.has(cellKey)) classes += ` ${styles.selected}`;
+    if (keyboardGrid.active && keyboardGrid.cursor.row === row && keyboardGrid.cursor.col === col) {
+      classes += ` ${styles.keyboardCursor}`;
+    }
     
     // Use precomputed found word cells for better performance
     if (foundWordCells.has(cellKey)) classes += ` ${styles.found}`;
+    if (ghostCells.has(cellKey)) classes += ` ${styles.ghostCell}`;
+    if (hiddenMessageCells.has(cellKey)) classes += ` ${styles.hiddenMessageCell}`;
+    if (hintCells.has(cellKey)) {
+      classes += activeHint?.kind === 'first-letter' ? ` ${styles.hintFlash}` : ` ${styles.hintCell}`;
+    }
     
     return classes;
-  }, [selectedCells, foundWordCells]);
+  }, [selectedCells, foundWordCells, ghostCells, hiddenMessageCells, hintCells, activeHint, keyboardGrid.selection, keyboardGrid.active, keyboardGrid.cursor]);
+
+  // Pauses are part of the replay
+  const pauseRecordedRef = useRef(isPaused);
+  useEffect(() => {
+    if (pauseRecordedRef.current === isPaused) return;
+    pauseRecordedRef.current = isPaused;
+    replayRecorder.record(isPaused ? 'p' : 'r');
+  }, [isPaused, replayRecorder]);
+
+  // Keep the best Beat the Clock run when a run ends (only when the stats screen opens)
+  const statsModalSeenRef = useRef(showStatsModal);
+  useEffect(() => {
+    if (statsModalSeenRef.current === showStatsModal) return;
+    statsModalSeenRef.current = showStatsModal;
+    if (!showStatsModal || state.gameMode !== 'beat-the-clock') return;
+    const replay = replayRecorder.getReplay();
+    setIsNewBestRun(replay ? saveBestRunReplay(replay) : false);
+    setBestRun(loadBestRunReplay());
+  }, [showStatsModal, state.gameMode, replayRecorder]);
+
+  const handleExportReplay = useCallback(() => {
+    const replay = replayRecorder.getReplay();
+    if (!replay) return;
+    const blob = new Blob([serializeReplay(replay)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `kethaneum-replay-${new Date(replay.recordedAt).toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }, [replayRecorder]);
 
   const handlePause = useCallback(() => {
     // Stop timer immediately first
-    if (state.gameMode === 'story') {
+    if (state.gameMode === 'story' || state.gameMode === 'calm' || state.gameMode === 'daily' || state.gameMode === 'practice') {
       storyTimer.pause();
     } else if (state.gameMode === 'puzzle-only') {
       puzzleOnlyTimer.pause();
+    } else if (state.gameMode === 'endless') {
+      endlessTimer.pause();
     } else {
       beatTheClockTimer.pause();
     }
     setIsPaused(true);
-  }, [state.gameMode, storyTimer, puzzleOnlyTimer, beatTheClockTimer]);
+  }, [state.gameMode, storyTimer, puzzleOnlyTimer, beatTheClockTimer, endlessTimer]);
 
   const handleResume = useCallback(() => {
     setIsPaused(false);
-    if (state.gameMode === 'story') {
+    if (state.gameMode === 'story' || state.gameMode === 'calm' || state.gameMode === 'daily' || state.gameMode === 'practice') {
       storyTimer.resume();
     } else if (state.gameMode === 'puzzle-only') {
       puzzleOnlyTimer.resume();
+    } else if (state.gameMode === 'endless') {
+      endlessTimer.resume();
     } else {
       beatTheClockTimer.resume();
     }
-  }, [state.gameMode, storyTimer, puzzleOnlyTimer, beatTheClockTimer]);
+  }, [state.gameMode, storyTimer, puzzleOnlyTimer, beatTheClockTimer, endlessTimer]);
 
   const handleBackToBookOfPassage = () => {
     router.push('/book-of-passage');
@@ -567,6 +808,11 @@ export default function PuzzleScreen() {
     setShowSettingsMenu(true); // Open settings menu
   };
 
+  const handlePrintPuzzle = () => {
+    setIsPaused(false); // Close pause menu; the timer stays paused
+    setShowPrintModal(true);
+  };
+
   // Stats modal handlers
   const handleNextPuzzle = useCallback(async () => {
     setShowStatsModal(false);
@@ -579,7 +825,7 @@ export default function PuzzleScreen() {
         await new Promise(resolve => setTimeout(resolve, 50));
       }
 
-      const success = loadRandom();
+      const success = await loadRandom();
       if (success) {
         setPuzzleStartTime(Date.now());
       }
@@ -591,7 +837,7 @@ export default function PuzzleScreen() {
         await new Promise(resolve => setTimeout(resolve, 50));
       }
 
-      const result = loadWithSelection();
+      const result = await loadWithSelection();
       if (result.success) {
         setPuzzleStartTime(Date.now());
 
@@ -602,46 +848,66 @@ export default function PuzzleScreen() {
       } else {
         console.warn('Failed to load next puzzle:', result.message);
       }
+    } else if (state.gameMode === 'calm') {
+      // Calm Mode: continue with the next puzzle from calm progress
+      if (await loadCalm()) {
+        setPuzzleStartTime(Date.now());
+      }
     }
-  }, [state.gameMode, state.puzzles, loadRandom, loadAll, loadWithSelection, puzzleOnlyTimer, storyTimer]);
+  }, [state.gameMode, state.puzzles, loadRandom, loadAll, loadWithSelection, loadCalm, puzzleOnlyTimer, storyTimer]);
 
   const handleRestartPuzzle = useCallback(() => {
     setShowStatsModal(false);
-    // Reset puzzle state and reload current puzzle
-    setState({
-      ...state,
-      wordList: state.wordList.map(w => ({ ...w, found: false })),
-      selectedCells: [],
-      timeRemaining: config.timeLimit,
-      gameOver: false,
-    });
+    // Same grid, fresh attempt. The timer effect above starts whichever
+    // countdown the mode uses once gameOver clears; untimed modes get none.
+    setState(restartPuzzle(state, config).newState);
     setPuzzleStartTime(Date.now());
-    if (state.gameMode === 'puzzle-only') {
-      puzzleOnlyTimer.start();
-    } else if (state.gameMode === 'beat-the-clock') {
-      beatTheClockTimer.start();
-    }
-    // Story mode doesn't use start() - it uses initialize()
-  }, [state, setState, config, state.gameMode, puzzleOnlyTimer, beatTheClockTimer]);
+  }, [state, setState, config]);
 
   const handleStartFreshRun = useCallback(async () => {
     setShowStatsModal(false);
+    setRunTime(0);
     // Reset run timer and load new puzzle
-    const runState = startBeatTheClockRun(state);
-    setState({
-      ...runState,
+    const runState = {
+      ...startBeatTheClockRun(state),
       sessionStats: null, // Reset stats
-    });
-    await loadBeatTheClock();
+      ghostRun: null,
+    };
+    setState(runState);
+    await loadBeatTheClock(runState);
     setPuzzleStartTime(Date.now());
   }, [state, setState, loadBeatTheClock]);
 
+  // Start a fresh run on the best run's puzzles, with its replay as a ghost
+  const handleRaceBestRun = useCallback(async () => {
+    if (!bestRun) return;
+    setShowStatsModal(false);
+    setRunTime(0);
+    const runState = {
+      ...startBeatTheClockRun(state),
+      sessionStats: null,
+      ghostRun: bestRun,
+    };
+    setState(runState);
+    await loadBeatTheClock(runState);
+    setPuzzleStartTime(Date.now());
+  }, [bestRun, state, setState, loadBeatTheClock]);
+
+  const handleStartEndlessRun = useCallback(async () => {
+    setShowStatsModal(false);
+    endlessTimer.clear();
+    // Reset the streak and stats, then serve the first puzzle of the new run
+    if (await loadEndless(startEndlessRun(state))) {
+      setPuzzleStartTime(Date.now());
+    }
+  }, [state, loadEndless, endlessTimer]);
+
   // Genre completion modal handlers
   const handleContinueSameGenre = useCallback(async () => {
     setShowGenreCompletionModal(false);
 
     // Load sequential puzzle with allowReplay flag
-    const { success } = loadSequential(state.currentGenre, null, true);
+    const { success } = await loadSequential(state.currentGenre, null, true);
     if (success) {
       setPuzzleStartTime(Date.now());
     }
@@ -663,7 +929,7 @@ export default function PuzzleScreen() {
     await new Promise(resolve => setTimeout(resolve, 0));
 
     // Load first puzzle in new genre
-    const { success } = loadSequential(newGenre, null, false);
+    const { success } = await loadSequential(newGenre, null, false);
     if (success) {
       setPuzzleStartTime(Date.now());
     }
@@ -674,7 +940,21 @@ export default function PuzzleScreen() {
     router.push('/library');
   }, [router]);
 
-  // Handle Escape key to pause/resume
+  // Move keyboard focus to whichever word list is on screen
+  const focusWordList = useCallback(() => {
+    const lists = [wordListRef.current, mobileWordListRef.current];
+    lists.find(list => list && list.offsetParent !== null)?.focus();
+  }, []);
+
+  // Move keyboard focus back to the grid cursor
+  const focusGrid = useCallback(() => {
+    const { row, col } = keyboardGrid.cursor;
+    const cell = gridRef.current?.querySelector(`button[data-cell-key="${row}-${col}"]`) as HTMLElement | null;
+    cell?.focus();
+  }, [keyboardGrid.cursor]);
+
+  // Handle Escape key to pause/resume, plus keyboard shortcuts:
+  // P pause/resume, W word list, G grid, 1-3 hints
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if (e.key === 'Escape') {
@@ -683,6 +963,31 @@ export default function PuzzleScreen() {
         } else {
           handlePause();
         }
+        return;
+      }
+
+      // Leave typing and browser shortcuts alone
+      const target = e.target as HTMLElement | null;
+      if (e.ctrlKey || e.metaKey || e.altKey ||
+          (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable))) {
+        return;
+      }
+
+      const key = e.key.toLowerCase();
+      if (key === 'p') {
+        if (isPaused) {
+          handleResume();
+        } else {
+          handlePause();
+        }
+      } else if (isPaused) {
+        return;
+      } else if (key === 'w') {
+        focusWordList();
+      } else if (key === 'g') {
+        focusGrid();
+      } else if (/^[1-9]$/.test(key) && HINT_KINDS[Number(key) - 1] && hintBalance > 0 && !allWordsFound) {
+        handleHint(HINT_KINDS[Number(key) - 1]);
       }
     };
 
@@ -690,7 +995,7 @@ export default function PuzzleScreen() {
     return () => {
       window.removeEventListener('keydown', handleKeyDown);
     };
-  }, [isPaused, handlePause, handleResume]); // Include dependencies for pause/resume handlers
+  }, [isPaused, handlePause, handleResume, focusWordList, focusGrid, handleHint, hintBalance, allWordsFound]); // Include dependencies for pause/resume handlers
 
   return (
     <div className={styles.puzzleContainer} data-testid="puzzle-screen">
@@ -702,19 +1007,41 @@ export default function PuzzleScreen() {
       <CosmicBackground variant="puzzle" starCount={450} particleCount={0} />
       
       {/* Timer display - Story Mode shows decorative full bar, others show countdown */}
-      {state.gameMode !== 'story' && (
+      {state.gameMode !== 'story' && state.gameMode !== 'calm' && state.gameMode !== 'daily' && state.gameMode !== 'practice' && (
         <div className={styles.mobileTimer}>
           <div 
             className={styles.mobileTimerBar} 
-            style={{ width: `${Math.max(0, Math.min(100, (state.timeRemaining / config.timeLimit) * 100))}%` }}
+            style={{ width: `${timerBarPercent}%` }}
           />
         </div>
       )}
       
+      {/* Endless streak */}
+      {state.gameMode === 'endless' && (
+        <div className={styles.runTimer} data-testid="endless-streak">
+          Streak: {state.endlessStreak}
+        </div>
+      )}
+
+      {/* Daily Archive date and streak */}
+      {state.gameMode === 'daily' && state.dailyDate && (
+        <div className={styles.runTimer} data-testid="daily-banner">
+          Daily Archive · {state.dailyDate} · Streak: {getDailyStreak(state.dailyProgress)}
+        </div>
+      )}
+
       {/* Beat the Clock run timer */}
       {state.gameMode === 'beat-the-clock' && state.runStartTime && (
         <div className={styles.runTimer}>
-          Run Time: {Math.floor((state.runDuration - state.timeRemaining) / 60)}:{(state.runDuration - state.timeRemaining) % 60 < 10 ? '0' : ''}{(state.runDuration - state.timeRemaining) % 60} / {Math.floor(state.runDuration / 60)}:00
+          Run Time: {Math.floor(runSeconds / 60)}:{runSeconds % 60 < 10 ? '0' : ''}{runSeconds % 60} / {Math.floor(state.runDuration / 60)}:00
+          {' · '}
+          <span data-testid="run-score">Score: {state.runScore.total}</span>
+          {state.runScore.combo > 0 && (
+            <span data-testid="run-combo"> · Combo ×{getComboMultiplier(state.runScore.combo, config)}</span>
+          )}
+          {state.ghostRun && (
+            <span data-testid="ghost-pace"> · Ghost: {countReplayFinds(state.ghostRun, runTime)} words</span>
+          )}
         </div>
       )}
 
@@ -725,7 +1052,7 @@ export default function PuzzleScreen() {
           </h1>
           
           {/* Desktop Timer - Story Mode shows decorative full bar, others show countdown */}
-          {state.gameMode === 'story' ? (
+          {(state.gameMode === 'calm' || state.gameMode === 'daily' || state.gameMode === 'practice') ? null : state.gameMode === 'story' ? (
             <div className={styles.desktopTimer}>
               <div 
                 className={styles.timerBar}
@@ -736,7 +1063,7 @@ export default function PuzzleScreen() {
             <div className={styles.desktopTimer}>
               <div 
                 className={styles.timerBar}
-                style={{ width: `${Math.max(0, Math.min(100, (state.timeRemaining / config.timeLimit) * 100))}%` }}
+                style={{ width: `${timerBarPercent}%` }}
               />
             </div>
           )}
@@ -769,7 +1096,24 @@ export default function PuzzleScreen() {
                     {currentPuzzle.book && (
                       <p><em>From "{currentPuzzle.book}"{currentPuzzle.storyPart !== undefined ? ` - Part ${currentPuzzle.storyPart + 1}` : ''}:</em></p>
                     )}
-                    <p>{currentPuzzle.storyExcerpt}</p>
+                    {clozeEnabled ? (
+                      <ClozeExcerpt
+                        excerpt={currentPuzzle.storyExcerpt}
+                        wordList={wordList}
+                        normalization={config.generation}
+                      />
+                    ) : (
+                      <p>{currentPuzzle.storyExcerpt}</p>
+                    )}
+                    <label className={styles.clozeToggle}>
+                      <input
+                        type="checkbox"
+                        checked={clozeEnabled}
+                        onChange={(e) => setClozeEnabled(e.target.checked)}
+                        data-testid="mobile-cloze-toggle"
+                      />
+                      Reveal the story as you find words
+                    </label>
                   </>
                 ) : (
                   <p>No story content available for this puzzle.</p>
@@ -795,7 +1139,24 @@ export default function PuzzleScreen() {
                     {currentPuzzle.book && (
                       <p><em>From "{currentPuzzle.book}"{currentPuzzle.storyPart !== undefined ? ` - Part ${currentPuzzle.storyPart + 1}` : ''}:</em></p>
                     )}
-                    <p>{currentPuzzle.storyExcerpt}</p>
+                    {clozeEnabled ? (
+                      <ClozeExcerpt
+                        excerpt={currentPuzzle.storyExcerpt}
+                        wordList={wordList}
+                        normalization={config.generation}
+                      />
+                    ) : (
+                      <p>{currentPuzzle.storyExcerpt}</p>
+                    )}
+                    <label className={styles.clozeToggle}>
+                      <input
+                        type="checkbox"
+                        checked={clozeEnabled}
+                        onChange={(e) => setClozeEnabled(e.target.checked)}
+                        data-testid="cloze-toggle"
+                      />
+                      Reveal the story as you find words
+                    </label>
                   </>
                 ) : (
                   <p>No story content available for this puzzle.</p>
@@ -813,16 +1174,37 @@ export default function PuzzleScreen() {
               onMouseLeave={handleMouseLeave}
               onTouchMove={handleTouchMove}
               onTouchEnd={handleTouchEnd}
+              onKeyDown={keyboardGrid.handleKeyDown}
             >
-              <div className={styles.wordGrid}>
+              <div
+                className={styles.wordGrid}
+                style={gridData[0] ? { gridTemplateColumns: `repeat(${gridData[0].length}, 1fr)` } : undefined}
+                role="grid"
+                aria-label={gridData[0] ? `Word search, ${gridData.length} rows by ${gridData[0].length} columns` : 'Word search'}
+                aria-rowcount={gridData.length}
+                aria-colcount={gridData[0]?.length ?? 0}
+              >
                 {gridData && gridData.length > 0 && gridData[0] ? (
-                  gridData.map((row, rowIndex) => 
-                    row.map((letter, colIndex) => (
+                  gridData.map((row, rowIndex) => (
+                    <div key={rowIndex} className={styles.gridRow} role="row" aria-rowindex={rowIndex + 1}>
+                    {row.map((letter, colIndex) => isVoidCell(letter) ? (
+                      // Void cells of a shaped grid are not selectable
+                      <div key={`${rowIndex}-${colIndex}`} className={styles.voidCell} aria-hidden="true" />
+                    ) : (
                       <button
                         key={`${rowIndex}-${colIndex}`}
                         data-cell-key={`${rowIndex}-${colIndex}`}
                         className={getCellClass(rowIndex, colIndex)}
-                        onClick={() => handleCellClick(rowIndex, colIndex)}
+                        role="gridcell"
+                        aria-colindex={colIndex + 1}
+                        aria-label={describeCell(letter, rowIndex, colIndex, foundWordCells.has(`${rowIndex}-${colIndex}`))}
+                        aria-selected={selectedCells.has(`${rowIndex}-${colIndex}`) || keyboardGrid.selection.has(`${rowIndex}-${colIndex}`)}
+                        tabIndex={keyboardGrid.cursor.row === rowIndex && keyboardGrid.cursor.col === colIndex ? 0 : -1}
+                        onFocus={() => keyboardGrid.focusCell(rowIndex, colIndex)}
+                        onClick={(e) => {
+                          // Keyboard activation (detail 0) is handled by the keyboard grid
+                          if (e.detail !== 0) handleCellClick(rowIndex, colIndex);
+                        }}
                         onMouseDown={(e) => handleMouseDown(e, rowIndex, colIndex)}
                       onMouseMove={(e) => {
                         if (isDraggingRef.current) {
@@ -834,42 +1216,86 @@ export default function PuzzleScreen() {
                       >
                         {letter}
                       </button>
-                    ))
-                  )
+                    ))}
+                    </div>
+                  ))
                 ) : (
                   <div style={{ padding: '2rem', textAlign: 'center', color: '#dcd0c0' }}>
                     Loading puzzle...
                   </div>
                 )}
               </div>
+              {keyboardGrid.active && (
+                <p className={styles.keyboardHelp} data-testid="keyboard-help">
+                  {keyboardGrid.anchor
+                    ? 'Arrows extend · Enter checks · Esc cancels'
+                    : 'Arrows move · Space/Enter starts a selection · W words · 1-3 hints · P pause'}
+                </p>
+              )}
             </div>
 
             <div className={`${styles.wordsPanel} hidden md:block`}>
               <h3 className={styles.wordsTitle}>Find These Words:</h3>
-              <ul className={styles.wordList} data-testid="word-list">
+              <ul className={styles.wordList} data-testid="word-list" ref={wordListRef} tabIndex={-1}>
                 {wordList.map((word, index) => (
                   <li 
                     key={`${word.word}-${index}`}
                     className={word.found ? styles.found : ''}
+                    aria-label={describeWordStatus(word)}
                   >
-                    {word.word}
+                    {word.displayWord ?? word.word}
                   </li>
                 ))}
               </ul>
+              {revealedMessage && (
+                <div className={styles.hiddenMessage} data-testid="hidden-message">
+                  <h4 className={styles.hiddenMessageTitle}>Hidden Message</h4>
+                  <p>{revealedMessage.phrase}</p>
+                </div>
+              )}
+              {generationNotices.length > 0 && (
+                <div className={styles.generationNotice} data-testid="generation-notice">
+                  {generationNotices.map(notice => (
+                    <p key={notice}>{notice}</p>
+                  ))}
+                </div>
+              )}
             </div>
           </div>
 
           <div className={`${styles.mobileWords} md:hidden`}>
-            <ul className={styles.wordList} data-testid="mobile-word-list">
+            <ul className={styles.wordList} data-testid="mobile-word-list" ref={mobileWordListRef} tabIndex={-1}>
               {wordList.map((word, index) => (
                 <li 
                   key={`${word.word}-${index}`}
                   className={word.found ? styles.found : ''}
+                  aria-label={describeWordStatus(word)}
                 >
-                  {word.word}
+                  {word.displayWord ?? word.word}
                 </li>
               ))}
             </ul>
+            {revealedMessage && (
+              <div className={styles.hiddenMessage} data-testid="mobile-hidden-message">
+                <h4 className={styles.hiddenMessageTitle}>Hidden Message</h4>
+                <p>{revealedMessage.phrase}</p>
+              </div>
+            )}
+          </div>
+
+          <WordPicker
+            wordList={wordList}
+            grid={gridData}
+            disabled={isPaused || state.gameOver}
+            onCheck={(cells) => {
+              const hit = checkWord(cells);
+              replayRecorder.recordSelection(cells, hit);
+              return hit;
+            }}
+          />
+
+          <div className="sr-only" role="status" aria-live="polite" data-testid="grid-announcer">
+            {announcement}
           </div>
         </div>
 
@@ -881,6 +1307,28 @@ export default function PuzzleScreen() {
           >
             Pause
           </button>
+          <div className={styles.hintControls} data-testid="hint-controls">
+            <span className={styles.hintBalance}>Hints: {hintBalance}</span>
+            {HINT_KINDS.map(kind => (
+              <button
+                key={kind}
+                className={`${styles.controlBtn} ${styles.secondary}`}
+                onClick={() => handleHint(kind)}
+                disabled={hintBalance <= 0 || allWordsFound || isPaused}
+                title={state.gameMode === 'beat-the-clock'
+                  ? `Costs ${config.hints.beatTheClockPenalty}s of run time`
+                  : undefined}
+                data-testid={`hint-${kind}`}
+              >
+                {HINT_LABELS[kind]}
+              </button>
+            ))}
+          </div>
+          {activeHint && (
+            <p className={styles.hintMessage} role="status" data-testid="hint-message">
+              {activeHint.message}
+            </p>
+          )}
         </div>
       </div>
 
@@ -932,6 +1380,15 @@ export default function PuzzleScreen() {
               >
                 Settings
               </button>
+
+              <button
+                className={styles.pauseBtn}
+                onClick={handlePrintPuzzle}
+                disabled={gridData.length === 0}
+                data-testid="print-puzzle-btn"
+              >
+                Print Puzzle
+              </button>
             </div>
           </div>
         </div>
@@ -943,12 +1400,25 @@ export default function PuzzleScreen() {
         mode={state.gameMode}
         isWin={statsModalIsWin}
         sessionStats={state.sessionStats}
-        onNextPuzzle={(state.gameMode === 'puzzle-only' || state.gameMode === 'story') ? handleNextPuzzle : undefined}
+        streak={state.endlessStreak}
+        dailyProgress={state.dailyProgress}
+        runScore={state.runScore}
+        bestRunScore={state.gameMode === 'beat-the-clock' ? bestRun?.score ?? null : null}
+        isNewBestRun={isNewBestRun}
+        onNextPuzzle={(state.gameMode === 'puzzle-only' || state.gameMode === 'story' || state.gameMode === 'calm') ? handleNextPuzzle : undefined}
         onRestartPuzzle={handleRestartPuzzle}
-        onStartFreshRun={state.gameMode === 'beat-the-clock' ? handleStartFreshRun : undefined}
+        onStartFreshRun={state.gameMode === 'beat-the-clock'
+          ? handleStartFreshRun
+          : state.gameMode === 'endless'
+          ? handleStartEndlessRun
+          : undefined}
+        onRaceBestRun={state.gameMode === 'beat-the-clock' && bestRun ? handleRaceBestRun : undefined}
+        onWatchBestRun={state.gameMode === 'beat-the-clock' && bestRun ? () => router.push('/replay') : undefined}
+        onExportReplay={handleExportReplay}
         onMainMenu={handleBackToMainMenu}
         onBackToLibrary={state.gameMode === 'story' ? handleBackToLibrary : undefined}
         onBackToBookOfPassage={state.gameMode === 'story' ? handleBackToBookOfPassage : undefined}
+        onBackToPractice={state.gameMode === 'practice' ? () => router.push('/practice') : undefined}
       />
 
       {/* Genre Completion Modal */}
@@ -972,6 +1442,16 @@ export default function PuzzleScreen() {
         onResumeGame={handleResume}
         onReturnToPause={() => setIsPaused(true)}
       />
+
+      {/* Print and SVG export */}
+      <PrintExportModal
+        isOpen={showPrintModal}
+        puzzle={printablePuzzle}
+        onClose={() => {
+          setShowPrintModal(false);
+          setIsPaused(true); // Back to the pause menu
+        }}
+      />
     </div>
   );
 }
@@ -0,0 +1,224 @@
+'use client';
+
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { CosmicBackground } from '@/components/shared/CosmicBackground';
+import { getReplayDuration, getRunFrame, loadBestRunReplay, parseReplay, serializeReplay } from '@/lib/game/replay';
+import type { ReplayFile } from '@/lib/game/state';
+import styles from './replay.module.css';
+
+const SPEEDS = [1, 2, 4];
+// How often the playback clock ticks, in milliseconds
+const TICK = 100;
+
+function formatTime(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${seconds % 60 < 10 ? '0' : ''}${seconds % 60}`;
+}
+
+/**
+ * Get the "row-col" keys of the cells on a straight line between two cells
+ */
+function getLineCells(start: { row: number; col: number }, end: { row: number; col: number }): Set<string> {
+  const rowStep = Math.sign(end.row - start.row);
+  const colStep = Math.sign(end.col - start.col);
+  const steps = Math.max(Math.abs(end.row - start.row), Math.abs(end.col - start.col));
+  const cells = new Set<string>();
+  for (let i = 0; i <= steps; i++) {
+    cells.add(`${start.row + rowStep * i}-${start.col + colStep * i}`);
+  }
+  return cells;
+}
+
+export default function ReplayScreen() {
+  const router = useRouter();
+  const [replay, setReplay] = useState<ReplayFile | null>(null);
+  const [time, setTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start with the best Beat the Clock run, if there is one
+  useEffect(() => {
+    const timer = setTimeout(() => setReplay(current => current ?? loadBestRunReplay()), 0);
+    return () => clearTimeout(timer);
+  }, []);
+
+  const duration = replay ? getReplayDuration(replay) : 0;
+  // Playback stops by itself at the end
+  const playing = isPlaying && time < duration;
+
+  // Advance the playback clock
+  useEffect(() => {
+    if (!playing) return;
+    const interval = setInterval(() => {
+      setTime(current => Math.min(duration, current + TICK * speed));
+    }, TICK);
+    return () => clearInterval(interval);
+  }, [playing, speed, duration]);
+
+  const runFrame = useMemo(() => (replay ? getRunFrame(replay, time) : null), [replay, time]);
+
+  const { foundCells, selectionCells } = useMemo(() => {
+    const found = new Set<string>();
+    if (!runFrame) return { foundCells: found, selectionCells: new Set<string>() };
+    runFrame.frame.foundWords.forEach(index => {
+      const word = runFrame.puzzle.words[index];
+      if (!word) return;
+      for (let i = 0; i < word.word.length; i++) {
+        found.add(`${word.row + word.direction[0] * i}-${word.col + word.direction[1] * i}`);
+      }
+    });
+    const selection = runFrame.frame.selection
+      ? getLineCells(runFrame.frame.selection.start, runFrame.frame.selection.end)
+      : new Set<string>();
+    return { foundCells: found, selectionCells: selection };
+  }, [runFrame]);
+
+  const handleImport = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const imported = parseReplay(await file.text());
+    if (imported) {
+      setReplay(imported);
+      setError(null);
+    } else {
+      setError('That file is not a replay this version can play.');
+    }
+    setTime(0);
+    setIsPlaying(false);
+    e.target.value = '';
+  }, []);
+
+  const handleExport = useCallback(() => {
+    if (!replay) return;
+    const blob = new Blob([serializeReplay(replay)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `kethaneum-replay-${new Date(replay.recordedAt).toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }, [replay]);
+
+  const handlePlayPause = () => {
+    // Playing from the end starts over
+    if (!playing && time >= duration) setTime(0);
+    setIsPlaying(!playing);
+  };
+
+  return (
+    <div className={styles.replayContainer} data-testid="replay-screen">
+      <CosmicBackground variant="title" starCount={100} particleCount={20} />
+
+      <div className={styles.replayScreen}>
+        <h1 className={styles.replayTitle}>Replay</h1>
+
+        {replay && (
+          <p className={styles.replayMeta} data-testid="replay-meta">
+            {replay.mode}
+            {replay.score !== null && ` · Score: ${replay.score}`}
+            {` · ${replay.puzzles.length} puzzle${replay.puzzles.length === 1 ? '' : 's'}`}
+            {` · ${new Date(replay.recordedAt).toLocaleDateString()}`}
+          </p>
+        )}
+
+        {!replay && (
+          <p className={styles.replayMeta} data-testid="replay-empty">
+            No best run yet. Finish a Beat the Clock run, or import a replay file.
+          </p>
+        )}
+
+        {error && <p className={styles.replayError} role="alert">{error}</p>}
+
+        {runFrame && (
+          <div className={styles.replayBoard}>
+            <div>
+              <h2 className={styles.puzzleTitle}>
+                {runFrame.puzzle.title} ({runFrame.puzzleNumber + 1}/{replay?.puzzles.length})
+                {runFrame.frame.paused && ' · Paused'}
+              </h2>
+              <div
+                className={styles.replayGrid}
+                style={{ gridTemplateColumns: `repeat(${runFrame.puzzle.grid[0]?.length ?? 1}, 1fr)` }}
+                data-testid="replay-grid"
+              >
+                {runFrame.puzzle.grid.map((row, rowIndex) =>
+                  Array.from(row).map((letter, colIndex) => {
+                    const key = `${rowIndex}-${colIndex}`;
+                    let className = styles.replayCell;
+                    if (foundCells.has(key)) className += ` ${styles.found}`;
+                    if (selectionCells.has(key)) className += ` ${styles.selected}`;
+                    return (
+                      <span key={key} className={className}>
+                        {letter.trim()}
+                      </span>
+                    );
+                  })
+                )}
+              </div>
+            </div>
+
+            <ul className={styles.wordList}>
+              {runFrame.puzzle.words.map((word, index) => (
+                <li
+                  key={`${word.word}-${index}`}
+                  className={runFrame.frame.foundWords.includes(index) ? styles.foundWord : undefined}
+                >
+                  {word.word}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {replay && (
+          <div className={styles.controls}>
+            <button className={styles.controlButton} onClick={handlePlayPause} data-testid="replay-play">
+              {playing ? 'Pause' : 'Play'}
+            </button>
+            <button className={styles.controlButton} onClick={() => { setTime(0); setIsPlaying(false); }}>
+              Restart
+            </button>
+            {SPEEDS.map(option => (
+              <button
+                key={option}
+                className={`${styles.controlButton} ${speed === option ? styles.activeSpeed : ''}`}
+                onClick={() => setSpeed(option)}
+                aria-pressed={speed === option}
+              >
+                {option}×
+              </button>
+            ))}
+            <input
+              type="range"
+              className={styles.seek}
+              min={0}
+              max={duration}
+              step={TICK}
+              value={time}
+              onChange={(e) => setTime(Number(e.target.value))}
+              aria-label="Replay position"
+            />
+            <span className={styles.clock}>{formatTime(time)} / {formatTime(duration)}</span>
+          </div>
+        )}
+
+        <div className={styles.controls}>
+          <label className={styles.controlButton}>
+            Import Replay
+            <input type="file" accept="application/json,.json" onChange={handleImport} className="sr-only" />
+          </label>
+          {replay && (
+            <button className={styles.controlButton} onClick={handleExport}>
+              Export Replay
+            </button>
+          )}
+          <button className={styles.controlButton} onClick={() => router.push('/')}>
+            Main Menu
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
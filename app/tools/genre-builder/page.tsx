@@ -2,6 +2,15 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { CosmicBackground } from '@/components/shared/CosmicBackground';
+import { getConfig } from '@/lib/core/config';
+import {
+  regenerateGrid,
+  derivePuzzleSeed,
+  summarizeGenerationReport,
+  type GenerationReport,
+} from '@/lib/game/puzzleGenerator';
+import { MASK_SHAPES, type MaskShape, type PuzzleMask } from '@/lib/game/gridMask';
+import { validatePuzzle, type ValidationError } from '@/lib/game/puzzleValidation';
 
 // ============================================================================
 // TYPES
@@ -14,6 +23,8 @@ interface Puzzle {
   genre: string;
   words: string[];
   storyExcerpt: string;
+  mask?: PuzzleMask;
+  hiddenMessage?: string;
 }
 
 interface Book {
@@ -35,39 +46,10 @@ interface ScopeState {
   puzzleIndex?: number;
 }
 
-interface ValidationError {
-  bookIndex?: number;
-  puzzleIndex?: number;
-  field: string;
-  message: string;
-}
-
 // ============================================================================
 // VALIDATION
 // ============================================================================
 
-function validatePuzzle(puzzle: Puzzle): ValidationError[] {
-  const errors: ValidationError[] = [];
-
-  if (!puzzle.title.trim()) {
-    errors.push({ field: 'title', message: 'Title is required' });
-  }
-  if (!puzzle.book.trim()) {
-    errors.push({ field: 'book', message: 'Book name is required' });
-  }
-  if (!puzzle.genre.trim()) {
-    errors.push({ field: 'genre', message: 'Genre is required' });
-  }
-  if (!puzzle.words || puzzle.words.length === 0) {
-    errors.push({ field: 'words', message: 'At least one word is required' });
-  }
-  if (!puzzle.storyExcerpt.trim()) {
-    errors.push({ field: 'storyExcerpt', message: 'Story excerpt is required' });
-  }
-
-  return errors;
-}
-
 function validateGenreFile(genreFile: GenreFile): ValidationError[] {
   const errors: ValidationError[] = [];
 
@@ -837,6 +819,36 @@ function PuzzleForm({ puzzle, puzzleIndex, bookIndex, onUpdate, validationErrors
           <p className="text-sm text-[var(--text-medium)] mt-1">This is the story text that will be displayed to players. Order matters as it tells a sequential story.</p>
         </div>
 
+        <div>
+          <label className="block font-semibold mb-2 text-[var(--text-light)]">Grid Shape (optional)</label>
+          <textarea
+            value={Array.isArray(puzzle.mask) ? puzzle.mask.join('\n') : puzzle.mask ?? ''}
+            onChange={(e) => {
+              const value = e.target.value;
+              const mask: PuzzleMask | undefined = !value.trim()
+                ? undefined
+                : value.includes('\n') ? value.split('\n') : value.trim() as MaskShape;
+              onUpdate({ mask });
+            }}
+            className={`w-full px-3 py-2 bg-[var(--primary-dark)] text-[var(--text-light)] border rounded h-24 font-mono focus:outline-none ${getError('mask') ? 'border-red-500 focus:border-red-500' : 'border-[var(--primary-light)] focus:border-[var(--accent-light)]'}`}
+            placeholder={`e.g., ${MASK_SHAPES.join(', ')} - or ASCII art rows`}
+          />
+          {getError('mask') && <p className="text-red-500 text-sm mt-1">{getError('mask')!.message}</p>}
+          <p className="text-sm text-[var(--text-medium)] mt-1">Leave empty for a square grid. In ASCII art, &quot;.&quot; and spaces are void cells and any other character is an open cell.</p>
+        </div>
+
+        <div>
+          <label className="block font-semibold mb-2 text-[var(--text-light)]">Hidden Message (optional)</label>
+          <input
+            type="text"
+            value={puzzle.hiddenMessage ?? ''}
+            onChange={(e) => onUpdate({ hiddenMessage: e.target.value || undefined })}
+            className="w-full px-3 py-2 bg-[var(--primary-dark)] text-[var(--text-light)] border border-[var(--primary-light)] rounded focus:outline-none focus:border-[var(--accent-light)]"
+            placeholder="e.g., The Kethaneum remembers"
+          />
+          <p className="text-sm text-[var(--text-medium)] mt-1">Spelled by the leftover letters and revealed once every word is found. Only letters go in the grid.</p>
+        </div>
+
         <div className="bg-[var(--primary-light)] bg-opacity-50 p-3 rounded border border-[var(--primary-lighter)]">
           <p className="text-sm text-[var(--text-light)]">
             <strong>Story Part:</strong> {puzzleIndex} (auto-calculated by position)
@@ -845,7 +857,101 @@ function PuzzleForm({ puzzle, puzzleIndex, bookIndex, onUpdate, validationErrors
             <strong>Genre:</strong> {puzzle.genre} (set at file level)
           </p>
         </div>
+
+        <GenerationTestPanel puzzle={puzzle} />
+      </div>
+    </div>
+  );
+}
+
+// ============================================================================
+// GENERATION TEST PANEL
+// ============================================================================
+
+function GenerationTestPanel({ puzzle }: { puzzle: Puzzle }) {
+  const [result, setResult] = useState<{ grid: string[][]; report: GenerationReport } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [difficulty, setDifficulty] = useState<'easy' | 'medium' | 'hard'>('medium');
+  const [autoTune, setAutoTune] = useState(false);
+
+  const handleTest = () => {
+    try {
+      // Same seed the game would use for this puzzle, at the chosen difficulty
+      const config = getConfig();
+      const testConfig = {
+        ...config,
+        ...config.difficultyLevels[difficulty],
+        generation: { ...config.generation, autoTune },
+      };
+      const { grid, report } = regenerateGrid(puzzle, derivePuzzleSeed(puzzle), testConfig);
+      setResult({ grid, report });
+      setError(null);
+    } catch (err) {
+      setResult(null);
+      setError((err as Error).message);
+    }
+  };
+
+  const notices = result ? summarizeGenerationReport(result.report) : [];
+
+  return (
+    <div className="p-3 rounded border border-[var(--primary-lighter)]">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="font-bold text-[var(--text-light)]">Grid Generation Test</h3>
+        <div className="flex items-center gap-3">
+          <select
+            value={difficulty}
+            onChange={(e) => setDifficulty(e.target.value as 'easy' | 'medium' | 'hard')}
+            className="px-2 py-1 bg-[var(--primary-dark)] text-[var(--text-light)] border border-[var(--primary-light)] rounded text-sm"
+          >
+            <option value="easy">Easy</option>
+            <option value="medium">Medium</option>
+            <option value="hard">Hard</option>
+          </select>
+          <label className="flex items-center gap-1 text-sm text-[var(--text-light)]">
+            <input type="checkbox" checked={autoTune} onChange={(e) => setAutoTune(e.target.checked)} />
+            Auto-tune
+          </label>
+          <button
+            onClick={handleTest}
+            disabled={puzzle.words.length === 0}
+            className="px-3 py-1 bg-[var(--accent-dark)] text-white rounded hover:bg-[var(--accent-main)] transition-all text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Test Generation
+          </button>
+        </div>
       </div>
+
+      {error && <p className="text-red-500 text-sm">Generation failed: {error}</p>}
+
+      {result && (
+        <div className="space-y-2">
+          <p className="text-sm text-[var(--text-light)]">
+            <strong>Grid:</strong> {result.report.gridSize}×{result.report.gridSize}
+            {' · '}<strong>Placed:</strong> {result.report.placedWords.length}/{result.report.requestedWords.length}
+            {' · '}<strong>Overlaps:</strong> {result.report.quality.overlaps} (target {result.report.quality.targetOverlaps})
+            {' · '}<strong>Quality:</strong> {result.report.quality.score}/100
+            {' · '}<strong>Decoy cells:</strong> {result.report.decoyCells}
+          </p>
+          <p className="text-sm text-[var(--text-light)]">
+            <strong>Difficulty score:</strong> {result.report.analysis.score}/100
+            {' '}(target {getConfig().difficultyLevels[difficulty].scoreRange.join('–')})
+            {' · '}<strong>Reversed:</strong> {Math.round(result.report.analysis.reversedShare * 100)}%
+            {' · '}<strong>Diagonal:</strong> {Math.round(result.report.analysis.diagonalShare * 100)}%
+            {result.report.tuneAttempts > 0 && <>{' · '}<strong>Re-rolls:</strong> {result.report.tuneAttempts}</>}
+          </p>
+          {notices.length > 0 ? (
+            <ul className="list-disc list-inside text-sm text-yellow-400">
+              {notices.map(notice => <li key={notice}>{notice}</li>)}
+            </ul>
+          ) : (
+            <p className="text-sm text-[var(--accent-main)]">✓ All words fit without fallbacks.</p>
+          )}
+          <pre className="font-mono text-sm leading-tight text-[var(--text-light)] bg-[var(--primary-dark)] p-2 rounded overflow-x-auto">
+            {result.grid.map(row => row.join(' ')).join('\n')}
+          </pre>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,67 @@
+'use client';
+
+import { useMemo } from 'react';
+import { buildClozeExcerpt } from '@/lib/game/clozeExcerpt';
+import type { WordNormalizationOptions } from '@/lib/game/wordNormalizer';
+import type { WordData } from '@/lib/game/state';
+import styles from './ClozeExcerpt.module.css';
+
+interface ClozeExcerptProps {
+  excerpt: string;
+  wordList: WordData[];
+  normalization?: WordNormalizationOptions;
+}
+
+function Blank({ text, revealed }: { text: string; revealed: boolean }) {
+  // A hidden blank keeps its word's width, so the text does not reflow as it fills in
+  return revealed ? (
+    <span className={styles.revealed}>{text}</span>
+  ) : (
+    <span className={styles.blank}>
+      <span aria-hidden="true">{text}</span>
+      <span className="sr-only">blank</span>
+    </span>
+  );
+}
+
+export function ClozeExcerpt({ excerpt, wordList, normalization }: ClozeExcerptProps) {
+  // Word positions only change with a new puzzle; found flags are read on each render
+  const wordKey = wordList.map(word => word.word).join('|');
+  const cloze = useMemo(
+    () => buildClozeExcerpt(excerpt, wordKey ? wordKey.split('|').map(word => ({ word })) : [], normalization),
+    [excerpt, wordKey, normalization]
+  );
+
+  return (
+    <>
+      <p data-testid="cloze-excerpt">
+        {cloze.segments.map((segment, index) =>
+          segment.wordIndex === null ? (
+            segment.text
+          ) : (
+            <Blank
+              key={index}
+              text={segment.text}
+              revealed={Boolean(wordList[segment.wordIndex]?.found)}
+            />
+          )
+        )}
+      </p>
+      {/* Words the excerpt does not use still get a blank, so every find reveals something */}
+      {cloze.unmatched.length > 0 && (
+        <p className={styles.extraWords} data-testid="cloze-extra-words">
+          Also hidden in the grid:{' '}
+          {cloze.unmatched.map((wordIndex, index) => (
+            <span key={wordIndex}>
+              {index > 0 && ', '}
+              <Blank
+                text={wordList[wordIndex].displayWord ?? wordList[wordIndex].word}
+                revealed={wordList[wordIndex].found}
+              />
+            </span>
+          ))}
+        </p>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,67 @@
+'use client';
+
+import { useState } from 'react';
+import type { DailyProgress } from '@/lib/game/state';
+import { getDailyCalendarMonth, getDailyDateKey } from '@/lib/game/dailyArchive';
+import styles from './DailyArchiveCalendar.module.css';
+
+interface DailyArchiveCalendarProps {
+  progress: DailyProgress;
+  today?: string;
+}
+
+const WEEKDAYS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+export function DailyArchiveCalendar({ progress, today = getDailyDateKey() }: DailyArchiveCalendarProps) {
+  const [todayYear, todayMonth] = today.split('-').map(Number);
+  const [view, setView] = useState({ year: todayYear, month: todayMonth });
+
+  const days = getDailyCalendarMonth(progress, view.year, view.month);
+  const leadingBlanks = new Date(view.year, view.month - 1, 1).getDay();
+  const monthLabel = new Date(view.year, view.month - 1, 1).toLocaleDateString(undefined, {
+    month: 'long',
+    year: 'numeric',
+  });
+  const isCurrentMonth = view.year === todayYear && view.month === todayMonth;
+
+  const changeMonth = (offset: number) => {
+    const date = new Date(view.year, view.month - 1 + offset, 1);
+    setView({ year: date.getFullYear(), month: date.getMonth() + 1 });
+  };
+
+  return (
+    <div className={styles.calendar} data-testid="daily-calendar">
+      <div className={styles.calendarHeader}>
+        <button className={styles.navButton} onClick={() => changeMonth(-1)} aria-label="Previous month">
+          ‹
+        </button>
+        <span className={styles.monthLabel}>{monthLabel}</span>
+        <button
+          className={styles.navButton}
+          onClick={() => changeMonth(1)}
+          disabled={isCurrentMonth}
+          aria-label="Next month"
+        >
+          ›
+        </button>
+      </div>
+      <div className={styles.grid}>
+        {WEEKDAYS.map((weekday, index) => (
+          <span key={`weekday-${index}`} className={styles.weekday}>{weekday}</span>
+        ))}
+        {Array.from({ length: leadingBlanks }, (_, index) => (
+          <span key={`blank-${index}`} />
+        ))}
+        {days.map(({ dateKey, day, completed }) => (
+          <span
+            key={dateKey}
+            className={`${styles.day} ${completed ? styles.completed : ''} ${dateKey === today ? styles.today : ''}`}
+            title={completed ? `${dateKey}: completed` : dateKey}
+          >
+            {day}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -3,7 +3,7 @@
 import { useState } from 'react';
 import styles from './GameModeModal.module.css';
 
-export type GameMode = 'story' | 'puzzle-only' | 'beat-the-clock';
+export type GameMode = 'story' | 'puzzle-only' | 'beat-the-clock' | 'endless' | 'calm' | 'daily' | 'practice';
 
 interface GameModeModalProps {
   isOpen: boolean;
@@ -36,6 +36,26 @@ const MODES: ModeInfo[] = [
     title: 'Beat the Clock',
     description: 'Race against time across multiple small puzzles. 5 minute runs. (Coming Soon)',
     disabled: true
+  },
+  {
+    id: 'endless',
+    title: 'Endless Mode',
+    description: 'Puzzle after puzzle, each on its own timer. Keep your streak alive until the clock wins.'
+  },
+  {
+    id: 'calm',
+    title: 'Calm Mode',
+    description: 'Untimed puzzles that flow one into the next, with no interruptions.'
+  },
+  {
+    id: 'daily',
+    title: 'Daily Archive',
+    description: 'One puzzle a day, the same for every archivist. Return daily to build your streak.'
+  },
+  {
+    id: 'practice',
+    title: 'Practice Mode',
+    description: 'Write your own word lists and play them as puzzles. Kept apart from your story progress.'
   }
 ];
 
@@ -3,22 +3,34 @@
 import { useRouter } from 'next/navigation';
 import { BookOfPassageButton } from '@/components/BookOfPassageButton';
 import { LibraryButton } from '@/components/LibraryButton';
-import type { SessionStats } from '@/lib/game/state';
+import { DailyArchiveCalendar } from '@/components/DailyArchiveCalendar';
+import { getDailyStreak } from '@/lib/game/dailyArchive';
+import { MISS_REASONS, MISS_REASON_LABELS } from '@/lib/game/selectionLog';
+import type { DailyProgress, RunScore, SessionStats } from '@/lib/game/state';
 import styles from './GameStatsModal.module.css';
 
-export type GameMode = 'story' | 'puzzle-only' | 'beat-the-clock';
+export type GameMode = 'story' | 'puzzle-only' | 'beat-the-clock' | 'endless' | 'calm' | 'daily' | 'practice';
 
 interface GameStatsModalProps {
   isOpen: boolean;
   mode: GameMode;
   isWin: boolean;
   sessionStats: SessionStats | null;
+  streak?: number; // Puzzles solved in a row (Endless Mode)
+  dailyProgress?: DailyProgress; // Completions and streaks (Daily Archive)
+  runScore?: RunScore; // Score for the run (Beat the Clock)
+  bestRunScore?: number | null; // Score of the saved best run (Beat the Clock)
+  isNewBestRun?: boolean;
   onNextPuzzle?: () => void;
   onRestartPuzzle?: () => void;
   onStartFreshRun?: () => void;
+  onWatchBestRun?: () => void;
+  onRaceBestRun?: () => void;
+  onExportReplay?: () => void;
   onMainMenu?: () => void;
   onBackToLibrary?: () => void;
   onBackToBookOfPassage?: () => void;
+  onBackToPractice?: () => void;
 }
 
 function formatTime(seconds: number): string {
@@ -32,17 +44,30 @@ export function GameStatsModal({
   mode,
   isWin,
   sessionStats,
+  streak = 0,
+  dailyProgress,
+  runScore,
+  bestRunScore = null,
+  isNewBestRun = false,
   onNextPuzzle,
   onRestartPuzzle,
   onStartFreshRun,
+  onWatchBestRun,
+  onRaceBestRun,
+  onExportReplay,
   onMainMenu,
   onBackToLibrary,
   onBackToBookOfPassage,
+  onBackToPractice,
 }: GameStatsModalProps) {
   const router = useRouter();
 
   if (!isOpen) return null;
 
+  const hintsUsed = sessionStats
+    ? sessionStats.puzzles.reduce((total, puzzle) => total + (puzzle.hintsUsed || 0), 0)
+    : 0;
+
   const handleMainMenu = () => {
     if (onMainMenu) {
       onMainMenu();
@@ -63,9 +88,54 @@ export function GameStatsModal({
           </div>
         </div>
 
-        {sessionStats && (
+        {mode === 'endless' && (
+          <div className={styles.statsContainer} data-testid="endless-results">
+            <div className={styles.statRow}>
+              <span className={styles.statLabel}>Streak:</span>
+              <span className={styles.statValue}>{streak}</span>
+            </div>
+            <div className={styles.statRow}>
+              <span className={styles.statLabel}>Total Words Found:</span>
+              <span className={styles.statValue}>{sessionStats?.totalWordsFound ?? 0}</span>
+            </div>
+            <div className={styles.statRow}>
+              <span className={styles.statLabel}>Average Time per Puzzle:</span>
+              <span className={styles.statValue}>
+                {sessionStats && sessionStats.puzzlesCompleted > 0
+                  ? formatTime(Math.floor(sessionStats.averageTime))
+                  : '0:00'}
+              </span>
+            </div>
+            <div className={styles.statRow}>
+              <span className={styles.statLabel}>Hints Used:</span>
+              <span className={styles.statValue}>{hintsUsed}</span>
+            </div>
+          </div>
+        )}
+
+        {mode === 'daily' && dailyProgress && (
+          <>
+            <div className={styles.statsContainer} data-testid="daily-results">
+              <div className={styles.statRow}>
+                <span className={styles.statLabel}>Current Streak:</span>
+                <span className={styles.statValue}>{getDailyStreak(dailyProgress)}</span>
+              </div>
+              <div className={styles.statRow}>
+                <span className={styles.statLabel}>Longest Streak:</span>
+                <span className={styles.statValue}>{dailyProgress.longestStreak}</span>
+              </div>
+              <div className={styles.statRow}>
+                <span className={styles.statLabel}>Days Completed:</span>
+                <span className={styles.statValue}>{dailyProgress.completedDates.length}</span>
+              </div>
+            </div>
+            <DailyArchiveCalendar progress={dailyProgress} />
+          </>
+        )}
+
+        {sessionStats && mode !== 'endless' && mode !== 'daily' && (
           <div className={styles.statsContainer}>
-            {mode === 'puzzle-only' && (
+            {(mode === 'puzzle-only' || mode === 'calm' || mode === 'practice') && (
               <>
                 <div className={styles.statRow}>
                   <span className={styles.statLabel}>Total Puzzles Completed:</span>
@@ -75,11 +145,39 @@ export function GameStatsModal({
                   <span className={styles.statLabel}>Total Words Found:</span>
                   <span className={styles.statValue}>{sessionStats.totalWordsFound}</span>
                 </div>
+                <div className={styles.statRow}>
+                  <span className={styles.statLabel}>Hints Used:</span>
+                  <span className={styles.statValue}>{hintsUsed}</span>
+                </div>
               </>
             )}
 
             {mode === 'beat-the-clock' && (
               <>
+                {runScore && (
+                  <>
+                    <div className={styles.statRow} data-testid="run-score-summary">
+                      <span className={styles.statLabel}>Final Score:</span>
+                      <span className={styles.statValue}>{runScore.total}</span>
+                    </div>
+                    <div className={styles.statRow}>
+                      <span className={styles.statLabel}>Best Combo:</span>
+                      <span className={styles.statValue}>{runScore.bestCombo}</span>
+                    </div>
+                    <div className={styles.statRow}>
+                      <span className={styles.statLabel}>Invalid Selections:</span>
+                      <span className={styles.statValue}>{runScore.invalidSelections}</span>
+                    </div>
+                    {bestRunScore !== null && (
+                      <div className={styles.statRow} data-testid="best-run-score">
+                        <span className={styles.statLabel}>Best Run:</span>
+                        <span className={styles.statValue}>
+                          {bestRunScore}{isNewBestRun ? ' (new best!)' : ''}
+                        </span>
+                      </div>
+                    )}
+                  </>
+                )}
                 <div className={styles.statRow}>
                   <span className={styles.statLabel}>Puzzles Completed:</span>
                   <span className={styles.statValue}>{sessionStats.puzzlesCompleted}</span>
@@ -100,11 +198,40 @@ export function GameStatsModal({
                   <span className={styles.statLabel}>Total Words Found:</span>
                   <span className={styles.statValue}>{sessionStats.totalWordsFound}</span>
                 </div>
+                <div className={styles.statRow}>
+                  <span className={styles.statLabel}>Hints Used:</span>
+                  <span className={styles.statValue}>{hintsUsed}</span>
+                </div>
               </>
             )}
           </div>
         )}
 
+        {sessionStats && sessionStats.selections > 0 && (
+          <div className={styles.statsContainer} data-testid="selection-stats">
+            <div className={styles.statRow}>
+              <span className={styles.statLabel}>Accuracy:</span>
+              <span className={styles.statValue}>
+                {Math.round(sessionStats.accuracy)}% ({sessionStats.hits}/{sessionStats.selections})
+              </span>
+            </div>
+            <div className={styles.statRow}>
+              <span className={styles.statLabel}>Average Time per Word:</span>
+              <span className={styles.statValue}>{formatTime(Math.round(sessionStats.averageTimePerWord))}</span>
+            </div>
+            <div className={styles.statRow}>
+              <span className={styles.statLabel}>Time Between Finds:</span>
+              <span className={styles.statValue}>{formatTime(Math.round(sessionStats.averageTimeBetweenFinds))}</span>
+            </div>
+            {MISS_REASONS.filter(reason => sessionStats.misses[reason] > 0).map(reason => (
+              <div className={styles.statRow} key={reason}>
+                <span className={styles.statLabel}>Misses - {MISS_REASON_LABELS[reason]}:</span>
+                <span className={styles.statValue}>{sessionStats.misses[reason]}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
         <div className={styles.buttonContainer}>
           {mode === 'puzzle-only' && (
             <>
@@ -128,6 +255,16 @@ export function GameStatsModal({
                   Start Fresh Run
                 </button>
               )}
+              {onRaceBestRun && (
+                <button className={styles.secondaryButton} onClick={onRaceBestRun} data-testid="race-best-run">
+                  Race Best Run
+                </button>
+              )}
+              {onWatchBestRun && (
+                <button className={styles.secondaryButton} onClick={onWatchBestRun} data-testid="watch-best-run">
+                  Watch Best Run
+                </button>
+              )}
               {!isWin && onRestartPuzzle && (
                 <button className={styles.secondaryButton} onClick={onRestartPuzzle}>
                   Restart Puzzle
@@ -136,6 +273,33 @@ export function GameStatsModal({
             </>
           )}
 
+          {mode === 'endless' && onStartFreshRun && (
+            <button className={styles.primaryButton} onClick={onStartFreshRun}>
+              Start New Run
+            </button>
+          )}
+
+          {mode === 'calm' && isWin && onNextPuzzle && (
+            <button className={styles.primaryButton} onClick={onNextPuzzle}>
+              Next Puzzle
+            </button>
+          )}
+
+          {mode === 'practice' && (
+            <>
+              {onRestartPuzzle && (
+                <button className={styles.primaryButton} onClick={onRestartPuzzle}>
+                  Play Again
+                </button>
+              )}
+              {onBackToPractice && (
+                <button className={styles.secondaryButton} onClick={onBackToPractice} data-testid="back-to-practice">
+                  Back to Practice
+                </button>
+              )}
+            </>
+          )}
+
           {mode === 'story' && (
             <>
               {isWin && onNextPuzzle && (
@@ -165,6 +329,12 @@ export function GameStatsModal({
             </>
           )}
 
+          {onExportReplay && (
+            <button className={styles.secondaryButton} onClick={onExportReplay} data-testid="export-replay">
+              Export Replay
+            </button>
+          )}
+
           <button className={styles.secondaryButton} onClick={handleMainMenu}>
             Main Menu
           </button>
@@ -0,0 +1,123 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import {
+  getPrintFileName,
+  renderPrintDocument,
+  renderPuzzleSvg,
+  type PrintablePuzzle,
+} from '@/lib/game/printExport';
+import styles from './PrintExportModal.module.css';
+
+interface PrintExportModalProps {
+  isOpen: boolean;
+  puzzle: PrintablePuzzle;
+  onClose: () => void;
+}
+
+function downloadSvg(svg: string, fileName: string) {
+  const blob = new Blob([svg], { type: 'image/svg+xml' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function PrintExportModal({ isOpen, puzzle, onClose }: PrintExportModalProps) {
+  const [includeExcerpt, setIncludeExcerpt] = useState(true);
+  const [includeAnswerKey, setIncludeAnswerKey] = useState(true);
+  const hasExcerpt = Boolean(puzzle.storyExcerpt?.trim());
+
+  const puzzleSvg = useMemo(
+    () => (isOpen ? renderPuzzleSvg(puzzle, { includeExcerpt }) : ''),
+    [isOpen, puzzle, includeExcerpt]
+  );
+
+  if (!isOpen) return null;
+
+  const handlePrint = () => {
+    // Print from a hidden frame holding only the print document, so the game screen stays as it is
+    const frame = document.createElement('iframe');
+    frame.style.position = 'fixed';
+    frame.style.width = '0';
+    frame.style.height = '0';
+    frame.style.border = '0';
+    frame.onload = () => {
+      frame.contentWindow?.focus();
+      frame.contentWindow?.print();
+      setTimeout(() => frame.remove(), 1000);
+    };
+    frame.srcdoc = renderPrintDocument(puzzle, { includeExcerpt, includeAnswerKey });
+    document.body.appendChild(frame);
+  };
+
+  return (
+    <div className={styles.overlay} onClick={onClose}>
+      <div
+        className={styles.panelContent}
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-labelledby="print-export-title"
+        data-testid="print-export-modal"
+      >
+        <h2 className={styles.panelTitle} id="print-export-title">Print Puzzle</h2>
+
+        {/* Rendered by printExport, which escapes every piece of puzzle text */}
+        <div
+          className={styles.preview}
+          role="img"
+          aria-label={`Printable page for ${puzzle.title}`}
+          dangerouslySetInnerHTML={{ __html: puzzleSvg }}
+        />
+
+        <div className={styles.options}>
+          {hasExcerpt && (
+            <label className={styles.option}>
+              <input
+                type="checkbox"
+                checked={includeExcerpt}
+                onChange={(e) => setIncludeExcerpt(e.target.checked)}
+                data-testid="print-include-excerpt"
+              />
+              Include story excerpt
+            </label>
+          )}
+          <label className={styles.option}>
+            <input
+              type="checkbox"
+              checked={includeAnswerKey}
+              onChange={(e) => setIncludeAnswerKey(e.target.checked)}
+              data-testid="print-include-answer-key"
+            />
+            Add an answer key page
+          </label>
+        </div>
+
+        <div className={styles.actions}>
+          <button className={`${styles.actionButton} ${styles.primary}`} onClick={handlePrint} data-testid="print-btn">
+            Print
+          </button>
+          <button
+            className={styles.actionButton}
+            onClick={() => downloadSvg(puzzleSvg, getPrintFileName(puzzle.title))}
+            data-testid="download-svg-btn"
+          >
+            Download SVG
+          </button>
+          <button
+            className={styles.actionButton}
+            onClick={() => downloadSvg(renderPuzzleSvg(puzzle, { answerKey: true }), getPrintFileName(puzzle.title, true))}
+            data-testid="download-answer-key-btn"
+          >
+            Download Answer Key
+          </button>
+          <button className={styles.actionButton} onClick={onClose}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+'use client';
+
+import { useState } from 'react';
+import type { Cell, WordData } from '@/lib/game/state';
+import { DIRECTION_OPTIONS, getCellsFromStart } from '@/lib/game/gridAccessibility';
+import styles from './WordPicker.module.css';
+
+interface WordPickerProps {
+  wordList: WordData[];
+  grid: string[][];
+  disabled: boolean;
+  /** Check a selection against the hidden words; returns whether it found one */
+  onCheck: (cells: Cell[]) => boolean;
+}
+
+/**
+ * Non-visual way to find words: pick a word, a start cell and a direction
+ * from lists instead of selecting letters on the grid
+ */
+export function WordPicker({ wordList, grid, disabled, onCheck }: WordPickerProps) {
+  const [wordIndex, setWordIndex] = useState(-1);
+  const [row, setRow] = useState(0);
+  const [col, setCol] = useState(0);
+  const [directionIndex, setDirectionIndex] = useState(0);
+  const [message, setMessage] = useState('');
+
+  const unfound = wordList
+    .map((word, index) => ({ word, index }))
+    .filter(({ word }) => !word.found);
+  // Fall back to the first unfound word once the chosen one is found
+  const selected = unfound.find(({ index }) => index === wordIndex) ?? unfound[0];
+  const columnCount = grid[0]?.length ?? 0;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected || disabled) return;
+
+    const direction = DIRECTION_OPTIONS[directionIndex];
+    const name = selected.word.displayWord ?? selected.word.word;
+    const cells = getCellsFromStart(grid, { row, col }, direction.vector, selected.word.word.length);
+    if (!cells) {
+      setMessage(`${name} does not fit from row ${row + 1}, column ${col + 1} going ${direction.label.toLowerCase()}`);
+      return;
+    }
+
+    // Finds are announced by the puzzle page's live region
+    const found = onCheck(cells);
+    setMessage(found
+      ? ''
+      : `${name} is not at row ${row + 1}, column ${col + 1} going ${direction.label.toLowerCase()}`);
+  };
+
+  if (grid.length === 0 || unfound.length === 0) return null;
+
+  return (
+    <details className={styles.picker} data-testid="word-picker">
+      <summary className={styles.summary}>Find a word without the grid</summary>
+      <form className={styles.form} onSubmit={handleSubmit}>
+        <label className={styles.field}>
+          Word
+          <select
+            value={selected?.index ?? ''}
+            onChange={(e) => setWordIndex(Number(e.target.value))}
+            data-testid="word-picker-word"
+          >
+            {unfound.map(({ word, index }) => (
+              <option key={`${word.word}-${index}`} value={index}>
+                {word.displayWord ?? word.word}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className={styles.field}>
+          Start row
+          <select value={row} onChange={(e) => setRow(Number(e.target.value))} data-testid="word-picker-row">
+            {grid.map((_, index) => (
+              <option key={index} value={index}>{index + 1}</option>
+            ))}
+          </select>
+        </label>
+        <label className={styles.field}>
+          Start column
+          <select value={col} onChange={(e) => setCol(Number(e.target.value))} data-testid="word-picker-col">
+            {Array.from({ length: columnCount }, (_, index) => (
+              <option key={index} value={index}>{index + 1}</option>
+            ))}
+          </select>
+        </label>
+        <label className={styles.field}>
+          Direction
+          <select
+            value={directionIndex}
+            onChange={(e) => setDirectionIndex(Number(e.target.value))}
+            data-testid="word-picker-direction"
+          >
+            {DIRECTION_OPTIONS.map((option, index) => (
+              <option key={option.label} value={index}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+        <button type="submit" className={styles.submit} disabled={disabled} data-testid="word-picker-submit">
+          Check
+        </button>
+      </form>
+      <p className={styles.message} role="status" data-testid="word-picker-message">
+        {message}
+      </p>
+    </details>
+  );
+}
@@ -0,0 +1,68 @@
+// Calm Mode Tests for Chronicles of the Kethaneum
+
+import { exposeGameState, solveCurrentPuzzle } from '../support/word-finder';
+import { defaultPuzzleSelectionConfig } from '../../lib/game/puzzleSelectionConfig';
+import type { WordData } from '../../lib/game/state';
+
+describe('Calm Mode', () => {
+  beforeEach(() => {
+    cy.visit('http://localhost:3000/');
+    cy.clearLocalStorage();
+  });
+
+  it('should play without a countdown', () => {
+    cy.startGameInMode('Calm Mode');
+
+    cy.get('[data-testid="puzzle-screen"]', { timeout: 15000 }).should('be.visible');
+    cy.get('[data-testid="word-list"]', { timeout: 10000 }).should('be.visible');
+    exposeGameState();
+
+    cy.window().its('__GAME_STATE__.gameMode').should('equal', 'calm');
+    cy.get('[data-testid="endless-streak"]').should('not.exist');
+    cy.get('[data-testid="run-score"]').should('not.exist');
+  });
+
+  it('should only draw puzzles from the library genres', () => {
+    cy.startGameInMode('Calm Mode');
+    cy.get('[data-testid="puzzle-screen"]', { timeout: 15000 }).should('be.visible');
+    exposeGameState();
+
+    cy.window().its('__GAME_STATE__.currentGenre').then((genre: string) => {
+      expect(defaultPuzzleSelectionConfig.libraryGenres).to.include(genre);
+    });
+  });
+
+  it('should move on to the next puzzle by itself after a win', () => {
+    cy.startGameInMode('Calm Mode');
+    cy.get('[data-testid="puzzle-screen"]', { timeout: 15000 }).should('be.visible');
+    exposeGameState();
+
+    cy.window().its('__GAME_STATE__.currentSeed').then(firstSeed => {
+      solveCurrentPuzzle();
+
+      cy.window().its('__GAME_STATE__.currentSeed', { timeout: 10000 }).should('not.equal', firstSeed);
+      cy.window().its('__GAME_STATE__.wordList').then((wordList: WordData[]) => {
+        expect(wordList.every(word => !word.found)).to.equal(true);
+      });
+    });
+  });
+
+  it('should hold the next puzzle while paused', () => {
+    cy.startGameInMode('Calm Mode');
+    cy.get('[data-testid="puzzle-screen"]', { timeout: 15000 }).should('be.visible');
+    exposeGameState();
+
+    cy.window().its('__GAME_STATE__.currentSeed').then(firstSeed => {
+      solveCurrentPuzzle();
+      cy.get('[data-testid="pause-btn"]').click();
+      cy.get('[data-testid="pause-menu"]').should('be.visible');
+
+      // Longer than the auto-advance delay
+      cy.wait(4000);
+      cy.window().its('__GAME_STATE__.currentSeed').should('equal', firstSeed);
+
+      cy.get('[data-testid="resume-btn"]').click();
+      cy.window().its('__GAME_STATE__.currentSeed', { timeout: 10000 }).should('not.equal', firstSeed);
+    });
+  });
+});
@@ -0,0 +1,94 @@
+// Cloze Excerpt Tests for Chronicles of the Kethaneum
+
+import { buildClozeExcerpt } from '../../lib/game/clozeExcerpt';
+import { exposeGameState, selectWordDirect } from '../support/word-finder';
+import type { WordData } from '../../lib/game/state';
+
+const words = (...list: string[]) => list.map(word => ({ word }));
+
+describe('Cloze Matcher', () => {
+  const blanks = (excerpt: string, list: string[]) =>
+    buildClozeExcerpt(excerpt, words(...list)).segments
+      .filter(segment => segment.wordIndex !== null)
+      .map(segment => [segment.text, segment.wordIndex]);
+
+  it('should blank every occurrence of a word, ignoring case', () => {
+    expect(blanks('The lantern lit the Lantern.', ['LANTERN'])).to.deep.equal([
+      ['lantern', 0],
+      ['Lantern', 0],
+    ]);
+  });
+
+  it('should match common inflections', () => {
+    expect(blanks('Two lanterns lit the old stories.', ['LANTERN', 'STORY'])).to.deep.equal([
+      ['lanterns', 0],
+      ['stories', 1],
+    ]);
+    expect(blanks("The keeper's stone.", ['KEEPER'])).to.deep.equal([["keeper's", 0]]);
+  });
+
+  it('should not read short words as inflected forms', () => {
+    expect(blanks('Her bed was singing.', ['BE'])).to.deep.equal([]);
+  });
+
+  it('should ignore accents', () => {
+    expect(blanks('A café by the river.', ['CAFE'])).to.deep.equal([['café', 0]]);
+  });
+
+  it('should match a word written as several words, but not across punctuation', () => {
+    expect(blanks('She ate a passion fruit.', ['PASSIONFRUIT'])).to.deep.equal([['passion fruit', 0]]);
+    expect(blanks('Passion, fruit and bread.', ['PASSIONFRUIT'])).to.deep.equal([]);
+  });
+
+  it('should keep the rest of the excerpt intact', () => {
+    const excerpt = 'Old stories of the river, told by lantern light.';
+    const { segments } = buildClozeExcerpt(excerpt, words('STORY', 'RIVER', 'LANTERN'));
+
+    expect(segments.map(segment => segment.text).join('')).to.equal(excerpt);
+  });
+
+  it('should list the words the excerpt does not use', () => {
+    const { unmatched } = buildClozeExcerpt('A café by the river.', words('CAFE', 'RIVER', 'MOSS'));
+
+    expect(unmatched).to.deep.equal([2]);
+  });
+});
+
+describe('Cloze Excerpt', () => {
+  beforeEach(() => {
+    cy.viewport(1280, 800);
+    cy.visit('http://localhost:3000/');
+    cy.clearLocalStorage();
+  });
+
+  it('should blank the excerpt and fill it in as words are found', () => {
+    cy.startGameInMode('Story Mode');
+    cy.get('[data-testid="book-of-passage-screen"]', { timeout: 10000 }).should('be.visible');
+    cy.get('[data-testid="begin-cataloging-btn"]').click();
+    cy.contains('button', 'Browse the Archives').click();
+    cy.get('[role="dialog"]', { timeout: 10000 }).should('be.visible');
+    cy.contains('Natural Wisdom').click();
+
+    cy.get('[data-testid="puzzle-screen"]', { timeout: 15000 }).should('be.visible');
+    cy.get('[data-testid="cloze-excerpt"]').should('not.exist');
+
+    cy.get('[data-testid="cloze-toggle"]').check();
+    cy.get('[data-testid="cloze-excerpt"]').should('be.visible');
+    cy.window().then((win) => {
+      expect(win.localStorage.getItem('kethaneumClozeExcerpt')).to.equal('true');
+    });
+
+    exposeGameState();
+    cy.get('.sr-only:contains("blank")').its('length').then((blankCount) => {
+      cy.window().its('__GAME_STATE__.wordList.0').then((word: WordData) => {
+        selectWordDirect({ row: word.row, col: word.col }, word.direction, word.word.length, word.word);
+      });
+
+      cy.get('.sr-only:contains("blank")').its('length').should('be.lessThan', blankCount);
+    });
+
+    // The preference is kept for the next puzzle
+    cy.reload();
+    cy.get('[data-testid="cloze-excerpt"]', { timeout: 15000 }).should('be.visible');
+  });
+});
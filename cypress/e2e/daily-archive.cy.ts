@@ -0,0 +1,104 @@
+// Daily Archive Tests for Chronicles of the Kethaneum
+
+import { exposeGameState, solveCurrentPuzzle } from '../support/word-finder';
+import { getDailyDateKey, selectDailyPuzzle, shiftDateKey } from '../../lib/game/dailyArchive';
+import type { GameState, PuzzleData } from '../../lib/game/state';
+
+describe('Daily Archive', () => {
+  beforeEach(() => {
+    cy.visit('http://localhost:3000/');
+    cy.clearLocalStorage();
+  });
+
+  it("should show today's puzzle with its date", () => {
+    cy.startGameInMode('Daily Archive');
+
+    cy.get('[data-testid="puzzle-screen"]', { timeout: 15000 }).should('be.visible');
+    cy.get('[data-testid="daily-banner"]').should('contain', getDailyDateKey());
+  });
+
+  it('should give every player the same grid on the same day', () => {
+    cy.startGameInMode('Daily Archive');
+    cy.get('[data-testid="puzzle-screen"]', { timeout: 15000 }).should('be.visible');
+    exposeGameState();
+
+    cy.window().its('__GAME_STATE__').then((firstState: GameState) => {
+      // A fresh player on the same day
+      cy.visit('http://localhost:3000/');
+      cy.clearLocalStorage();
+      cy.startGameInMode('Daily Archive');
+      cy.get('[data-testid="puzzle-screen"]', { timeout: 15000 }).should('be.visible');
+      exposeGameState();
+
+      cy.window().its('__GAME_STATE__').then((state: GameState) => {
+        expect(state.currentSeed).to.equal(firstState.currentSeed);
+        expect(state.grid).to.deep.equal(firstState.grid);
+      });
+    });
+  });
+
+  it('should record the day and show the calendar after a win', () => {
+    cy.startGameInMode('Daily Archive');
+    cy.get('[data-testid="puzzle-screen"]', { timeout: 15000 }).should('be.visible');
+    exposeGameState();
+
+    solveCurrentPuzzle();
+
+    cy.get('[data-testid="daily-results"]', { timeout: 10000 }).should('be.visible');
+    cy.get('[data-testid="daily-results"]').should('contain', 'Days Completed:');
+    cy.get('[data-testid="daily-calendar"]').should('be.visible');
+  });
+});
+
+describe('Daily puzzle selection', () => {
+  const makePuzzle = (genre: string, title: string): PuzzleData => ({
+    title,
+    book: title,
+    words: ['LANTERN', 'RIVER', 'FOREST'],
+    genre,
+  });
+
+  const puzzles = {
+    nature: [makePuzzle('nature', 'Moss'), makePuzzle('nature', 'Fern')],
+    science: [makePuzzle('science', 'Comets'), makePuzzle('science', 'Tides')],
+  };
+
+  it('should pick the same puzzle and seed for the same date', () => {
+    const first = selectDailyPuzzle(puzzles, '2026-03-14');
+    const second = selectDailyPuzzle(puzzles, '2026-03-14');
+
+    expect(first).to.not.equal(null);
+    expect(second?.puzzle.title).to.equal(first?.puzzle.title);
+    expect(second?.seed).to.equal(first?.seed);
+  });
+
+  it('should not depend on the order the puzzle files loaded in', () => {
+    const reordered = {
+      science: [...puzzles.science].reverse(),
+      nature: [...puzzles.nature].reverse(),
+    };
+
+    expect(selectDailyPuzzle(reordered, '2026-03-14')).to.deep.equal(selectDailyPuzzle(puzzles, '2026-03-14'));
+  });
+
+  it('should change the seed from one day to the next', () => {
+    const today = selectDailyPuzzle(puzzles, '2026-03-14');
+    const tomorrow = selectDailyPuzzle(puzzles, shiftDateKey('2026-03-14', 1));
+
+    expect(tomorrow?.seed).to.not.equal(today?.seed);
+  });
+
+  it('should only draw from the library genres, whatever else is loaded', () => {
+    const withModeContent = {
+      ...puzzles,
+      'Beat the Clock': [makePuzzle('Beat the Clock', 'Sprint')],
+      Kethaneum: [makePuzzle('Kethaneum', 'Lore')],
+    };
+
+    expect(selectDailyPuzzle(withModeContent, '2026-03-14')).to.deep.equal(selectDailyPuzzle(puzzles, '2026-03-14'));
+  });
+
+  it('should return null for an empty pool', () => {
+    expect(selectDailyPuzzle({}, '2026-03-14')).to.equal(null);
+  });
+});
@@ -0,0 +1,77 @@
+// Difficulty Ramp Tests for Chronicles of the Kethaneum
+
+import { getConfig, type Config } from '../../lib/core/config';
+import { getRampedConfig, getRampProgress, pickRunPuzzle } from '../../lib/game/difficultyRamp';
+import { createSeededRandom } from '../../lib/utils/mathUtils';
+
+describe('Difficulty Ramp', () => {
+  const config = getConfig();
+  const withRamp = (ramp: Partial<Config['beatTheClockRamp']>): Config => ({
+    ...config,
+    beatTheClockRamp: { ...config.beatTheClockRamp, ...ramp },
+  });
+
+  it('should run from 0 on the first puzzle to 1 at the peak and stay there', () => {
+    const ramped = withRamp({ puzzlesToPeak: 4, curve: 1 });
+
+    expect(getRampProgress(0, ramped)).to.equal(0);
+    expect(getRampProgress(2, ramped)).to.equal(0.5);
+    expect(getRampProgress(4, ramped)).to.equal(1);
+    expect(getRampProgress(10, ramped)).to.equal(1);
+  });
+
+  it('should follow the configured curve', () => {
+    expect(getRampProgress(2, withRamp({ puzzlesToPeak: 4, curve: 2 }))).to.equal(0.25);
+    expect(getRampProgress(1, withRamp({ puzzlesToPeak: 4, curve: 0.5 }))).to.equal(0.5);
+  });
+
+  it('should treat a ramp with no puzzles to peak as already at its peak', () => {
+    expect(getRampProgress(0, withRamp({ puzzlesToPeak: 0 }))).to.equal(1);
+  });
+
+  it('should move the grid from the start level to the peak level', () => {
+    const ramp = config.beatTheClockRamp;
+    const from = config.difficultyLevels[ramp.from];
+    const to = config.difficultyLevels[ramp.to];
+
+    const first = getRampedConfig(config, 0);
+    expect(first.gridSize).to.equal(from.gridSize);
+    expect(first.maxWords).to.equal(from.maxWords);
+    expect(first.directions).to.deep.equal(config.directions.slice(0, ramp.minDirections));
+
+    const peak = getRampedConfig(config, ramp.puzzlesToPeak);
+    expect(peak.gridSize).to.equal(to.gridSize);
+    expect(peak.maxWords).to.equal(to.maxWords);
+    expect(peak.directions).to.deep.equal(config.directions);
+  });
+
+  it('should never make a later puzzle easier than an earlier one', () => {
+    const configs = Array.from({ length: 8 }, (_, n) => getRampedConfig(config, n));
+
+    configs.slice(1).forEach((ramped, i) => {
+      expect(ramped.gridSize).to.be.at.least(configs[i].gridSize);
+      expect(ramped.directions.length).to.be.at.least(configs[i].directions.length);
+    });
+  });
+
+  it('should not repeat a puzzle until the whole pool has been played', () => {
+    const random = createSeededRandom(42);
+    const played: number[] = [];
+    for (let i = 0; i < 5; i++) {
+      played.push(pickRunPuzzle(5, played, random));
+    }
+
+    expect(played).to.have.members([0, 1, 2, 3, 4]);
+  });
+
+  it('should not serve the last puzzle again when the pool starts over', () => {
+    for (let seed = 1; seed <= 20; seed++) {
+      const played = [3, 1, 0, 2];
+      expect(pickRunPuzzle(4, played, createSeededRandom(seed))).to.not.equal(2);
+    }
+  });
+
+  it('should return -1 for an empty pool', () => {
+    expect(pickRunPuzzle(0, [])).to.equal(-1);
+  });
+});
@@ -0,0 +1,69 @@
+// Endless Mode Tests for Chronicles of the Kethaneum
+
+import { exposeGameState, selectWordDirect, solveCurrentPuzzle } from '../support/word-finder';
+import { defaultPuzzleSelectionConfig } from '../../lib/game/puzzleSelectionConfig';
+import type { GameState, WordData } from '../../lib/game/state';
+
+describe('Endless Mode', () => {
+  beforeEach(() => {
+    cy.visit('http://localhost:3000/');
+    cy.clearLocalStorage();
+  });
+
+  it('should start a run on the puzzle screen with a zero streak', () => {
+    cy.startGameInMode('Endless Mode');
+
+    cy.get('[data-testid="puzzle-screen"]', { timeout: 15000 }).should('be.visible');
+    cy.get('[data-testid="endless-streak"]').should('contain', 'Streak: 0');
+    cy.get('[data-testid="word-list"]', { timeout: 10000 }).should('be.visible');
+  });
+
+  it('should only draw puzzles from the library genres', () => {
+    cy.startGameInMode('Endless Mode');
+    cy.get('[data-testid="puzzle-screen"]', { timeout: 15000 }).should('be.visible');
+    exposeGameState();
+
+    cy.window().its('__GAME_STATE__').then((state: GameState) => {
+      expect(state.gameMode).to.equal('endless');
+      expect(defaultPuzzleSelectionConfig.libraryGenres).to.include(state.currentGenre);
+    });
+  });
+
+  it('should extend the streak and load the next puzzle after a win', () => {
+    cy.startGameInMode('Endless Mode');
+    cy.get('[data-testid="puzzle-screen"]', { timeout: 15000 }).should('be.visible');
+    exposeGameState();
+
+    cy.window().its('__GAME_STATE__').then((state: GameState) => {
+      const firstSeed = state.currentSeed;
+
+      solveCurrentPuzzle();
+
+      cy.get('[data-testid="endless-streak"]', { timeout: 10000 }).should('contain', 'Streak: 1');
+      cy.window().its('__GAME_STATE__.currentSeed').should('not.equal', firstSeed);
+      cy.window().its('__GAME_STATE__.wordList').then((wordList: WordData[]) => {
+        expect(wordList.every(word => !word.found)).to.equal(true);
+      });
+    });
+  });
+
+  it('should restore the same grid and found words after a reload', () => {
+    cy.startGameInMode('Endless Mode');
+    cy.get('[data-testid="puzzle-screen"]', { timeout: 15000 }).should('be.visible');
+    exposeGameState();
+
+    cy.window().its('__GAME_STATE__').then((state: GameState) => {
+      const word = state.wordList[0];
+      selectWordDirect({ row: word.row, col: word.col }, word.direction, word.word.length, word.word);
+
+      // Give the autosave a moment to write the progress
+      cy.wait(1000);
+      cy.reload();
+
+      cy.get('[data-testid="puzzle-screen"]', { timeout: 15000 }).should('be.visible');
+      exposeGameState();
+      cy.window().its('__GAME_STATE__.currentSeed').should('equal', state.currentSeed);
+      cy.window().its('__GAME_STATE__.wordList.0.found').should('equal', true);
+    });
+  });
+});
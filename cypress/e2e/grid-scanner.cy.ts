@@ -0,0 +1,70 @@
+// Grid Scanner Tests for Chronicles of the Kethaneum
+
+import type { WordPlacement } from '../../lib/game/placementEngine';
+import {
+  findAmbiguities,
+  findOccurrences,
+  isInherentlyAmbiguous,
+  resolveAmbiguities,
+} from '../../lib/game/gridScanner';
+import { createSeededRandom } from '../../lib/utils/mathUtils';
+
+describe('Grid Scanner', () => {
+  const buildGrid = () => [
+    'LAMPX',
+    'QQQQQ',
+    'PMALQ',
+    'CRAPZ',
+    'LEVEL',
+  ].map(row => row.split(''));
+  const lamp: WordPlacement = { word: 'LAMP', row: 0, col: 0, direction: [0, 1] };
+
+  it('should find words in every direction', () => {
+    const occurrences = findOccurrences(buildGrid(), ['LAMP']);
+
+    expect(occurrences).to.have.length(2);
+    expect(occurrences.map(o => o.direction)).to.deep.include.members([[0, 1], [0, -1]]);
+  });
+
+  it('should report a palindrome once', () => {
+    expect(findOccurrences(buildGrid(), ['LEVEL'])).to.have.length(1);
+  });
+
+  it('should flag second occurrences and blocked words, but not the placement itself', () => {
+    const ambiguities = findAmbiguities(buildGrid(), [lamp]);
+
+    const duplicate = ambiguities.filter(a => a.kind === 'duplicate');
+    expect(duplicate).to.have.length(1);
+    expect(duplicate[0].occurrence.row).to.equal(2);
+    expect(duplicate[0].fillerCells).to.have.length(4);
+
+    expect(ambiguities.some(a => a.kind === 'blocked' && a.word === 'CRAP')).to.equal(true);
+  });
+
+  it('should re-fill filler cells until the grid is unambiguous', () => {
+    const grid = buildGrid();
+    const { repairs, unresolved } = resolveAmbiguities(grid, [lamp], createSeededRandom(3), () => 'Z');
+
+    expect(repairs).to.be.at.least(2);
+    expect(unresolved).to.have.length(0);
+    expect(grid[0].join('')).to.equal('LAMPX');
+    expect(findOccurrences(grid, ['LAMP'])).to.have.length(1);
+  });
+
+  it('should leave fixed cells alone and report what re-filling cannot fix', () => {
+    const grid = buildGrid();
+    const fixedCells = new Set(['2-0', '2-1', '2-2', '2-3']);
+    const { unresolved } = resolveAmbiguities(grid, [lamp], createSeededRandom(3), () => 'Z', fixedCells);
+
+    expect(grid[2].join('')).to.equal('PMALQ');
+    expect(unresolved).to.have.length(1);
+    expect(unresolved[0].kind).to.equal('duplicate');
+    expect(unresolved[0].fillerCells).to.have.length(0);
+  });
+
+  it('should spot words that every layout makes ambiguous', () => {
+    expect(isInherentlyAmbiguous('ARM', ['ARM', 'HARMONY'])).to.equal(true);
+    expect(isInherentlyAmbiguous('RAM', ['RAM', 'MARBLE'])).to.equal(true);
+    expect(isInherentlyAmbiguous('ARM', ['ARM', 'RIVER'])).to.equal(false);
+  });
+});
@@ -0,0 +1,57 @@
+// Hint Tests for Chronicles of the Kethaneum
+
+import { getConfig } from '../../lib/core/config';
+import { awardHints, getHintBalance, requestHint } from '../../lib/game/hints';
+import { initializeGameState, type GameState } from '../../lib/game/state';
+
+describe('Hints', () => {
+  const config = getConfig();
+
+  const makeState = (overrides: Partial<GameState> = {}): GameState => ({
+    ...initializeGameState(),
+    gameMode: 'puzzle-only',
+    grid: [['L', 'A', 'M', 'P'], ['R', 'I', 'V', 'E'], ['S', 'T', 'O', 'N'], ['E', 'A', 'R', 'S']],
+    wordList: [
+      { word: 'LAMP', found: false, row: 0, col: 0, direction: [0, 1] },
+      { word: 'RIVE', found: true, row: 1, col: 0, direction: [0, 1] },
+    ],
+    ...overrides,
+  });
+
+  it('should start each mode with its configured budget', () => {
+    expect(getHintBalance(makeState(), config)).to.equal(config.hints.startingBudget['puzzle-only']);
+  });
+
+  it('should spend a hint on an unfound word', () => {
+    const { hint, newState } = requestHint(makeState(), 'first-letter', config);
+
+    expect(hint?.word).to.equal('LAMP');
+    expect(hint?.cells).to.deep.equal([[0, 0]]);
+    expect(newState.hintsUsed).to.equal(1);
+    expect(getHintBalance(newState, config)).to.equal(config.hints.startingBudget['puzzle-only'] - 1);
+  });
+
+  it('should not give a hint once the budget is spent', () => {
+    const state = makeState({ hintBudget: { 'puzzle-only': 0 } });
+    const { hint, newState } = requestHint(state, 'quadrant', config);
+
+    expect(hint).to.equal(null);
+    expect(newState).to.equal(state);
+  });
+
+  it('should cap earned hints at the maximum budget', () => {
+    const nearCap = makeState({ hintBudget: { 'puzzle-only': config.hints.maxBudget - 1 } });
+    expect(getHintBalance(awardHints(nearCap, config), config)).to.equal(config.hints.maxBudget);
+
+    const atCap = makeState({ hintBudget: { 'puzzle-only': config.hints.maxBudget } });
+    expect(awardHints(atCap, config)).to.equal(atCap);
+  });
+
+  it('should take the Beat the Clock penalty off the run clock', () => {
+    const runStartTime = 1_000_000;
+    const state = makeState({ gameMode: 'beat-the-clock', runStartTime });
+    const { newState } = requestHint(state, 'direction', config);
+
+    expect(newState.runStartTime).to.equal(runStartTime - config.hints.beatTheClockPenalty * 1000);
+  });
+});
@@ -0,0 +1,76 @@
+// Keyboard Grid Tests for Chronicles of the Kethaneum
+
+import { exposeGameState } from '../support/word-finder';
+import type { GameState, WordData } from '../../lib/game/state';
+
+// Keys that step the cursor one cell in each direction
+const DIRECTION_KEYS: { [direction: string]: string } = {
+  '-1,0': '{uparrow}',
+  '1,0': '{downarrow}',
+  '0,-1': '{leftarrow}',
+  '0,1': '{rightarrow}',
+  '-1,-1': '{home}',
+  '-1,1': '{pageup}',
+  '1,-1': '{end}',
+  '1,1': '{pagedown}',
+};
+
+describe('Keyboard Grid', () => {
+  beforeEach(() => {
+    cy.visit('http://localhost:3000/');
+    cy.clearLocalStorage();
+    cy.startGameInMode('Calm Mode');
+    cy.get('[data-testid="puzzle-screen"]', { timeout: 15000 }).should('be.visible');
+    cy.get('[role="grid"] [role="gridcell"]', { timeout: 10000 }).should('have.length.greaterThan', 0);
+    exposeGameState();
+  });
+
+  it('should keep a single tab stop on the grid', () => {
+    cy.get('[role="gridcell"][tabindex="0"]').should('have.length', 1);
+  });
+
+  it('should move the cursor with the arrow keys', () => {
+    cy.get('button[data-cell-key="0-0"]').focus().type('{rightarrow}{downarrow}');
+
+    cy.focused().should('have.attr', 'data-cell-key', '1-1');
+    cy.get('[data-testid="keyboard-help"]').should('contain', 'Arrows move');
+  });
+
+  it('should find a word with Space, the arrow keys and Enter', () => {
+    cy.window().its('__GAME_STATE__.wordList.0').then((word: WordData) => {
+      const stepKey = DIRECTION_KEYS[word.direction.join(',')];
+
+      cy.get(`button[data-cell-key="${word.row}-${word.col}"]`).focus().type(' ');
+      cy.get('[data-testid="keyboard-help"]').should('contain', 'Enter checks');
+      cy.focused().type(stepKey.repeat(word.word.length - 1));
+      cy.get('[role="gridcell"][aria-selected="true"]').should('have.length', word.word.length);
+      cy.focused().type('{enter}');
+
+      cy.window().its('__GAME_STATE__.wordList.0.found').should('equal', true);
+      cy.get('[data-testid="grid-announcer"]').should('contain', `Found ${word.displayWord ?? word.word}`);
+    });
+  });
+
+  it('should cancel a selection with Escape instead of pausing', () => {
+    cy.get('button[data-cell-key="0-0"]').focus().type(' {rightarrow}');
+    cy.get('[role="gridcell"][aria-selected="true"]').should('have.length', 2);
+
+    cy.focused().type('{esc}');
+
+    cy.get('[role="gridcell"][aria-selected="true"]').should('have.length', 0);
+    cy.get('[data-testid="pause-menu"]').should('not.exist');
+    cy.get('[data-testid="keyboard-help"]').should('contain', 'Arrows move');
+  });
+
+  it('should announce a selection that is not a hidden word', () => {
+    cy.window().its('__GAME_STATE__').then((state: GameState) => {
+      // Two cells are shorter than any puzzle word
+      cy.get('button[data-cell-key="0-0"]').focus().type(' {rightarrow}{enter}');
+
+      cy.get('[data-testid="grid-announcer"]').should(
+        'contain',
+        `Selection: ${state.grid[0][0]} ${state.grid[0][1]}, not a hidden word`
+      );
+    });
+  });
+});
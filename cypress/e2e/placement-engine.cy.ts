@@ -0,0 +1,72 @@
+// Placement Engine Tests for Chronicles of the Kethaneum
+
+import { placeWords, type PlacementOptions, type WordPlacement } from '../../lib/game/placementEngine';
+import { getPlacementCells } from '../../lib/game/gridScanner';
+import { isVoidCell } from '../../lib/game/gridMask';
+import { createSeededRandom } from '../../lib/utils/mathUtils';
+
+const spell = (grid: string[][], placement: WordPlacement) =>
+  getPlacementCells(placement).map(([row, col]) => grid[row][col]).join('');
+
+describe('Placement Engine', () => {
+  const words = ['LANTERN', 'RIVER', 'FOREST', 'CANDLE', 'ARCHIVE'];
+  const directions = [[0, 1], [1, 0], [1, 1]];
+  const options = (seed: number, overrides: Partial<PlacementOptions> = {}): PlacementOptions => ({
+    gridSize: 10,
+    directions,
+    random: createSeededRandom(seed),
+    targetOverlapRatio: 0.4,
+    maxSteps: 2000,
+    maxCandidatesPerWord: 60,
+    ...overrides,
+  });
+
+  it('should place every word in bounds and in an allowed direction', () => {
+    const result = placeWords(words, options(7));
+
+    expect(result.success).to.equal(true);
+    expect(result.unplacedWords).to.have.length(0);
+    expect(result.placements.map(p => p.word)).to.have.members(words);
+    result.placements.forEach(placement => {
+      expect(directions).to.deep.include(placement.direction);
+      getPlacementCells(placement).forEach(([row, col]) => {
+        expect(row).to.be.within(0, 9);
+        expect(col).to.be.within(0, 9);
+      });
+      expect(spell(result.grid, placement)).to.equal(placement.word);
+    });
+  });
+
+  it('should lay out the same grid for the same random sequence', () => {
+    const first = placeWords(words, options(7));
+    const second = placeWords(words, options(7));
+
+    expect(second.placements).to.deep.equal(first.placements);
+    expect(second.grid).to.deep.equal(first.grid);
+  });
+
+  it('should score the layout between 0 and 100', () => {
+    const result = placeWords(words, options(7));
+
+    expect(result.qualityScore).to.be.within(0, 100);
+    expect(result.overlaps).to.be.at.least(0);
+  });
+
+  it('should report words that cannot fit', () => {
+    const result = placeWords(['LANTERNS', 'RIVER'], options(7, { gridSize: 5, directions: [[0, 1]] }));
+
+    expect(result.success).to.equal(false);
+    expect(result.unplacedWords).to.include('LANTERNS');
+  });
+
+  it('should never put letters in the void cells of a shaped grid', () => {
+    const mask = Array.from({ length: 10 }, (_, row) => Array.from({ length: 10 }, () => row > 0));
+    const result = placeWords(words, options(7, { mask }));
+
+    expect(result.success).to.equal(true);
+    result.grid[0].forEach(cell => expect(isVoidCell(cell)).to.equal(true));
+    result.placements.forEach(placement => {
+      getPlacementCells(placement).forEach(([row]) => expect(row).to.be.greaterThan(0));
+    });
+  });
+});
@@ -0,0 +1,80 @@
+// Practice Mode Tests for Chronicles of the Kethaneum
+
+import { exposeGameState, solveCurrentPuzzle } from '../support/word-finder';
+import type { GameState } from '../../lib/game/state';
+
+describe('Practice Mode', () => {
+  beforeEach(() => {
+    cy.visit('http://localhost:3000/');
+    cy.clearLocalStorage();
+  });
+
+  const createPuzzle = (title: string, words: string) => {
+    cy.get('[data-testid="practice-title"]').clear().type(title);
+    cy.get('[data-testid="practice-words"]').clear().type(words);
+    cy.get('[data-testid="practice-save"]').click();
+  };
+
+  it('should open the practice screen from the mode modal', () => {
+    cy.startGameInMode('Practice Mode');
+
+    cy.get('[data-testid="practice-screen"]', { timeout: 10000 }).should('be.visible');
+    cy.get('[data-testid="practice-puzzles"]').should('contain', 'No puzzles yet.');
+  });
+
+  it('should reject words that do not fit the puzzle', () => {
+    cy.visit('http://localhost:3000/practice');
+    cy.get('[data-testid="practice-screen"]', { timeout: 10000 }).should('be.visible');
+
+    createPuzzle('Too Short', 'LANTERN, AB, LANTERN');
+
+    cy.get('[data-testid="practice-errors"]')
+      .should('be.visible')
+      .and('contain', 'AB')
+      .and('contain', 'appear only once');
+    cy.get('[data-testid="practice-puzzles"]').should('contain', 'No puzzles yet.');
+  });
+
+  it('should save, edit and delete a custom puzzle', () => {
+    cy.visit('http://localhost:3000/practice');
+    cy.get('[data-testid="practice-screen"]', { timeout: 10000 }).should('be.visible');
+
+    createPuzzle('Night Walk', 'LANTERN\nRIVER\nFOREST');
+    cy.get('[data-testid="practice-puzzles"]').should('contain', 'Night Walk · 3 words');
+
+    // Puzzles survive a reload
+    cy.reload();
+    cy.get('[data-testid="practice-puzzles"]', { timeout: 10000 }).should('contain', 'Night Walk');
+
+    cy.get('[data-testid="practice-puzzles"]').contains('button', 'Edit').click();
+    cy.get('[data-testid="practice-words"]').should('have.value', 'LANTERN\nRIVER\nFOREST');
+    cy.get('[data-testid="practice-words"]').type('\nCANDLE');
+    cy.get('[data-testid="practice-save"]').should('contain', 'Save Changes').click();
+    cy.get('[data-testid="practice-puzzles"]').should('contain', 'Night Walk · 4 words');
+
+    cy.get('[data-testid="practice-puzzles"]').contains('button', 'Delete').click();
+    cy.get('[data-testid="practice-puzzles"]').should('contain', 'No puzzles yet.');
+  });
+
+  it('should play a custom puzzle and return to the practice screen', () => {
+    cy.visit('http://localhost:3000/practice');
+    cy.get('[data-testid="practice-screen"]', { timeout: 10000 }).should('be.visible');
+    cy.get('[data-testid="practice-difficulty"]').select('easy');
+    createPuzzle('Night Walk', 'LANTERN\nRIVER\nFOREST');
+
+    cy.get('[data-testid="practice-puzzles"]').contains('button', 'Play').click();
+
+    cy.get('[data-testid="puzzle-screen"]', { timeout: 15000 }).should('be.visible');
+    exposeGameState();
+    cy.window().its('__GAME_STATE__').then((state: GameState) => {
+      expect(state.gameMode).to.equal('practice');
+      expect(state.wordList.map(word => word.word)).to.have.members(['LANTERN', 'RIVER', 'FOREST']);
+      expect(state.grid).to.have.length(8);
+    });
+
+    solveCurrentPuzzle();
+
+    cy.get('[data-testid="back-to-practice"]', { timeout: 10000 }).should('be.visible').click();
+    cy.get('[data-testid="practice-screen"]', { timeout: 10000 }).should('be.visible');
+  });
+});
@@ -0,0 +1,108 @@
+// Puzzle Resume Tests for Chronicles of the Kethaneum
+
+import { applyPuzzleResume, capturePuzzleResume } from '../../lib/game/puzzleResume';
+import { initializeGameState, type GameState } from '../../lib/game/state';
+import { exposeGameState, selectWordDirect } from '../support/word-finder';
+
+describe('Puzzle Resume', () => {
+  const now = 1_000_000;
+
+  const makeState = (overrides: Partial<GameState> = {}): GameState => ({
+    ...initializeGameState(),
+    grid: [['L', 'A', 'M', 'P'], ['R', 'I', 'V', 'E']],
+    wordList: [
+      { word: 'LAMP', found: true, row: 0, col: 0, direction: [0, 1] },
+      { word: 'RIVE', found: false, row: 1, col: 0, direction: [0, 1] },
+    ],
+    currentSeed: 1234,
+    puzzleStartedAt: now - 90_000,
+    ...overrides,
+  });
+
+  it('should capture the found words and elapsed time', () => {
+    const resume = capturePuzzleResume(makeState({ gameMode: 'story' }), now);
+
+    expect(resume).to.deep.equal({
+      seed: 1234,
+      foundWords: [0],
+      elapsed: 90,
+      timeRemaining: null,
+      runTimeRemaining: null,
+    });
+  });
+
+  it('should capture the countdown in timed modes', () => {
+    const resume = capturePuzzleResume(makeState({ gameMode: 'endless', timeRemaining: 42 }), now);
+
+    expect(resume?.timeRemaining).to.equal(42);
+  });
+
+  it('should not capture a finished or lost puzzle', () => {
+    const finished = makeState();
+    finished.wordList = finished.wordList.map(word => ({ ...word, found: true }));
+
+    expect(capturePuzzleResume(finished, now)).to.equal(null);
+    expect(capturePuzzleResume(makeState({ gameOver: true }), now)).to.equal(null);
+  });
+
+  it('should put the progress back on a grid from the same seed', () => {
+    const saved = makeState({ gameMode: 'endless', timeRemaining: 42 });
+    const resume = capturePuzzleResume(saved, now);
+    const fresh = makeState({
+      gameMode: 'endless',
+      timeRemaining: 180,
+      wordList: saved.wordList.map(word => ({ ...word, found: false })),
+      puzzleResume: resume,
+    });
+
+    const later = now + 60_000;
+    const restored = applyPuzzleResume(fresh, later);
+
+    expect(restored.puzzleResume).to.equal(null);
+    expect(restored.wordList.map(word => word.found)).to.deep.equal([true, false]);
+    expect(restored.timeRemaining).to.equal(42);
+    expect(restored.puzzleStartedAt).to.equal(later - 90_000);
+  });
+
+  it('should drop a resume saved for a different grid', () => {
+    const resume = capturePuzzleResume(makeState(), now);
+    const fresh = makeState({
+      currentSeed: 5678,
+      wordList: makeState().wordList.map(word => ({ ...word, found: false })),
+      puzzleResume: resume,
+    });
+
+    const restored = applyPuzzleResume(fresh, now);
+
+    expect(restored.puzzleResume).to.equal(null);
+    expect(restored.wordList.every(word => !word.found)).to.equal(true);
+  });
+
+  it('should resume a story puzzle after a reload', () => {
+    cy.visit('http://localhost:3000/');
+    cy.clearLocalStorage();
+    cy.startGameInMode('Story Mode');
+    cy.get('[data-testid="book-of-passage-screen"]', { timeout: 10000 }).should('be.visible');
+    cy.get('[data-testid="begin-cataloging-btn"]').click();
+    cy.contains('button', 'Browse the Archives').click();
+    cy.get('[role="dialog"]', { timeout: 10000 }).should('be.visible');
+    cy.contains('Natural Wisdom').click();
+
+    cy.get('[data-testid="puzzle-screen"]', { timeout: 15000 }).should('be.visible');
+    exposeGameState();
+
+    cy.window().its('__GAME_STATE__').then((state: GameState) => {
+      const word = state.wordList[0];
+      selectWordDirect({ row: word.row, col: word.col }, word.direction, word.word.length, word.word);
+
+      // Give the autosave a moment to write the progress
+      cy.wait(1000);
+      cy.reload();
+
+      cy.get('[data-testid="puzzle-screen"]', { timeout: 15000 }).should('be.visible');
+      exposeGameState();
+      cy.window().its('__GAME_STATE__.grid').should('deep.equal', state.grid);
+      cy.window().its('__GAME_STATE__.wordList.0.found').should('equal', true);
+    });
+  });
+});
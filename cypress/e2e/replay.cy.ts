@@ -0,0 +1,142 @@
+// Replay Tests for Chronicles of the Kethaneum
+
+import {
+  countReplayFinds,
+  createReplayFile,
+  getReplayDuration,
+  getReplayFrame,
+  getRunFrame,
+  loadBestRunReplay,
+  parseReplay,
+  saveBestRunReplay,
+  serializeReplay,
+} from '../../lib/game/replay';
+import type { PuzzleReplay, ReplayFile } from '../../lib/game/state';
+
+const makePuzzle = (overrides: Partial<PuzzleReplay> = {}): PuzzleReplay => ({
+  seed: 1234,
+  mode: 'beat-the-clock',
+  genre: 'nature',
+  puzzleIndex: 0,
+  title: 'Lamplight',
+  grid: ['LAMPX', 'QRIVE', 'QQQQQ'],
+  words: [
+    { word: 'LAMP', row: 0, col: 0, direction: [0, 1] },
+    { word: 'RIVE', row: 1, col: 1, direction: [0, 1] },
+  ],
+  startedAt: 0,
+  duration: 3000,
+  events: [
+    [500, 's', 0, 0],
+    [700, 'x', 0, 3],
+    [900, 'h'],
+    [1200, 'p'],
+    [1800, 'r'],
+    [2000, 's', 1, 4],
+    [2200, 'x', 1, 1],
+    [2400, 'h'],
+  ],
+  ...overrides,
+});
+
+const makeReplay = (score: number | null = 120, puzzles: PuzzleReplay[] = [makePuzzle()]): ReplayFile =>
+  createReplayFile(puzzles, 'beat-the-clock', score);
+
+describe('Replay Playback', () => {
+  it('should rebuild the selection, finds and pauses at any moment', () => {
+    const puzzle = makePuzzle();
+
+    expect(getReplayFrame(puzzle, 600)).to.deep.equal({
+      selection: { start: { row: 0, col: 0 }, end: { row: 0, col: 0 } },
+      foundWords: [],
+      paused: false,
+    });
+    expect(getReplayFrame(puzzle, 1000).foundWords).to.deep.equal([0]);
+    expect(getReplayFrame(puzzle, 1500).paused).to.equal(true);
+    // A word selected back to front still counts
+    expect(getReplayFrame(puzzle, 3000)).to.deep.equal({ selection: null, foundWords: [0, 1], paused: false });
+  });
+
+  it('should step through the puzzles of a run', () => {
+    const replay = makeReplay(120, [makePuzzle(), makePuzzle({ title: 'Riverside', startedAt: 3000 })]);
+
+    expect(getReplayDuration(replay)).to.equal(6000);
+    expect(getRunFrame(replay, 1000)?.puzzleNumber).to.equal(0);
+    expect(getRunFrame(replay, 3500)?.puzzle.title).to.equal('Riverside');
+    expect(countReplayFinds(replay, 6000)).to.equal(4);
+  });
+
+  it('should round-trip through an exported file', () => {
+    const replay = makeReplay();
+
+    expect(parseReplay(serializeReplay(replay))).to.deep.equal(replay);
+  });
+
+  it('should reject files it cannot play', () => {
+    expect(parseReplay('not json')).to.equal(null);
+    expect(parseReplay(JSON.stringify({ ...makeReplay(), v: 99 }))).to.equal(null);
+    expect(parseReplay(JSON.stringify(makeReplay(120, [makePuzzle({ events: [[0, 'z' as 's']] })])))).to.equal(null);
+  });
+
+  it('should only keep a run that beats the stored best', () => {
+    cy.clearLocalStorage().then(() => {
+      expect(saveBestRunReplay(makeReplay(100))).to.equal(true);
+      expect(saveBestRunReplay(makeReplay(80))).to.equal(false);
+      expect(loadBestRunReplay()?.score).to.equal(100);
+      expect(saveBestRunReplay(makeReplay(150))).to.equal(true);
+      expect(loadBestRunReplay()?.score).to.equal(150);
+      expect(saveBestRunReplay(makeReplay(null))).to.equal(false);
+    });
+  });
+});
+
+describe('Replay Screen', () => {
+  beforeEach(() => {
+    cy.visit('http://localhost:3000/');
+    cy.clearLocalStorage();
+  });
+
+  it('should say when there is no best run yet', () => {
+    cy.visit('http://localhost:3000/replay');
+
+    cy.get('[data-testid="replay-screen"]', { timeout: 10000 }).should('be.visible');
+    cy.get('[data-testid="replay-empty"]').should('be.visible');
+    cy.get('[data-testid="replay-play"]').should('not.exist');
+  });
+
+  it('should play back the stored best run', () => {
+    cy.window().then((win) => {
+      win.localStorage.setItem('kethaneumBestRun', serializeReplay(makeReplay()));
+    });
+    cy.visit('http://localhost:3000/replay');
+
+    cy.get('[data-testid="replay-meta"]', { timeout: 10000 })
+      .should('contain', 'beat-the-clock')
+      .and('contain', 'Score: 120')
+      .and('contain', '1 puzzle');
+    cy.get('[data-testid="replay-grid"]').children().should('have.length', 15);
+    cy.contains('h2', 'Lamplight (1/1)').should('be.visible');
+
+    cy.get('[data-testid="replay-play"]').should('contain', 'Play').click();
+    cy.get('[data-testid="replay-play"]').should('contain', 'Pause');
+    cy.get('[data-testid="replay-play"]', { timeout: 10000 }).should('contain', 'Play');
+  });
+
+  it('should import a replay file and reject anything else', () => {
+    cy.visit('http://localhost:3000/replay');
+    cy.get('[data-testid="replay-empty"]', { timeout: 10000 }).should('be.visible');
+
+    cy.get('input[type="file"]').selectFile(
+      { contents: Cypress.Buffer.from('{"v":99}'), fileName: 'broken.json', mimeType: 'application/json' },
+      { force: true }
+    );
+    cy.get('[role="alert"]').should('contain', 'not a replay this version can play');
+
+    cy.get('input[type="file"]').selectFile(
+      { contents: Cypress.Buffer.from(serializeReplay(makeReplay(75))), fileName: 'run.json', mimeType: 'application/json' },
+      { force: true }
+    );
+    cy.get('[role="alert"]').should('not.exist');
+    cy.get('[data-testid="replay-meta"]').should('contain', 'Score: 75');
+  });
+});
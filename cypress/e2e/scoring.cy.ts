@@ -0,0 +1,82 @@
+// Scoring Tests for Chronicles of the Kethaneum
+
+import { getConfig } from '../../lib/core/config';
+import {
+  EMPTY_RUN_SCORE,
+  getComboMultiplier,
+  getDirectionFactor,
+  scoreInvalidSelection,
+  scorePuzzleComplete,
+  scoreWordFound,
+} from '../../lib/game/scoring';
+import type { WordData } from '../../lib/game/state';
+
+describe('Run Scoring', () => {
+  const config = getConfig();
+  const { scoring } = config;
+
+  const makeWord = (word: string, direction: [number, number]): WordData => ({
+    word,
+    found: false,
+    row: 0,
+    col: 0,
+    direction,
+  });
+
+  it('should score a word by its length and direction', () => {
+    const { points } = scoreWordFound(EMPTY_RUN_SCORE, makeWord('LAMP', [0, 1]), config, 1000);
+
+    expect(points).to.equal(4 * scoring.pointsPerLetter * scoring.directionDifficulty.horizontal);
+  });
+
+  it('should add the reversed factor for right-to-left and bottom-to-top words', () => {
+    const { horizontal, vertical, diagonal, reversed } = scoring.directionDifficulty;
+
+    expect(getDirectionFactor([0, 1], config)).to.equal(horizontal);
+    expect(getDirectionFactor([0, -1], config)).to.equal(horizontal + reversed);
+    expect(getDirectionFactor([1, 0], config)).to.equal(vertical);
+    expect(getDirectionFactor([-1, 0], config)).to.equal(vertical + reversed);
+    expect(getDirectionFactor([1, 1], config)).to.equal(diagonal);
+    expect(getDirectionFactor([1, -1], config)).to.equal(diagonal + reversed);
+  });
+
+  it('should build a combo only for finds inside the combo window', () => {
+    const word = makeWord('LAMP', [0, 1]);
+    const first = scoreWordFound(EMPTY_RUN_SCORE, word, config, 1000).score;
+
+    const quick = scoreWordFound(first, word, config, 1000 + scoring.comboWindow * 1000);
+    expect(quick.score.combo).to.equal(1);
+    expect(quick.points).to.equal(Math.round(4 * scoring.pointsPerLetter * getComboMultiplier(1, config)));
+
+    const slow = scoreWordFound(first, word, config, 1000 + scoring.comboWindow * 1000 + 1);
+    expect(slow.score.combo).to.equal(0);
+    expect(slow.score.bestCombo).to.equal(0);
+  });
+
+  it('should cap the combo multiplier', () => {
+    expect(getComboMultiplier(1000, config)).to.equal(scoring.maxComboMultiplier);
+  });
+
+  it('should never take the total below zero for an invalid selection', () => {
+    const word = makeWord('LAMP', [0, 1]);
+    const scored = scoreWordFound(EMPTY_RUN_SCORE, word, config, 1000).score;
+
+    const penalized = scoreInvalidSelection(scored, config);
+    expect(penalized.total).to.equal(Math.max(0, scored.total - scoring.invalidSelectionPenalty));
+    expect(penalized.combo).to.equal(0);
+    expect(penalized.lastFindAt).to.equal(null);
+
+    const empty = scoreInvalidSelection(EMPTY_RUN_SCORE, config);
+    expect(empty.total).to.equal(0);
+    expect(empty.puzzlePoints).to.equal(0);
+    expect(empty.invalidSelections).to.equal(1);
+  });
+
+  it('should only give a time bonus under par', () => {
+    const under = scorePuzzleComplete(EMPTY_RUN_SCORE, scoring.parTime - 10, config);
+    expect(under.bonus).to.equal(10 * scoring.timeBonusPerSecond);
+    expect(under.score.total).to.equal(under.bonus);
+
+    expect(scorePuzzleComplete(EMPTY_RUN_SCORE, scoring.parTime + 10, config).bonus).to.equal(0);
+  });
+});
@@ -0,0 +1,49 @@
+// Seeded Grid Generation Tests for Chronicles of the Kethaneum
+
+import { getConfig } from '../../lib/core/config';
+import { derivePuzzleSeed, regenerateGrid } from '../../lib/game/puzzleGenerator';
+import { getPlacementCells } from '../../lib/game/gridScanner';
+import type { PuzzleData, WordData } from '../../lib/game/state';
+
+const spell = (grid: string[][], word: WordData) =>
+  getPlacementCells(word).map(([row, col]) => grid[row][col]).join('');
+
+describe('Seeded Grid Generation', () => {
+  const puzzle: PuzzleData = {
+    title: 'The Lantern Road',
+    book: 'Tales of the Night Road',
+    words: ['LANTERN', 'RIVER', 'FOREST', 'CANDLE', 'ARCHIVE', 'MOSS'],
+    genre: 'nature',
+    storyPart: 0,
+  };
+
+  it('should build the same grid from the same seed', () => {
+    const seed = derivePuzzleSeed(puzzle);
+    const first = regenerateGrid(puzzle, seed, getConfig());
+    const second = regenerateGrid(puzzle, seed, getConfig());
+
+    expect(second.grid).to.deep.equal(first.grid);
+    expect(second.wordList).to.deep.equal(first.wordList);
+  });
+
+  it('should build a different grid from a different seed', () => {
+    const first = regenerateGrid(puzzle, 1, getConfig());
+    const second = regenerateGrid(puzzle, 2, getConfig());
+
+    expect(second.grid).to.not.deep.equal(first.grid);
+  });
+
+  it('should derive the seed from the puzzle, not from load order', () => {
+    expect(derivePuzzleSeed(puzzle)).to.equal(derivePuzzleSeed({ ...puzzle }));
+    expect(derivePuzzleSeed(puzzle)).to.not.equal(derivePuzzleSeed({ ...puzzle, storyPart: 1 }));
+  });
+
+  it('should place every word where the word list says it is', () => {
+    const layout = regenerateGrid(puzzle, derivePuzzleSeed(puzzle), getConfig());
+
+    expect(layout.wordList).to.have.length(puzzle.words.length);
+    layout.wordList.forEach(word => {
+      expect(spell(layout.grid, word)).to.equal(word.word);
+    });
+  });
+});
@@ -0,0 +1,74 @@
+// Selection Log Tests for Chronicles of the Kethaneum
+
+import { classifyMiss, logHit, logMiss, summarizeSelections } from '../../lib/game/selectionLog';
+import type { Cell, WordData } from '../../lib/game/state';
+
+describe('Selection Log', () => {
+  // LAMP reads across the top row, RIVER down the first column
+  const wordList = (lampFound = false): WordData[] => [
+    { word: 'LAMP', found: lampFound, row: 0, col: 1, direction: [0, 1] },
+    { word: 'RIVER', found: false, row: 0, col: 0, direction: [1, 0] },
+  ];
+
+  const cells = (...keys: Array<[number, number]>): Cell[] => keys.map(([row, col]) => ({ row, col, value: '' }));
+
+  it('should call a repeat of a found word already found', () => {
+    const selection = cells([0, 1], [0, 2], [0, 3], [0, 4]);
+
+    expect(classifyMiss(selection, wordList(true))).to.equal('already-found');
+  });
+
+  it('should call part of a hidden word a partial word', () => {
+    expect(classifyMiss(cells([0, 1], [0, 2], [0, 3]), wordList())).to.equal('partial-word');
+  });
+
+  it('should call a hidden word plus extra letters a partial word', () => {
+    expect(classifyMiss(cells([0, 1], [0, 2], [0, 3], [0, 4], [0, 5]), wordList())).to.equal('partial-word');
+  });
+
+  it('should call a selection from a word end in another direction the wrong direction', () => {
+    // Starts on the L of LAMP but heads down and to the right
+    expect(classifyMiss(cells([0, 1], [1, 2], [2, 3]), wordList())).to.equal('wrong-direction');
+  });
+
+  it('should call anything else not a word', () => {
+    expect(classifyMiss(cells([2, 2], [2, 3], [2, 4]), wordList())).to.equal('not-a-word');
+  });
+
+  it('should check the reasons in order: already found, partial word, wrong direction', () => {
+    // Covers found LAMP exactly and sits inside unfound LAMPS: already found beats partial
+    const overlapping: WordData[] = [
+      ...wordList(true),
+      { word: 'LAMPS', found: false, row: 0, col: 1, direction: [0, 1] },
+    ];
+    expect(classifyMiss(cells([0, 1], [0, 2], [0, 3], [0, 4]), overlapping)).to.equal('already-found');
+    // Starts on the R of RIVER and stays inside it: partial beats wrong direction
+    expect(classifyMiss(cells([0, 0], [1, 0]), wordList())).to.equal('partial-word');
+  });
+
+  it('should summarize hits, misses and the time between finds', () => {
+    let log = logHit([], 'LAMP', 1000);
+    log = logMiss(log, cells([2, 2], [2, 3], [2, 4]), wordList(), 2000);
+    log = logMiss(log, cells([0, 1], [0, 2]), wordList(), 3000);
+    log = logHit(log, 'RIVER', 5000);
+
+    const summary = summarizeSelections(log);
+    expect(summary.selections).to.equal(4);
+    expect(summary.hits).to.equal(2);
+    expect(summary.accuracy).to.equal(50);
+    expect(summary.misses).to.deep.equal({
+      'wrong-direction': 0,
+      'partial-word': 1,
+      'not-a-word': 1,
+      'already-found': 0,
+    });
+    expect(summary.averageTimeBetweenFinds).to.equal(4);
+  });
+
+  it('should report zero accuracy for an empty log', () => {
+    const summary = summarizeSelections([]);
+
+    expect(summary.accuracy).to.equal(0);
+    expect(summary.averageTimeBetweenFinds).to.equal(0);
+  });
+});
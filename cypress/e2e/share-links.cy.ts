@@ -0,0 +1,169 @@
+// Shared Puzzle Link Tests for Chronicles of the Kethaneum
+
+import { exposeGameState } from '../support/word-finder';
+import {
+  decodeShareCode,
+  encodeShareCode,
+  getShareLink,
+  getSharedCustomPuzzle,
+  SHARE_PARAM,
+  type SharedPuzzle,
+} from '../../lib/game/shareCode';
+import type { GameState } from '../../lib/game/state';
+
+describe('Shared Puzzle Links', () => {
+  const shared: SharedPuzzle = {
+    title: 'Night Walk',
+    words: ['LANTERN', 'RIVER', 'FOREST'],
+    difficulty: 'easy',
+    gridSize: 8,
+    directions: [[0, 1], [1, 0]],
+    seed: 424242,
+  };
+
+  beforeEach(() => {
+    cy.visit('http://localhost:3000/');
+    cy.clearLocalStorage();
+  });
+
+  it('should play a shared puzzle in Practice Mode', () => {
+    cy.visit(`http://localhost:3000/puzzle?${SHARE_PARAM}=${encodeURIComponent(encodeShareCode(shared))}`);
+
+    cy.get('[data-testid="puzzle-screen"]', { timeout: 15000 }).should('be.visible');
+    exposeGameState();
+    cy.window().its('__GAME_STATE__').then((state: GameState) => {
+      expect(state.gameMode).to.equal('practice');
+      expect(state.currentSeed).to.equal(shared.seed);
+      expect(state.grid).to.have.length(shared.gridSize);
+      expect(state.wordList.map(word => word.word)).to.have.members(shared.words);
+      state.wordList.forEach(word => {
+        expect([[0, 1], [1, 0]]).to.deep.include(word.direction);
+      });
+    });
+  });
+
+  it('should open the same grid from the same link', () => {
+    const link = `http://localhost:3000/puzzle?${SHARE_PARAM}=${encodeURIComponent(encodeShareCode(shared))}`;
+    cy.visit(link);
+    cy.get('[data-testid="puzzle-screen"]', { timeout: 15000 }).should('be.visible');
+    exposeGameState();
+
+    cy.window().its('__GAME_STATE__.grid').then((firstGrid) => {
+      cy.clearLocalStorage();
+      cy.visit(link);
+      cy.get('[data-testid="puzzle-screen"]', { timeout: 15000 }).should('be.visible');
+      exposeGameState();
+      cy.window().its('__GAME_STATE__.grid').should('deep.equal', firstGrid);
+    });
+  });
+
+  it('should keep a single copy of a puzzle opened twice', () => {
+    const link = `http://localhost:3000/puzzle?${SHARE_PARAM}=${encodeURIComponent(encodeShareCode(shared))}`;
+    cy.visit(link);
+    cy.get('[data-testid="puzzle-screen"]', { timeout: 15000 }).should('be.visible');
+    cy.visit(link);
+    cy.get('[data-testid="puzzle-screen"]', { timeout: 15000 }).should('be.visible');
+
+    cy.visit('http://localhost:3000/practice');
+    cy.get('[data-testid="practice-puzzles"]', { timeout: 10000 })
+      .find('li')
+      .should('have.length', 1)
+      .and('contain', 'Night Walk');
+  });
+
+  it('should ignore a tampered link', () => {
+    const code = encodeShareCode(shared);
+    const tampered = `${code.slice(0, 4)}${code[4] === 'A' ? 'B' : 'A'}${code.slice(5)}`;
+    cy.visit(`http://localhost:3000/puzzle?${SHARE_PARAM}=${encodeURIComponent(tampered)}`);
+
+    cy.wait(2000);
+    cy.window().then((win) => {
+      expect(win.localStorage.getItem('kethaneumCustomPuzzles')).to.equal(null);
+    });
+  });
+
+  it('should copy a share link from the practice screen', () => {
+    cy.visit('http://localhost:3000/practice');
+    cy.get('[data-testid="practice-screen"]', { timeout: 10000 }).should('be.visible');
+    cy.get('[data-testid="practice-title"]').type('Night Walk');
+    cy.get('[data-testid="practice-words"]').type('LANTERN\nRIVER\nFOREST');
+    cy.get('[data-testid="practice-save"]').click();
+
+    cy.window().then((win) => {
+      cy.stub(win.navigator.clipboard, 'writeText').as('writeText').resolves();
+    });
+    cy.get('[data-testid="practice-puzzles"]').contains('button', 'Share').click();
+
+    cy.get('[data-testid="practice-share-status"]').should('contain', 'Link to "Night Walk" copied.');
+    cy.get('@writeText').should('have.been.calledWithMatch', new RegExp(`/puzzle\\?${SHARE_PARAM}=`));
+  });
+});
+
+describe('Share Codes', () => {
+  const puzzle: SharedPuzzle = {
+    title: 'Café Nights',
+    words: ['LANTERN', 'RIVER', 'FOREST', 'CANDLE'],
+    difficulty: 'medium',
+    gridSize: 10,
+    directions: [[0, 1], [1, 1], [-1, 0]],
+    seed: 987654321,
+  };
+
+  it('should round-trip every field', () => {
+    const decoded = decodeShareCode(encodeShareCode(puzzle));
+
+    expect(decoded).to.not.equal(null);
+    expect(decoded?.title).to.equal(puzzle.title);
+    expect(decoded?.words).to.deep.equal(puzzle.words);
+    expect(decoded?.difficulty).to.equal(puzzle.difficulty);
+    expect(decoded?.gridSize).to.equal(puzzle.gridSize);
+    expect(decoded?.seed).to.equal(puzzle.seed);
+    expect(decoded?.directions).to.have.deep.members(puzzle.directions);
+  });
+
+  it('should produce a URL-safe code', () => {
+    const code = encodeShareCode(puzzle);
+
+    expect(code).to.match(/^[A-Za-z0-9_-]+\.[a-z0-9]+$/);
+    expect(getShareLink(code, 'https://example.com', '/puzzle')).to.equal(
+      `https://example.com/puzzle?${SHARE_PARAM}=${code}`
+    );
+  });
+
+  it('should reject a code whose body was changed', () => {
+    const code = encodeShareCode(puzzle);
+    const [body, checksum] = code.split('.');
+    const tampered = `${body[0] === 'A' ? 'B' : 'A'}${body.slice(1)}.${checksum}`;
+
+    expect(decodeShareCode(tampered)).to.equal(null);
+  });
+
+  it('should reject a code whose checksum was changed', () => {
+    const [body, checksum] = encodeShareCode(puzzle).split('.');
+    const tampered = `${body}.${checksum.endsWith('0') ? '1' : '0'}`;
+
+    expect(decodeShareCode(tampered)).to.equal(null);
+  });
+
+  it('should reject malformed codes', () => {
+    expect(decodeShareCode('')).to.equal(null);
+    expect(decodeShareCode('not-a-code')).to.equal(null);
+    expect(decodeShareCode('!!!.???')).to.equal(null);
+  });
+
+  it('should reject grids too large to generate', () => {
+    const code = encodeShareCode({ ...puzzle, gridSize: 21 });
+
+    expect(decodeShareCode(code)).to.equal(null);
+  });
+
+  it('should reject a puzzle with no directions or no words', () => {
+    expect(decodeShareCode(encodeShareCode({ ...puzzle, directions: [] }))).to.equal(null);
+    expect(decodeShareCode(encodeShareCode({ ...puzzle, words: [] }))).to.equal(null);
+  });
+
+  it('should give the same custom puzzle ID for the same code', () => {
+    expect(getSharedCustomPuzzle(puzzle).id).to.equal(getSharedCustomPuzzle({ ...puzzle }).id);
+    expect(getSharedCustomPuzzle(puzzle).id).to.not.equal(getSharedCustomPuzzle({ ...puzzle, seed: 1 }).id);
+  });
+});
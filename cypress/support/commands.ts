@@ -30,13 +30,19 @@ declare global {
        * @param mode - The game mode to select ('story', 'puzzle-only', 'beat-the-clock')
        * @example cy.selectGameMode('story')
        */
-      selectGameMode(mode: 'story' | 'puzzle-only' | 'beat-the-clock'): Chainable<void>;
+      selectGameMode(mode: 'story' | 'puzzle-only' | 'beat-the-clock' | 'endless' | 'calm' | 'daily' | 'practice'): Chainable<void>;
 
       /**
        * Custom command to navigate to the puzzle screen
        * @example cy.navigateToPuzzle()
        */
       navigateToPuzzle(): Chainable<void>;
+
+      /**
+       * Custom command to start a new game in a mode, by its card title in the mode modal
+       * @example cy.startGameInMode('Endless Mode')
+       */
+      startGameInMode(title: string): Chainable<void>;
     }
   }
 }
@@ -56,7 +62,7 @@ Cypress.Commands.add('startNewGame', () => {
 });
 
 // Select a game mode in the modal
-Cypress.Commands.add('selectGameMode', (mode: 'story' | 'puzzle-only' | 'beat-the-clock') => {
+Cypress.Commands.add('selectGameMode', (mode: 'story' | 'puzzle-only' | 'beat-the-clock' | 'endless' | 'calm' | 'daily' | 'practice') => {
   // Wait for the modal to appear
   cy.get('[role="dialog"]', { timeout: 10000 }).should('be.visible');
 
@@ -67,6 +73,14 @@ Cypress.Commands.add('selectGameMode', (mode: 'story' | 'puzzle-only' | 'beat-th
     cy.contains('button', /Puzzle Only|puzzle/i).click();
   } else if (mode === 'beat-the-clock') {
     cy.contains('button', /Beat the Clock|beat/i).click();
+  } else if (mode === 'endless') {
+    cy.contains('button', /Endless|endless/i).click();
+  } else if (mode === 'calm') {
+    cy.contains('button', /Calm|calm/i).click();
+  } else if (mode === 'daily') {
+    cy.contains('button', /Daily Archive|daily/i).click();
+  } else if (mode === 'practice') {
+    cy.contains('button', /Practice|practice/i).click();
   }
 });
 
@@ -90,4 +104,13 @@ Cypress.Commands.add('navigateToPuzzle', () => {
   });
 });
 
+// Start a new game from the title screen in the given mode
+Cypress.Commands.add('startGameInMode', (title: string) => {
+  cy.get('[data-testid="new-game-btn"]').click();
+  cy.get('[data-testid="continue-to-mode-select-btn"]').click();
+  cy.get('[role="dialog"]', { timeout: 10000 }).should('be.visible');
+  cy.contains('h3', title).click();
+  cy.contains('button', 'Confirm').click();
+});
+
 export {};
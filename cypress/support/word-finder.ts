@@ -497,3 +497,29 @@ export function exposeGameState(): Cypress.Chainable {
     return checkState();
   });
 }
+
+/**
+ * Find every word of the puzzle on screen through checkWord, from a snapshot of
+ * its word list. Unlike findWordsInPuzzle it does not re-read the word list
+ * afterwards, so it suits modes that load the next puzzle straight after a win.
+ */
+export function solveCurrentPuzzle(): Cypress.Chainable {
+  return cy.window().its('__GAME_STATE__.wordList').then((wordList: WordData[]) => {
+    if (wordList.length === 0) {
+      throw new Error('No word list in game state');
+    }
+
+    let chain: Cypress.Chainable = cy.wrap(null);
+    wordList.filter(wordData => !wordData.found).forEach(wordData => {
+      chain = chain.then(() =>
+        selectWordDirect(
+          { row: wordData.row, col: wordData.col },
+          wordData.direction,
+          wordData.word.length,
+          wordData.word
+        )
+      );
+    });
+    return chain;
+  });
+}
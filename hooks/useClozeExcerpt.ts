@@ -0,0 +1,30 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+
+const STORAGE_KEY = 'kethaneumClozeExcerpt';
+
+/**
+ * Whether the story excerpt is shown up front with the puzzle words blanked out,
+ * filling in as they are found. A per-device preference, like font size.
+ */
+export function useClozeExcerpt() {
+  const [clozeEnabled, setClozeEnabledState] = useState(false);
+
+  // Load the preference from localStorage after the first render
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setClozeEnabledState(localStorage.getItem(STORAGE_KEY) === 'true');
+    }, 0);
+    return () => clearTimeout(timer);
+  }, []);
+
+  const setClozeEnabled = (enabled: boolean) => {
+    setClozeEnabledState(enabled);
+    if (typeof window !== 'undefined') {
+      localStorage.setItem(STORAGE_KEY, enabled.toString());
+    }
+  };
+
+  return { clozeEnabled, setClozeEnabled };
+}
@@ -7,6 +7,8 @@ import { useCallback, useRef, useEffect } from 'react';
 import type { GameState, Cell } from '@/lib/game/state';
 import { checkForWord, markWordAsFound, checkWinCondition, endGame, clearPuzzleTimer } from '@/lib/game/logic';
 import { getConfig } from '@/lib/core/config';
+import { scoreInvalidSelection, scoreWordFound } from '@/lib/game/scoring';
+import { logHit, logMiss } from '@/lib/game/selectionLog';
 
 export function useGameLogic(
   state: GameState,
@@ -33,14 +35,26 @@ export function useGameLogic(
     const result = checkForWord(selectedCells, currentState.wordList, config);
     
     if (result.found && result.wordData) {
-      const { newState, allWordsFound } = markWordAsFound(currentState, result.wordData);
+      const { newState: foundState, allWordsFound } = markWordAsFound(currentState, result.wordData);
+      const markedState = {
+        ...foundState,
+        selectionLog: logHit(currentState.selectionLog, result.wordData.word),
+      };
+      // Beat the Clock runs are scored word by word
+      const newState = currentState.gameMode === 'beat-the-clock'
+        ? { ...markedState, runScore: scoreWordFound(markedState.runScore, result.wordData, config).score }
+        : markedState;
+      // Keep the ref current too, so a selection committed before the next render builds on this one
+      stateRef.current = newState;
       setState(newState);
 
       if (allWordsFound) {
         // For beat-the-clock mode, don't call endGame (which sets gameOver: true)
         // Clear the timer and call onWin directly - it will handle puzzle completion and loading next puzzle
         // Timer clearing is handled by the timer hook, but we need to clear it from state
-        if (currentState.gameMode === 'beat-the-clock') {
+        // Endless runs and Calm Mode also move straight on to the next puzzle
+        if (currentState.gameMode === 'beat-the-clock' || currentState.gameMode === 'endless' ||
+            currentState.gameMode === 'calm') {
           // Clear timer from current state (not newState, as timer is in state)
           const clearedState = clearPuzzleTimer(currentState);
           // Merge with newState to preserve word found state
@@ -49,6 +63,7 @@ export function useGameLogic(
             ...newState,
             timer: null, // Ensure timer is null
           };
+          stateRef.current = finalState;
           setState(finalState);
           // Update stateRef synchronously before calling onWin so handleWin has latest state
           if (updateStateRef) {
@@ -61,6 +76,7 @@ export function useGameLogic(
           // For other modes, use the standard endGame flow
           // endGame will handle timer clearing
           const winResult = endGame(newState, true);
+          stateRef.current = winResult.newState;
           setState(winResult.newState);
           // Update stateRef synchronously before calling onWin
           if (updateStateRef) {
@@ -72,6 +88,20 @@ export function useGameLogic(
       
       return true;
     }
+
+    // Log a full-length selection that is not a hidden word as a miss
+    // (shorter ones are taps, not attempts); in Beat the Clock it also costs points
+    if (!currentState.gameOver && selectedCells.length >= config.minWordLength) {
+      const missedState = {
+        ...currentState,
+        selectionLog: logMiss(currentState.selectionLog, selectedCells, currentState.wordList),
+        runScore: currentState.gameMode === 'beat-the-clock'
+          ? scoreInvalidSelection(currentState.runScore, config)
+          : currentState.runScore,
+      };
+      stateRef.current = missedState;
+      setState(missedState);
+    }
     
     return false;
   }, [setState, config, onWin, updateStateRef]);
@@ -84,7 +114,8 @@ export function useGameLogic(
       // For beat-the-clock mode, don't call endGame (which sets gameOver: true)
       // Clear the timer and call onWin directly - it will handle puzzle completion and loading next puzzle
       // Timer clearing is handled by the timer hook, but we need to clear it from state
-      if (currentState.gameMode === 'beat-the-clock') {
+      if (currentState.gameMode === 'beat-the-clock' || currentState.gameMode === 'endless' ||
+          currentState.gameMode === 'calm') {
         const clearedState = clearPuzzleTimer(currentState);
         setState(clearedState);
         // Update stateRef synchronously before calling onWin so handleWin has latest state
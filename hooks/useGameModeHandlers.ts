@@ -6,6 +6,11 @@
 import { useCallback, useRef, useEffect } from 'react';
 import type { GameState, PuzzleData } from '@/lib/game/state';
 import { recordPuzzleStats, incrementTotalWords } from '@/lib/game/stats';
+import { awardHints } from '@/lib/game/hints';
+import { scorePuzzleComplete } from '@/lib/game/scoring';
+import { recordCalmCompletion } from '@/lib/game/calmLoader';
+import { recordDailyCompletion } from '@/lib/game/dailyArchive';
+import { getConfig } from '@/lib/core/config';
 import { storyBlurbManager } from '@/lib/story';
 import { markPuzzleCompleted } from '@/lib/game/puzzleSelector';
 import { dialogueManager } from '@/lib/dialogue/DialogueManager';
@@ -16,7 +21,9 @@ interface UseGameModeHandlersProps {
   state: GameState;
   setState: (state: GameState) => void;
   puzzleStartTime: number | null;
-  loadBeatTheClock: () => Promise<boolean>;
+  loadBeatTheClock: (fromState?: GameState) => Promise<boolean>;
+  loadEndless: (fromState?: GameState) => Promise<boolean>;
+  loadCalm: (fromState?: GameState) => Promise<boolean>;
   setPuzzleStartTime: (time: number) => void;
   setStatsModalIsWin: (isWin: boolean) => void;
   setShowStatsModal: (show: boolean) => void;
@@ -29,6 +36,8 @@ export function useGameModeHandlers({
   setState,
   puzzleStartTime,
   loadBeatTheClock,
+  loadEndless,
+  loadCalm,
   setPuzzleStartTime,
   setStatsModalIsWin,
   setShowStatsModal,
@@ -43,6 +52,49 @@ export function useGameModeHandlers({
     stateRef.current = state;
   }, [state]);
   
+  // Pending Calm Mode auto-advance: the timeout, and the state to load the next puzzle from.
+  // Pausing holds it until the game resumes; leaving Calm Mode or the page drops it.
+  const calmAdvanceRef = useRef<{ timeout: ReturnType<typeof setTimeout> | null; fromState: GameState } | null>(null);
+
+  const scheduleCalmAdvance = useCallback((fromState: GameState) => {
+    const timeout = setTimeout(async () => {
+      calmAdvanceRef.current = null;
+      if (await loadCalm(fromState)) {
+        setPuzzleStartTime(Date.now());
+      } else {
+        setStatsModalIsWin(true);
+        setShowStatsModal(true);
+      }
+    }, getConfig().calm.autoAdvanceDelay);
+    calmAdvanceRef.current = { timeout, fromState };
+  }, [loadCalm, setPuzzleStartTime, setStatsModalIsWin, setShowStatsModal]);
+
+  // Only act when pause or mode actually change - the callbacks are rebuilt on every render
+  const calmAdvanceGateRef = useRef({ paused: state.paused, gameMode: state.gameMode });
+  useEffect(() => {
+    const gate = calmAdvanceGateRef.current;
+    if (gate.paused === state.paused && gate.gameMode === state.gameMode) return;
+    calmAdvanceGateRef.current = { paused: state.paused, gameMode: state.gameMode };
+
+    const pending = calmAdvanceRef.current;
+    if (!pending) return;
+    if (pending.timeout) {
+      clearTimeout(pending.timeout);
+      pending.timeout = null;
+    }
+    if (state.gameMode !== 'calm') {
+      calmAdvanceRef.current = null;
+    } else if (!state.paused) {
+      scheduleCalmAdvance(pending.fromState);
+    }
+  }, [state.paused, state.gameMode, scheduleCalmAdvance]);
+
+  useEffect(() => () => {
+    if (calmAdvanceRef.current?.timeout) {
+      clearTimeout(calmAdvanceRef.current.timeout);
+    }
+  }, []);
+
   // Expose function to update stateRef synchronously (needed when state is updated synchronously)
   const updateStateRef = useCallback((newState: GameState) => {
     stateRef.current = newState;
@@ -71,27 +123,37 @@ export function useGameModeHandlers({
         timeTaken,
         wordsFound,
         totalWords,
-        currentState.sessionStats
+        currentState.sessionStats,
+        { hintsUsed: currentState.hintsUsed, selectionLog: currentState.selectionLog }
       );
       
       // Increment total words found
       const finalStats = incrementTotalWords(updatedStats, wordsFound);
       
-      setState({
+      // Completing a puzzle earns hints
+      setState(awardHints({
         ...currentState,
         sessionStats: finalStats,
-      });
+      }, getConfig()));
       
       setStatsModalIsWin(true);
       setShowStatsModal(true);
     } else if (currentState.gameMode === 'beat-the-clock') {
+      // Finishing under par earns a time bonus
+      const { score: runScore } = scorePuzzleComplete(currentState.runScore, timeTaken, getConfig());
+
       // Record stats and check if run should continue
       const updatedStats = recordPuzzleStats(
         currentState.currentPuzzleIndex || 0,
         timeTaken,
         wordsFound,
         totalWords,
-        currentState.sessionStats
+        currentState.sessionStats,
+        {
+          hintsUsed: currentState.hintsUsed,
+          score: runScore.puzzlePoints,
+          selectionLog: currentState.selectionLog,
+        }
       );
       
       // Calculate run time remaining (not puzzle time)
@@ -100,11 +162,13 @@ export function useGameModeHandlers({
         : 0;
       const runTimeRemaining = currentState.runDuration - runTimeElapsed;
 
-      // Update stats first
-      setState({
+      // Update stats (and earned hints) first
+      const updatedState = awardHints({
         ...currentState,
         sessionStats: updatedStats,
-      });
+        runScore,
+      }, getConfig());
+      setState(updatedState);
 
       // Check if run time is still remaining
       // Note: gameOver won't be set for puzzle completion in beat-the-clock mode
@@ -113,7 +177,7 @@ export function useGameModeHandlers({
         // Load next puzzle immediately
         // Note: We need to set a flag to prevent timer restart during transition
         // This will be handled by the parent component's isTransitioningRef
-        loadBeatTheClock().then(() => {
+        loadBeatTheClock(updatedState).then(() => {
           setPuzzleStartTime(Date.now());
         });
       } else {
@@ -121,6 +185,93 @@ export function useGameModeHandlers({
         setStatsModalIsWin(true);
         setShowStatsModal(true);
       }
+    } else if (currentState.gameMode === 'endless') {
+      // Endless: extend the streak and go straight to the next puzzle
+      const updatedStats = recordPuzzleStats(
+        currentState.currentPuzzleIndex || 0,
+        timeTaken,
+        wordsFound,
+        totalWords,
+        currentState.sessionStats,
+        { hintsUsed: currentState.hintsUsed, selectionLog: currentState.selectionLog }
+      );
+
+      const updatedState = awardHints({
+        ...currentState,
+        sessionStats: updatedStats,
+        endlessStreak: currentState.endlessStreak + 1,
+      }, getConfig());
+      setState(updatedState);
+
+      loadEndless(updatedState).then(loaded => {
+        if (loaded) {
+          setPuzzleStartTime(Date.now());
+        } else {
+          // Nothing left to load - end the run on a win
+          setStatsModalIsWin(true);
+          setShowStatsModal(true);
+        }
+      });
+    } else if (currentState.gameMode === 'calm') {
+      // Calm Mode: record calm progress only - no story triggers or dialogue
+      const updatedStats = recordPuzzleStats(
+        currentState.currentPuzzleIndex || 0,
+        timeTaken,
+        wordsFound,
+        totalWords,
+        currentState.sessionStats,
+        { hintsUsed: currentState.hintsUsed, selectionLog: currentState.selectionLog }
+      );
+
+      const config = getConfig();
+      const updatedState = awardHints(recordCalmCompletion({
+        ...currentState,
+        sessionStats: updatedStats,
+      }), config);
+      setState(updatedState);
+
+      if (config.calm.autoAdvance) {
+        // Let the finished grid linger briefly before the next one flows in
+        scheduleCalmAdvance(updatedState);
+      } else {
+        setStatsModalIsWin(true);
+        setShowStatsModal(true);
+      }
+    } else if (currentState.gameMode === 'daily') {
+      // Daily Archive: mark today complete and show the streak
+      const updatedStats = recordPuzzleStats(
+        currentState.currentPuzzleIndex || 0,
+        timeTaken,
+        wordsFound,
+        totalWords,
+        currentState.sessionStats,
+        { hintsUsed: currentState.hintsUsed, selectionLog: currentState.selectionLog }
+      );
+
+      const recordedState = recordDailyCompletion({
+        ...currentState,
+        sessionStats: updatedStats,
+      });
+      // Replaying a day that is already complete earns nothing more
+      const firstClear = recordedState.dailyProgress !== currentState.dailyProgress;
+      setState(firstClear ? awardHints(recordedState, getConfig()) : recordedState);
+
+      setStatsModalIsWin(true);
+      setShowStatsModal(true);
+    } else if (currentState.gameMode === 'practice') {
+      // Practice Mode: session stats only - custom puzzles never touch story progress
+      const updatedStats = recordPuzzleStats(
+        currentState.currentPuzzleIndex || 0,
+        timeTaken,
+        wordsFound,
+        totalWords,
+        currentState.sessionStats,
+        { hintsUsed: currentState.hintsUsed, selectionLog: currentState.selectionLog }
+      );
+      setState(awardHints({ ...currentState, sessionStats: updatedStats }, getConfig()));
+
+      setStatsModalIsWin(true);
+      setShowStatsModal(true);
     } else {
       // Story Mode: Show win modal to let player choose when to continue
       try {
@@ -155,6 +306,9 @@ export function useGameModeHandlers({
           }
         }
 
+        // Completing a puzzle earns hints
+        updatedState = awardHints(updatedState, getConfig());
+
         // Check for story progress triggers
         // Pass previous state to detect transitions (e.g., 0 → 1 books discovered)
         if (storyBlurbManager.isLoaded()) {
@@ -204,7 +358,7 @@ export function useGameModeHandlers({
       setStatsModalIsWin(true);
       setShowStatsModal(true);
     }
-  }, [state, setState, puzzleStartTime, loadBeatTheClock, setPuzzleStartTime, setStatsModalIsWin, setShowStatsModal, markCompleted]);
+  }, [state, setState, puzzleStartTime, loadBeatTheClock, loadEndless, scheduleCalmAdvance, setPuzzleStartTime, setStatsModalIsWin, setShowStatsModal, markCompleted]);
   
   const handleLose = useCallback(() => {
     // Get current state - use the state prop directly to avoid stale ref issues
@@ -233,6 +387,10 @@ export function useGameModeHandlers({
         setStatsModalIsWin(false);
         setShowStatsModal(true);
       }
+    } else if (currentState.gameMode === 'endless') {
+      // The first timeout ends an Endless run - show the results
+      setStatsModalIsWin(false);
+      setShowStatsModal(true);
     } else {
       // Story Mode: Handle lose (existing flow)
     }
@@ -67,7 +67,16 @@ export function useGameState() {
       completedPuzzles: state.completedPuzzles,
       currentBook: state.currentBook,
       currentStoryPart: state.currentStoryPart,
+      currentSeed: state.currentSeed,
+      // Found words are resumed exactly after a reload
+      foundWords: state.wordList.filter(word => word.found).map(word => word.word),
+      runPuzzles: state.runPuzzles,
+      endlessStreak: state.endlessStreak,
       gameMode: state.gameMode,
+      hintBudget: state.hintBudget,
+      calmProgress: state.calmProgress,
+      dailyProgress: state.dailyProgress,
+      practicePuzzleId: state.practicePuzzleId,
       selectedGenre: state.selectedGenre,
       completedPuzzlesByGenre: state.completedPuzzlesByGenre
         ? Object.fromEntries(
@@ -101,6 +110,33 @@ export function useGameState() {
     return () => clearTimeout(saveTimeout);
   }, [state, isReady, state.dialogue?.completedStoryEvents, state.dialogue?.hasVisitedLibrary]);
 
+  // Clocks tick without triggering a save, so save once more when the page is
+  // hidden or closed to keep the resume point's times current
+  const stateRef = useRef(state);
+  useEffect(() => {
+    stateRef.current = state;
+  }, [state]);
+
+  useEffect(() => {
+    if (!isReady) return;
+
+    const saveNow = () => {
+      saveProgress(stateRef.current).catch(error => {
+        console.error('[useGameState] Failed to save progress on page hide:', error);
+      });
+    };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') saveNow();
+    };
+
+    window.addEventListener('pagehide', saveNow);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      window.removeEventListener('pagehide', saveNow);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [isReady]);
+
   // Update state helper
   const updateState = useCallback((updates: Partial<GameState>) => {
     setState(prevState => ({ ...prevState, ...updates }));
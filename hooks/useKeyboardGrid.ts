@@ -0,0 +1,168 @@
+/**
+ * React hook for keyboard-driven cell selection on the puzzle grid
+ * A roving cursor moves with the arrow keys; Space/Enter anchors a selection,
+ * the cursor extends it in any of the 8 directions, Enter commits and Esc cancels.
+ */
+
+import { useState, useCallback, useEffect, useMemo, type RefObject } from 'react';
+import type { Cell } from '@/lib/game/state';
+import { isVoidCell } from '@/lib/game/gridMask';
+
+interface GridPosition {
+  row: number;
+  col: number;
+}
+
+interface UseKeyboardGridProps {
+  grid: string[][];
+  gridRef: RefObject<HTMLElement | null>;
+  disabled: boolean;
+  getCellsBetween: (start: GridPosition, end: GridPosition) => Set<string>;
+  onCommit: (cells: Cell[]) => void;
+}
+
+// Arrow keys move in straight lines; Home/PageUp/End/PageDown move diagonally,
+// laid out like the 7/9/1/3 keys of a number pad
+const KEY_DIRECTIONS: { [key: string]: [number, number] } = {
+  ArrowUp: [-1, 0],
+  ArrowDown: [1, 0],
+  ArrowLeft: [0, -1],
+  ArrowRight: [0, 1],
+  Home: [-1, -1],
+  PageUp: [-1, 1],
+  End: [1, -1],
+  PageDown: [1, 1],
+};
+
+/**
+ * Find the first selectable cell of a grid, reading row by row
+ */
+function firstSelectableCell(grid: string[][]): GridPosition {
+  for (let row = 0; row < grid.length; row++) {
+    for (let col = 0; col < (grid[row]?.length ?? 0); col++) {
+      if (!isVoidCell(grid[row][col])) return { row, col };
+    }
+  }
+  return { row: 0, col: 0 };
+}
+
+export function useKeyboardGrid({
+  grid,
+  gridRef,
+  disabled,
+  getCellsBetween,
+  onCommit,
+}: UseKeyboardGridProps) {
+  const [cursor, setCursor] = useState<GridPosition>(() => firstSelectableCell(grid));
+  const [anchor, setAnchor] = useState<GridPosition | null>(null);
+  // The cursor is only drawn once the player starts using the keyboard
+  const [active, setActive] = useState(false);
+
+  // A new puzzle starts the cursor over. Keyed on the letters, since callers
+  // may pass a fresh (but identical) array on every render.
+  const gridKey = grid.map(row => row.join('')).join('|');
+  const [cursorGridKey, setCursorGridKey] = useState(gridKey);
+  if (cursorGridKey !== gridKey) {
+    setCursorGridKey(gridKey);
+    setCursor(firstSelectableCell(grid));
+    setAnchor(null);
+  }
+
+  // Keep DOM focus on the cursor cell while the grid has focus
+  useEffect(() => {
+    const container = gridRef.current;
+    if (!container || !active || !container.contains(document.activeElement)) return;
+    const cell = container.querySelector(`button[data-cell-key="${cursor.row}-${cursor.col}"]`) as HTMLElement | null;
+    if (cell && cell !== document.activeElement) {
+      cell.focus();
+    }
+  }, [cursor, active, gridRef]);
+
+  const selection = useMemo(
+    () => (anchor ? getCellsBetween(anchor, cursor) : new Set<string>()),
+    [anchor, cursor, getCellsBetween]
+  );
+
+  // Step the cursor, skipping void cells of shaped grids; stays put at the edge
+  const moveCursor = useCallback((dRow: number, dCol: number) => {
+    setCursor(current => {
+      let row = current.row + dRow;
+      let col = current.col + dCol;
+      while (row >= 0 && row < grid.length && col >= 0 && col < (grid[row]?.length ?? 0)) {
+        if (!isVoidCell(grid[row][col])) return { row, col };
+        row += dRow;
+        col += dCol;
+      }
+      return current;
+    });
+  }, [grid]);
+
+  const cancelSelection = useCallback(() => {
+    setAnchor(null);
+  }, []);
+
+  const commitSelection = useCallback(() => {
+    if (!anchor) return;
+    const cells: Cell[] = Array.from(selection).map(key => {
+      const [row, col] = key.split('-').map(Number);
+      return { row, col, value: grid[row]?.[col] || '' };
+    });
+    setAnchor(null);
+    if (cells.length > 0) {
+      onCommit(cells);
+    }
+  }, [anchor, selection, grid, onCommit]);
+
+  const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
+    if (disabled || grid.length === 0) return;
+
+    const direction = KEY_DIRECTIONS[e.key];
+    if (direction) {
+      e.preventDefault();
+      setActive(true);
+      moveCursor(direction[0], direction[1]);
+      return;
+    }
+
+    if (e.key === ' ' || e.key === 'Enter') {
+      e.preventDefault();
+      setActive(true);
+      if (anchor && e.key === 'Enter') {
+        commitSelection();
+      } else {
+        // Space always (re)anchors at the cursor
+        setAnchor(cursor);
+      }
+      return;
+    }
+
+    if (e.key === 'Escape' && anchor) {
+      // Cancel the selection instead of pausing the game
+      e.preventDefault();
+      e.stopPropagation();
+      cancelSelection();
+    }
+  }, [disabled, grid.length, anchor, cursor, moveCursor, commitSelection, cancelSelection]);
+
+  // Clicking or tabbing onto a cell moves the cursor there
+  const focusCell = useCallback((row: number, col: number) => {
+    setCursor(current => (current.row === row && current.col === col ? current : { row, col }));
+  }, []);
+
+  // Pointer input takes over from the keyboard
+  const deactivate = useCallback(() => {
+    setActive(false);
+    setAnchor(null);
+  }, []);
+
+  return {
+    cursor,
+    anchor,
+    active,
+    selection,
+    handleKeyDown,
+    focusCell,
+    cancelSelection,
+    deactivate,
+  };
+}
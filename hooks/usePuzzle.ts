@@ -6,15 +6,29 @@ import { useCallback, useRef, useEffect } from 'react';
 import type { GameState, PuzzleData } from '@/lib/game/state';
 import { loadAllPuzzles, loadSequentialPuzzle } from '@/lib/game/puzzleLoader';
 import { loadRandomPuzzle, restorePuzzleOnlyPuzzle } from '@/lib/game/puzzleOnlyLoader';
-import { loadBeatTheClockPuzzle } from '@/lib/game/beatTheClockLoader';
-import { initializePuzzle } from '@/lib/game/puzzleGenerator';
+import { loadBeatTheClockPuzzle, restoreBeatTheClockPuzzle } from '@/lib/game/beatTheClockLoader';
+import { loadEndlessPuzzle } from '@/lib/game/endlessLoader';
+import { loadCalmPuzzle } from '@/lib/game/calmLoader';
+import { restorePuzzleFromSeed } from '@/lib/game/puzzleResume';
+import { loadDailyPuzzle } from '@/lib/game/dailyArchive';
+import { loadPracticePuzzle } from '@/lib/game/practice';
 import { getConfig } from '@/lib/core/config';
-import { selectNextPuzzle, initializePuzzleSelection, markPuzzleCompleted } from '@/lib/game/puzzleSelector';
+import {
+  selectNextPuzzle,
+  initializePuzzleSelection,
+  markPuzzleCompleted,
+  peekNextPuzzle,
+  commitPeekedSelection,
+  type PeekedSelection,
+} from '@/lib/game/puzzleSelector';
+import { initializePuzzleAsync, pregeneratePuzzle } from '@/lib/game/generationClient';
 
 export function usePuzzle(state: GameState, setState: (state: GameState) => void) {
   const config = getConfig();
   // Use ref to always have latest state in callbacks
   const stateRef = useRef(state);
+  // Next story selection, made early so its grid can be generated in the background
+  const peekedSelectionRef = useRef<PeekedSelection | null>(null);
   
   useEffect(() => {
     stateRef.current = state;
@@ -33,15 +47,15 @@ export function usePuzzle(state: GameState, setState: (state: GameState) => void
   }, [setState, config]);
 
   // Load sequential puzzle
-  const loadSequential = useCallback((
+  const loadSequential = useCallback(async (
     genre: string | null = null,
     book: string | null = null,
     allowReplay: boolean = false
-  ): { success: boolean; genreComplete?: boolean } => {
+  ): Promise<{ success: boolean; genreComplete?: boolean }> => {
     try {
       // Use ref to get latest state
       const currentState = stateRef.current;
-      const { success, newState, genreComplete } = loadSequentialPuzzle(
+      const { success, newState, genreComplete } = await loadSequentialPuzzle(
         genre,
         book,
         currentState,
@@ -58,10 +72,10 @@ export function usePuzzle(state: GameState, setState: (state: GameState) => void
     }
   }, [setState, config]);
 
-  // Initialize a specific puzzle
-  const initialize = useCallback((puzzleData: PuzzleData) => {
+  // Initialize a specific puzzle (optionally with an explicit grid seed)
+  const initialize = useCallback(async (puzzleData: PuzzleData, seed?: number) => {
     try {
-      const { success, newState } = initializePuzzle(puzzleData, config, stateRef.current);
+      const { success, newState } = await initializePuzzleAsync(puzzleData, config, stateRef.current, seed);
       if (success) {
         setState(newState);
       }
@@ -73,10 +87,10 @@ export function usePuzzle(state: GameState, setState: (state: GameState) => void
   }, [setState, config]);
 
   // Load random puzzle for Puzzle Only Mode
-  const loadRandom = useCallback(() => {
+  const loadRandom = useCallback(async () => {
     try {
       const currentState = stateRef.current;
-      const { success, newState } = loadRandomPuzzle(currentState, config);
+      const { success, newState } = await loadRandomPuzzle(currentState, config);
       if (success) {
         setState(newState);
       }
@@ -88,10 +102,10 @@ export function usePuzzle(state: GameState, setState: (state: GameState) => void
   }, [setState, config]);
 
   // Restore puzzle for Puzzle Only Mode (on refresh)
-  const restorePuzzleOnly = useCallback((genre: string, puzzleIndex: number) => {
+  const restorePuzzleOnly = useCallback(async (genre: string, puzzleIndex: number) => {
     try {
       const currentState = stateRef.current;
-      const { success, newState } = restorePuzzleOnlyPuzzle(genre, puzzleIndex, currentState, config);
+      const { success, newState } = await restorePuzzleOnlyPuzzle(genre, puzzleIndex, currentState, config);
       if (success) {
         setState(newState);
       }
@@ -103,9 +117,10 @@ export function usePuzzle(state: GameState, setState: (state: GameState) => void
   }, [setState, config]);
 
   // Load Beat the Clock puzzle
-  const loadBeatTheClock = useCallback(async () => {
+  // Callers that have just recorded the run score pass that state in (see loadEndless)
+  const loadBeatTheClock = useCallback(async (fromState?: GameState) => {
     try {
-      const currentState = stateRef.current;
+      const currentState = fromState ?? stateRef.current;
       const { success, newState } = await loadBeatTheClockPuzzle(currentState, config);
       if (success) {
         setState(newState);
@@ -117,16 +132,106 @@ export function usePuzzle(state: GameState, setState: (state: GameState) => void
     }
   }, [setState, config]);
 
+  // Restore the Beat the Clock puzzle a reloaded save was on
+  const restoreBeatTheClock = useCallback(async () => {
+    try {
+      const { success, newState } = await restoreBeatTheClockPuzzle(stateRef.current, config);
+      if (success) {
+        setState(newState);
+      }
+      return success;
+    } catch (error) {
+      console.error('[usePuzzle.restoreBeatTheClock] Error restoring Beat the Clock puzzle:', error);
+      return false;
+    }
+  }, [setState, config]);
+
+  // Load the next Endless Mode puzzle. Callers that have just updated the
+  // streak pass that state in, since stateRef only catches up on the next render.
+  const loadEndless = useCallback(async (fromState?: GameState) => {
+    try {
+      const currentState = fromState ?? stateRef.current;
+      const { success, newState } = await loadEndlessPuzzle(currentState, config);
+      if (success) {
+        setState(newState);
+      }
+      return success;
+    } catch (error) {
+      console.error('[usePuzzle.loadEndless] Error loading Endless puzzle:', error);
+      return false;
+    }
+  }, [setState, config]);
+
+  // Load the next Calm Mode puzzle (accepts fresh state for the same reason as loadEndless)
+  const loadCalm = useCallback(async (fromState?: GameState) => {
+    try {
+      const currentState = fromState ?? stateRef.current;
+      const { success, newState } = await loadCalmPuzzle(currentState, config);
+      if (success) {
+        setState(newState);
+      }
+      return success;
+    } catch (error) {
+      console.error('[usePuzzle.loadCalm] Error loading Calm puzzle:', error);
+      return false;
+    }
+  }, [setState, config]);
+
+  // Restore the Endless or Calm Mode puzzle a reloaded save was on
+  const restoreFromSeed = useCallback(async () => {
+    try {
+      const { success, newState } = await restorePuzzleFromSeed(stateRef.current, config);
+      if (success) {
+        setState(newState);
+      }
+      return success;
+    } catch (error) {
+      console.error('[usePuzzle.restoreFromSeed] Error restoring puzzle:', error);
+      return false;
+    }
+  }, [setState, config]);
+
+  // Load today's Daily Archive puzzle
+  const loadDaily = useCallback(async () => {
+    try {
+      const { success, newState } = await loadDailyPuzzle(stateRef.current, config);
+      if (success) {
+        setState(newState);
+      }
+      return success;
+    } catch (error) {
+      console.error('[usePuzzle.loadDaily] Error loading Daily Archive puzzle:', error);
+      return false;
+    }
+  }, [setState, config]);
+
+  // Load the custom puzzle chosen for Practice Mode
+  const loadPractice = useCallback(async () => {
+    try {
+      const { success, newState } = await loadPracticePuzzle(stateRef.current, config);
+      if (success) {
+        setState(newState);
+      }
+      return success;
+    } catch (error) {
+      console.error('[usePuzzle.loadPractice] Error loading Practice puzzle:', error);
+      return false;
+    }
+  }, [setState, config]);
+
   // Load puzzle using the new selection system (with Kethaneum weaving)
-  const loadWithSelection = useCallback(() => {
+  const loadWithSelection = useCallback(async () => {
     try {
       const currentState = stateRef.current;
 
       // Initialize puzzle selection system if needed
       const initializedState = initializePuzzleSelection(currentState);
 
-      // Select the next puzzle
-      const { puzzle, newState, isKethaneum, message } = selectNextPuzzle(initializedState);
+      // Select the next puzzle, reusing the prepared selection if it is still valid
+      const peeked = peekedSelectionRef.current;
+      peekedSelectionRef.current = null;
+      const { puzzle, newState, isKethaneum, message } =
+        (peeked && commitPeekedSelection(currentState, peeked)) || selectNextPuzzle(initializedState);
 
       if (!puzzle) {
         console.error('No puzzle selected:', message);
@@ -134,7 +239,7 @@ export function usePuzzle(state: GameState, setState: (state: GameState) => void
       }
 
       // Initialize the selected puzzle
-      const { success, newState: finalState } = initializePuzzle(puzzle, config, newState);
+      const { success, newState: finalState } = await initializePuzzleAsync(puzzle, config, newState);
 
       if (success) {
         setState(finalState);
@@ -148,6 +253,19 @@ export function usePuzzle(state: GameState, setState: (state: GameState) => void
     }
   }, [setState, config]);
 
+  // Select the next story puzzle now and generate its grid off the main thread,
+  // so loadWithSelection can start it instantly
+  const prepareNext = useCallback(() => {
+    try {
+      const peeked = peekNextPuzzle(stateRef.current);
+      if (!peeked.result.puzzle) return;
+      peekedSelectionRef.current = peeked;
+      pregeneratePuzzle(peeked.result.puzzle, config);
+    } catch (error) {
+      console.warn('Error preparing next puzzle:', error);
+    }
+  }, [config]);
+
   // Mark the current puzzle as completed
   const markCompleted = useCallback((puzzle: PuzzleData) => {
     try {
@@ -168,7 +286,14 @@ export function usePuzzle(state: GameState, setState: (state: GameState) => void
     loadRandom,
     restorePuzzleOnly,
     loadBeatTheClock,
+    restoreBeatTheClock,
+    loadEndless,
+    loadCalm,
+    restoreFromSeed,
+    loadDaily,
+    loadPractice,
     loadWithSelection,
+    prepareNext,
     markCompleted,
   };
 }
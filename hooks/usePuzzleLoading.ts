@@ -4,8 +4,11 @@
  */
 
 import { useCallback, useRef } from 'react';
-import type { GameState } from '@/lib/game/state';
-import { startBeatTheClockRun } from '@/lib/game/logic';
+import type { GameState, PuzzleData } from '@/lib/game/state';
+import { startBeatTheClockRun, startEndlessRun } from '@/lib/game/logic';
+import { applyPuzzleResume } from '@/lib/game/puzzleResume';
+import { loadCustomPuzzles, saveCustomPuzzles } from '@/lib/game/practice';
+import { SHARE_PARAM, decodeShareCode, getSharedCustomPuzzle } from '@/lib/game/shareCode';
 import { storyBlurbManager } from '@/lib/story';
 
 interface UsePuzzleLoadingProps {
@@ -13,12 +16,18 @@ interface UsePuzzleLoadingProps {
   setState: (state: GameState | ((prevState: GameState) => GameState)) => void;
   isReady: boolean;
   loadAll: () => Promise<{ [genre: string]: any[] }>;
-  loadBeatTheClock: () => Promise<boolean>;
-  loadRandom: () => boolean;
-  restorePuzzleOnly: (genre: string, puzzleIndex: number) => boolean;
-  loadSequential: (genre: string | null, book: string | null, allowReplay?: boolean) => { success: boolean; genreComplete?: boolean };
-  loadWithSelection: () => { success: boolean; isKethaneum?: boolean; message?: string };
-  initialize: (puzzleData: any) => boolean;
+  loadBeatTheClock: (fromState?: GameState) => Promise<boolean>;
+  restoreBeatTheClock: () => Promise<boolean>;
+  loadEndless: (fromState?: GameState) => Promise<boolean>;
+  loadCalm: () => Promise<boolean>;
+  restoreFromSeed: () => Promise<boolean>;
+  loadDaily: () => Promise<boolean>;
+  loadPractice: () => Promise<boolean>;
+  loadRandom: () => Promise<boolean>;
+  restorePuzzleOnly: (genre: string, puzzleIndex: number) => Promise<boolean>;
+  loadSequential: (genre: string | null, book: string | null, allowReplay?: boolean) => Promise<{ success: boolean; genreComplete?: boolean }>;
+  loadWithSelection: () => Promise<{ success: boolean; isKethaneum?: boolean; message?: string }>;
+  initialize: (puzzleData: PuzzleData, seed?: number) => Promise<boolean>;
   setPuzzleStartTime: (time: number) => void;
   router: { push: (path: string) => void };
 }
@@ -29,6 +38,12 @@ export function usePuzzleLoading({
   isReady,
   loadAll,
   loadBeatTheClock,
+  restoreBeatTheClock,
+  loadEndless,
+  loadCalm,
+  restoreFromSeed,
+  loadDaily,
+  loadPractice,
   loadRandom,
   restorePuzzleOnly,
   loadSequential,
@@ -38,6 +53,14 @@ export function usePuzzleLoading({
   router,
 }: UsePuzzleLoadingProps) {
   const selectionInFlightRef = useRef(false);
+  // A shared link is opened once per visit; later loads follow the game mode it set
+  const shareCodeHandledRef = useRef(false);
+
+  // Put back the found words and clocks from the save if the puzzle just loaded
+  // is the one it was made on (the resume is dropped either way)
+  const resumeSavedProgress = useCallback(() => {
+    setState(prevState => applyPuzzleResume(prevState));
+  }, [setState]);
   
   const loadPuzzleForMode = useCallback(async (): Promise<{ genreComplete?: boolean } | void> => {
     // Don't try to load until state restoration is complete
@@ -73,8 +96,52 @@ export function usePuzzleLoading({
       ? state.currentPuzzleIndex 
       : (savedPuzzleIndex !== undefined && savedPuzzleIndex >= 0 ? savedPuzzleIndex : undefined);
     
+    // Shared puzzle link (/puzzle?p=<code>): add the puzzle to the player's
+    // custom puzzles and play it in Practice Mode
+    if (!shareCodeHandledRef.current && typeof window !== 'undefined') {
+      shareCodeHandledRef.current = true;
+      const code = new URLSearchParams(window.location.search).get(SHARE_PARAM);
+      const shared = code ? decodeShareCode(code) : null;
+      if (code && !shared) {
+        console.warn('[PuzzleLoading] Ignoring invalid shared puzzle link');
+      }
+      if (shared) {
+        const puzzle = getSharedCustomPuzzle(shared);
+        const others = loadCustomPuzzles().filter(p => p.id !== puzzle.id);
+        saveCustomPuzzles([...others, puzzle]);
+
+        setState(prevState => ({
+          ...prevState,
+          gameMode: 'practice',
+          practicePuzzleId: puzzle.id,
+          sessionStats: null,
+          runStartTime: null,
+        }));
+        // Wait a tick to ensure stateRef is updated in usePuzzle hook
+        await new Promise(resolve => setTimeout(resolve, 0));
+
+        if (await loadPractice()) {
+          resumeSavedProgress();
+          setPuzzleStartTime(Date.now());
+        } else {
+          console.warn('Failed to load shared puzzle');
+        }
+        return;
+      }
+    }
+
     // Handle different game modes
     if (state.gameMode === 'beat-the-clock') {
+      // Reloaded mid-run: bring back the same puzzle; the resume restarts the run clock
+      if (state.puzzleResume?.runTimeRemaining && state.runPuzzles.length > 0) {
+        const restored = await restoreBeatTheClock();
+        if (restored) {
+          resumeSavedProgress();
+          setPuzzleStartTime(Date.now());
+          return;
+        }
+      }
+
       // Beat the Clock: Load random puzzle from beatTheClockPuzzles.json
       let stateToUse = state;
       if (!state.runStartTime) {
@@ -90,8 +157,70 @@ export function usePuzzleLoading({
       if (!success) {
         console.warn('Failed to load Beat the Clock puzzle');
       } else {
+        resumeSavedProgress();
         setPuzzleStartTime(Date.now());
       }
+    } else if (state.gameMode === 'endless') {
+      // Reloaded mid-run: bring back the same puzzle, streak and countdown
+      if (state.puzzleResume) {
+        const restored = await restoreFromSeed();
+        if (restored) {
+          resumeSavedProgress();
+          setPuzzleStartTime(Date.now());
+          return;
+        }
+      }
+
+      // Otherwise start a new run with a random puzzle
+      // (functional update so the puzzles loaded above are kept)
+      setState(prevState => startEndlessRun(prevState));
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      const success = await loadEndless();
+      if (success) {
+        resumeSavedProgress();
+        setPuzzleStartTime(Date.now());
+      } else {
+        console.warn('Failed to load Endless puzzle');
+      }
+    } else if (state.gameMode === 'calm') {
+      // Reloaded partway through a puzzle: bring back the same one
+      if (state.puzzleResume) {
+        const restored = await restoreFromSeed();
+        if (restored) {
+          resumeSavedProgress();
+          setPuzzleStartTime(Date.now());
+          return;
+        }
+      }
+
+      // Calm Mode: pick up the next puzzle from calm progress
+      const success = await loadCalm();
+      if (success) {
+        resumeSavedProgress();
+        setPuzzleStartTime(Date.now());
+      } else {
+        console.warn('Failed to load Calm puzzle');
+      }
+    } else if (state.gameMode === 'daily') {
+      // Daily Archive: today's puzzle is the same on every load
+      const success = await loadDaily();
+      if (success) {
+        resumeSavedProgress();
+        setPuzzleStartTime(Date.now());
+      } else {
+        console.warn('Failed to load Daily Archive puzzle');
+      }
+    } else if (state.gameMode === 'practice') {
+      // Practice Mode: the custom puzzle picked on the Practice screen
+      const success = await loadPractice();
+      if (success) {
+        resumeSavedProgress();
+        setPuzzleStartTime(Date.now());
+      } else {
+        // The puzzle was deleted or never chosen - pick another
+        router.push('/practice');
+      }
     } else if (state.gameMode === 'puzzle-only') {
       // Puzzle Only: Restore current puzzle on refresh, or load random puzzle
       if (!state.puzzles || Object.keys(state.puzzles).length === 0) {
@@ -104,16 +233,18 @@ export function usePuzzleLoading({
           state.puzzles && state.puzzles[genreToLoad] && 
           state.puzzles[genreToLoad][puzzleIndex]) {
         // Restore the exact puzzle we were on
-        const success = restorePuzzleOnly(genreToLoad, puzzleIndex);
+        const success = await restorePuzzleOnly(genreToLoad, puzzleIndex);
         if (success) {
+          resumeSavedProgress();
           setPuzzleStartTime(Date.now());
           return;
         }
       }
       
       // No saved puzzle or restore failed - load a new random puzzle
-      const success = loadRandom();
+      const success = await loadRandom();
       if (success) {
+        resumeSavedProgress();
         setPuzzleStartTime(Date.now());
       }
     } else {
@@ -152,8 +283,10 @@ export function usePuzzleLoading({
 
             await new Promise(resolve => setTimeout(resolve, 0));
 
-            const success = initialize(puzzleToRestore);
+            // Reuse the saved seed so the restored grid has the identical layout
+            const success = await initialize(puzzleToRestore, state.currentSeed ?? undefined);
             if (success) {
+              resumeSavedProgress();
               return;
             }
           }
@@ -181,10 +314,13 @@ export function usePuzzleLoading({
       selectionInFlightRef.current = true;
       let result;
       try {
-        result = loadWithSelection();
+        result = await loadWithSelection();
       } finally {
         selectionInFlightRef.current = false;
       }
+      if (result.success) {
+        resumeSavedProgress();
+      }
 
       if (!result.success) {
         console.warn('[PuzzleLoading] Failed to load puzzle:', result.message);
@@ -207,6 +343,12 @@ export function usePuzzleLoading({
     setState,
     loadAll,
     loadBeatTheClock,
+    restoreBeatTheClock,
+    loadEndless,
+    loadCalm,
+    restoreFromSeed,
+    loadDaily,
+    loadPractice,
     loadRandom,
     restorePuzzleOnly,
     loadSequential,
@@ -214,6 +356,7 @@ export function usePuzzleLoading({
     initialize,
     setPuzzleStartTime,
     router,
+    resumeSavedProgress,
   ]);
 
   return {
@@ -0,0 +1,83 @@
+/**
+ * React hook that records selection replays on the puzzle screen
+ * Every puzzle gets its own event log; the puzzles of a Beat the Clock run
+ * are kept together so the whole run can be saved, watched back or raced.
+ */
+
+import { useCallback, useEffect, useRef } from 'react';
+import type { Cell, GameState, PuzzleReplay, ReplayEventCode, ReplayFile } from '@/lib/game/state';
+import { createPuzzleReplay, createReplayEvent, createReplayFile } from '@/lib/game/replay';
+
+interface Recording {
+  replay: PuzzleReplay;
+  startedAt: number;
+}
+
+export function useReplayRecorder(state: GameState) {
+  const stateRef = useRef(state);
+  const currentRef = useRef<Recording | null>(null);
+  // Earlier puzzles of the current Beat the Clock run
+  const finishedRef = useRef<PuzzleReplay[]>([]);
+  const runStartRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    stateRef.current = state;
+  }, [state]);
+
+  // Each newly started puzzle starts a new recording
+  useEffect(() => {
+    const currentState = stateRef.current;
+    if (!currentState.grid || currentState.grid.length === 0 || !currentState.puzzleStartedAt) return;
+
+    const now = Date.now();
+    const previous = currentRef.current;
+    const sameRun = currentState.gameMode === 'beat-the-clock' &&
+      currentState.runStartTime !== null &&
+      currentState.runStartTime === runStartRef.current;
+
+    if (previous && sameRun) {
+      finishedRef.current = [...finishedRef.current, { ...previous.replay, duration: now - previous.startedAt }];
+    } else {
+      finishedRef.current = [];
+    }
+
+    runStartRef.current = currentState.runStartTime;
+    currentRef.current = {
+      replay: createPuzzleReplay(currentState, currentState.runStartTime ? now - currentState.runStartTime : 0),
+      startedAt: now,
+    };
+  }, [state.puzzleStartedAt, state.grid]);
+
+  const record = useCallback((code: ReplayEventCode, cell?: { row: number; col: number }) => {
+    const recording = currentRef.current;
+    if (!recording) return;
+    recording.replay.events.push(createReplayEvent(Date.now() - recording.startedAt, code, cell));
+  }, []);
+
+  // Record a selection made in one step (keyboard or word picker) as a drag
+  const recordSelection = useCallback((cells: Cell[], hit: boolean) => {
+    if (cells.length === 0) return;
+    record('s', cells[0]);
+    record('x', cells[cells.length - 1]);
+    record(hit ? 'h' : 'm');
+  }, [record]);
+
+  // Everything recorded so far: the whole run in Beat the Clock, otherwise the current puzzle
+  const getReplay = useCallback((): ReplayFile | null => {
+    const recording = currentRef.current;
+    if (!recording) return null;
+    const currentState = stateRef.current;
+    const current = { ...recording.replay, events: [...recording.replay.events], duration: Date.now() - recording.startedAt };
+    return createReplayFile(
+      [...finishedRef.current, current],
+      currentState.gameMode,
+      currentState.gameMode === 'beat-the-clock' ? currentState.runScore.total : null
+    );
+  }, []);
+
+  return {
+    record,
+    recordSelection,
+    getReplay,
+  };
+}
@@ -67,9 +67,10 @@ export function useStoryTimer(
 }
 
 /**
- * Puzzle-Only Mode Timer - Simple countdown timer per puzzle
+ * Countdown for a single puzzle, starting from config.timeLimit.
+ * Running out of time ends the game, then onTimeUp is called.
  */
-export function usePuzzleOnlyTimer(
+function useCountdownTimer(
   state: GameState,
   setState: (state: GameState) => void,
   onTimeUp?: () => void
@@ -184,6 +185,29 @@ export function usePuzzleOnlyTimer(
   };
 }
 
+/**
+ * Puzzle-Only Mode Timer - Simple countdown timer per puzzle
+ */
+export function usePuzzleOnlyTimer(
+  state: GameState,
+  setState: (state: GameState) => void,
+  onTimeUp?: () => void
+) {
+  return useCountdownTimer(state, setState, onTimeUp);
+}
+
+/**
+ * Endless Mode Timer - Fresh countdown for every puzzle
+ * The first puzzle to run out of time ends the run
+ */
+export function useEndlessTimer(
+  state: GameState,
+  setState: (state: GameState) => void,
+  onTimeUp?: () => void
+) {
+  return useCountdownTimer(state, setState, onTimeUp);
+}
+
 /**
  * Beat-the-Clock Mode Timer - Complex run timer + puzzle timer
  * Currently disabled but structure ready for future
@@ -327,4 +351,3 @@ export function useBeatTheClockTimer(
     clear,
   };
 }
-
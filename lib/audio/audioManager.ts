@@ -84,6 +84,10 @@ export class AudioManager {
   private currentTrackIndex = 0;
   private shuffleHistory: number[] = [];
 
+  // Ambient-only playback (Calm Mode): music and voice are held back
+  private ambientOnly = false;
+  private suspendedPlaylist: string | null = null;
+
   private constructor() {
     // Private constructor for singleton pattern
     if (typeof window !== 'undefined') {
@@ -170,6 +174,8 @@ export class AudioManager {
    * Play background music (crossfades if music is already playing)
    */
   public async playMusic(id: string, fadeDuration = 1000): Promise<void> {
+    if (this.ambientOnly) return;
+
     const track = this.tracks.get(id);
     if (!track || track.category !== AudioCategory.MUSIC) {
       console.warn(`Music track not found: ${id}`);
@@ -286,6 +292,8 @@ export class AudioManager {
    * Play a voice line
    */
   public async playVoice(id: string): Promise<void> {
+    if (this.ambientOnly) return;
+
     const track = this.tracks.get(id);
     if (!track || track.category !== AudioCategory.VOICE) {
       console.warn(`Voice track not found: ${id}`);
@@ -496,6 +504,12 @@ export class AudioManager {
     startIndex = 0,
     fadeDuration = 1000
   ): Promise<void> {
+    if (this.ambientOnly) {
+      // Remember the request so it plays once ambient-only ends
+      this.suspendedPlaylist = playlistId;
+      return;
+    }
+
     const playlist = this.playlists.get(playlistId);
     if (!playlist) {
       console.warn(`[Audio] Playlist not found: ${playlistId}`);
@@ -608,6 +622,40 @@ export class AudioManager {
     }
   }
 
+  /**
+   * Switch ambient-only playback on or off. While on, music and voice are
+   * silenced and requests to play them are ignored; ambient sound and SFX
+   * carry on. Turning it off resumes the playlist that was interrupted.
+   */
+  public async setAmbientOnly(enabled: boolean, fadeDuration = 1000): Promise<void> {
+    if (enabled === this.ambientOnly) return;
+
+    if (enabled) {
+      this.suspendedPlaylist = this.currentPlaylist;
+      this.ambientOnly = true;
+      if (this.currentPlaylist) {
+        await this.stopPlaylist(fadeDuration);
+      } else {
+        await this.stopMusic(fadeDuration);
+      }
+      return;
+    }
+
+    this.ambientOnly = false;
+    const playlistId = this.suspendedPlaylist;
+    this.suspendedPlaylist = null;
+    if (playlistId) {
+      await this.playPlaylist(playlistId, 0, fadeDuration);
+    }
+  }
+
+  /**
+   * Check whether ambient-only playback is on
+   */
+  public isAmbientOnly(): boolean {
+    return this.ambientOnly;
+  }
+
   /**
    * Set playlist mode (sequential, shuffle, repeat, etc.)
    */
@@ -7,6 +7,8 @@ export interface DifficultyLevel {
   gridSize: number;
   timeLimit: number;
   maxWords: number;
+  decoyDensity: number; // Share of filler cells seeded with fragments of the hidden words (0-1)
+  scoreRange: [number, number]; // Grid analyzer score range the auto-tuner aims for (0-100)
 }
 
 export interface TestingConfig {
@@ -30,6 +32,66 @@ export interface SystemSettings {
   errorReporting: boolean;
 }
 
+export type FallbackStrategy = 'alternate-directions' | 'grow-grid' | 'drop-words';
+
+export interface GenerationSettings {
+  targetOverlapRatio: number; // Share of words that should cross another word (0-1)
+  maxPlacementSteps: number; // Backtracking budget per grid
+  maxCandidatesPerWord: number; // Candidate placements considered per word
+  fallbackStrategies: FallbackStrategy[]; // Tried in order when words cannot all be placed
+  maxGridSize: number; // Upper bound for the grow-grid fallback
+  minWords: number; // The drop-words fallback never goes below this many words
+  autoTune: boolean; // Re-roll grids until their difficulty score lands in scoreRange
+  maxTuneAttempts: number; // Extra grids the auto-tuner may generate
+  locale: string; // Locale used to upper-case puzzle words
+  keepDiacritics: boolean; // Keep accented letters in the grid instead of folding them (é -> E)
+}
+
+// Relative letter frequencies (percent) used for a genre's filler letters
+export type LetterFrequencyTable = { [letter: string]: number };
+
+export interface HintSettings {
+  startingBudget: { [gameMode: string]: number }; // Hints a player starts with in each mode
+  earnedPerPuzzle: number; // Hints awarded for each completed puzzle
+  maxBudget: number; // Hints a player can bank per mode
+  beatTheClockPenalty: number; // Seconds taken off a Beat the Clock run per hint
+  displayDuration: number; // How long a hint stays on the grid (ms)
+}
+
+export interface DifficultyRampSettings {
+  from: 'easy' | 'medium' | 'hard'; // Difficulty of the first puzzle in a run
+  to: 'easy' | 'medium' | 'hard'; // Difficulty the run ramps up to
+  puzzlesToPeak: number; // Puzzles into a run before it reaches `to`
+  curve: number; // Ramp shape: 1 = linear, above 1 starts gently, below 1 starts steep
+  minDirections: number; // Reading directions on the first puzzle; the rest unlock along the ramp
+}
+
+export interface ScoringSettings {
+  pointsPerLetter: number; // Base points for each letter of a found word
+  directionDifficulty: {
+    horizontal: number;
+    vertical: number;
+    diagonal: number;
+    reversed: number; // Added on top for right-to-left and bottom-to-top words
+  };
+  comboWindow: number; // Seconds between finds that keep a combo going
+  comboStep: number; // Multiplier added per combo step
+  maxComboMultiplier: number;
+  parTime: number; // Seconds per puzzle; each second under par earns a bonus
+  timeBonusPerSecond: number;
+  invalidSelectionPenalty: number; // Points lost for a selection that is not a hidden word
+}
+
+export interface CalmModeSettings {
+  ambientOnlyAudio: boolean; // Silence music and voice while playing Calm Mode
+  autoAdvance: boolean; // Move on to the next puzzle by itself after a win
+  autoAdvanceDelay: number; // Pause before the next puzzle appears (ms)
+}
+
+export interface DailyArchiveSettings {
+  difficulty: 'easy' | 'medium' | 'hard'; // Level every daily grid is generated at, whatever the player's own
+}
+
 export interface AudioSettings {
   masterVolume: number; // 0-1
   musicVolume: number; // 0-1
@@ -49,12 +111,21 @@ export interface Config {
   minWordLength: number;
   maxWordLength: number;
   maxWords: number;
+  decoyDensity: number; // Share of filler cells seeded with fragments of the hidden words (0-1)
+  scoreRange: [number, number]; // Grid analyzer score range the auto-tuner aims for (0-100)
   directions: number[][];
   difficultyLevels: {
     easy: DifficultyLevel;
     medium: DifficultyLevel;
     hard: DifficultyLevel;
   };
+  generation: GenerationSettings;
+  letterFrequencies: { [genre: string]: LetterFrequencyTable }; // Filler letters per genre; other genres use English
+  hints: HintSettings;
+  scoring: ScoringSettings;
+  beatTheClockRamp: DifficultyRampSettings;
+  calm: CalmModeSettings;
+  daily: DailyArchiveSettings;
   testing: TestingConfig;
   features: FeatureFlags;
   system: SystemSettings;
@@ -69,8 +140,10 @@ const defaultConfig: Config = {
   minWordLength: 3,
   maxWordLength: 10,
   maxWords: 10,
+  decoyDensity: 0.3,
+  scoreRange: [30, 60],
   
-  // Word directions
+  // Word directions, easiest first (the Beat the Clock ramp unlocks them in this order)
   directions: [
     [0, 1],   // right
     [1, 0],   // down
@@ -87,20 +160,119 @@ const defaultConfig: Config = {
     easy: {
       gridSize: 8,
       timeLimit: 240, // 4 minutes
-      maxWords: 6
+      maxWords: 6,
+      decoyDensity: 0.1,
+      scoreRange: [0, 40]
     },
     medium: {
       gridSize: 10,
       timeLimit: 180, // 3 minutes
-      maxWords: 8
+      maxWords: 8,
+      decoyDensity: 0.3,
+      scoreRange: [30, 60]
     },
     hard: {
       gridSize: 12,
       timeLimit: 150, // 2.5 minutes
-      maxWords: 10
+      maxWords: 10,
+      decoyDensity: 0.6,
+      scoreRange: [50, 100]
     }
   },
   
+  // Grid generation settings
+  generation: {
+    targetOverlapRatio: 0.4,
+    maxPlacementSteps: 2000,
+    maxCandidatesPerWord: 60,
+    fallbackStrategies: ['alternate-directions', 'grow-grid', 'drop-words'],
+    maxGridSize: 14,
+    minWords: 3,
+    autoTune: false,
+    maxTuneAttempts: 8,
+    locale: 'en',
+    keepDiacritics: false
+  },
+
+  // Filler letter frequencies per genre, leaning towards each genre's vocabulary
+  letterFrequencies: {
+    Kethaneum: {
+      A: 7.84, B: 1.61, C: 4.56, D: 4.16, E: 11.24, F: 2.25, G: 2.44, H: 4.49, I: 8.67,
+      J: 0.07, K: 0.96, L: 4.01, M: 2.06, N: 7.37, O: 6.34, P: 2.1, Q: 0.05, R: 7.89,
+      S: 6.02, T: 8.29, U: 2.55, V: 0.78, W: 2.06, X: 0.07, Y: 2.15, Z: 0.04
+    },
+    nature: {
+      A: 10.24, B: 2.19, C: 3.21, D: 3.05, E: 13.03, F: 2.0, G: 2.62, H: 5.22, I: 6.03,
+      J: 0.07, K: 0.93, L: 4.89, M: 2.46, N: 6.42, O: 7.0, P: 3.84, Q: 0.23, R: 7.33,
+      S: 4.41, T: 6.72, U: 2.84, V: 0.85, W: 1.92, X: 0.07, Y: 2.08, Z: 0.4
+    },
+    fantasy: {
+      A: 7.36, B: 0.75, C: 3.57, D: 4.87, E: 10.15, F: 2.19, G: 2.63, H: 4.14, I: 8.39,
+      J: 0.07, K: 0.93, L: 3.63, M: 2.29, N: 8.78, O: 7.01, P: 3.12, Q: 0.59, R: 7.35,
+      S: 6.41, T: 7.27, U: 3.03, V: 0.49, W: 2.83, X: 0.62, Y: 1.0, Z: 0.58
+    },
+    science: {
+      A: 9.57, B: 0.75, C: 4.53, D: 3.71, E: 13.38, F: 1.1, G: 1.78, H: 3.05, I: 5.06,
+      J: 0.07, K: 0.39, L: 5.91, M: 5.11, N: 6.47, O: 9.22, P: 2.51, Q: 0.05, R: 5.34,
+      S: 4.71, T: 10.02, U: 2.96, V: 0.49, W: 1.2, X: 0.86, Y: 1.78, Z: 0.04
+    }
+  },
+
+  // Hint economy
+  hints: {
+    startingBudget: {
+      story: 3,
+      'puzzle-only': 3,
+      'beat-the-clock': 2,
+      endless: 3,
+      calm: 3,
+      daily: 3,
+      practice: 3
+    },
+    earnedPerPuzzle: 1,
+    maxBudget: 9,
+    beatTheClockPenalty: 15,
+    displayDuration: 4000
+  },
+
+  // Beat the Clock scoring
+  scoring: {
+    pointsPerLetter: 10,
+    directionDifficulty: {
+      horizontal: 1,
+      vertical: 1.2,
+      diagonal: 1.5,
+      reversed: 0.25
+    },
+    comboWindow: 8,
+    comboStep: 0.25,
+    maxComboMultiplier: 3,
+    parTime: 90,
+    timeBonusPerSecond: 5,
+    invalidSelectionPenalty: 20
+  },
+
+  // Beat the Clock difficulty ramp
+  beatTheClockRamp: {
+    from: 'easy',
+    to: 'hard',
+    puzzlesToPeak: 6,
+    curve: 1.5,
+    minDirections: 2
+  },
+
+  // Calm Mode
+  calm: {
+    ambientOnlyAudio: true,
+    autoAdvance: true,
+    autoAdvanceDelay: 2500
+  },
+
+  // Daily Archive
+  daily: {
+    difficulty: 'medium'
+  },
+  
   // Testing flags
   testing: {
     enabled: false,
@@ -1,16 +1,48 @@
 /**
  * Puzzle loader for Beat the Clock Mode
- * Loads random puzzles from beatTheClockPuzzles.json
+ * Loads puzzles from beatTheClockPuzzles.json, getting harder as the run goes on
  */
 
 import type { GameState, PuzzleData } from './state';
-import { initializePuzzle } from './puzzleGenerator';
+import { initializePuzzleAsync } from './generationClient';
 import type { Config } from '../core/config';
 import { fetchAsset } from '../utils/assetPath';
+import { getRampedConfig, pickRunPuzzle } from './difficultyRamp';
 
 /**
- * Load a random puzzle for Beat the Clock Mode
- * Loads from beatTheClockPuzzles.json if not already loaded, then selects random puzzle
+ * Load beatTheClockPuzzles.json into state if not already loaded
+ */
+async function ensureBeatTheClockPuzzles(state: GameState): Promise<GameState> {
+  if (state.puzzles && state.puzzles['Beat the Clock'] && state.puzzles['Beat the Clock'].length > 0) {
+    return state;
+  }
+
+  const response = await fetchAsset('/data/beat-the-clock-mode-puzzles/beatTheClockPuzzles.json');
+  if (!response.ok) {
+    throw new Error('Failed to load Beat the Clock puzzles');
+  }
+  const puzzleData: PuzzleData[] = await response.json();
+
+  // Add genre field to puzzles
+  const puzzlesWithGenre = puzzleData.map(p => ({
+    ...p,
+    genre: 'Beat the Clock',
+  }));
+
+  return {
+    ...state,
+    puzzles: {
+      ...state.puzzles,
+      'Beat the Clock': puzzlesWithGenre,
+    },
+  };
+}
+
+/**
+ * Load the next puzzle for Beat the Clock Mode
+ * Loads from beatTheClockPuzzles.json if not already loaded, then picks a puzzle
+ * not yet played this run (or the ghost's next puzzle) and generates its grid at
+ * the run's current difficulty
  */
 export async function loadBeatTheClockPuzzle(
   state: GameState,
@@ -21,86 +53,86 @@ export async function loadBeatTheClockPuzzle(
     if (state.timer) {
       clearInterval(state.timer);
     }
-    
-    // Load Beat the Clock puzzles if not already loaded
-    if (!state.puzzles || !state.puzzles['Beat the Clock'] || state.puzzles['Beat the Clock'].length === 0) {
-      const response = await fetchAsset('/data/beat-the-clock-mode-puzzles/beatTheClockPuzzles.json');
-      if (!response.ok) {
-        throw new Error('Failed to load Beat the Clock puzzles');
-      }
-      const puzzleData: PuzzleData[] = await response.json();
-      
-      // Add genre field to puzzles
-      const puzzlesWithGenre = puzzleData.map(p => ({
-        ...p,
-        genre: 'Beat the Clock',
-      }));
-      
-      const newState: GameState = {
-        ...state,
-        puzzles: {
-          ...state.puzzles,
-          'Beat the Clock': puzzlesWithGenre,
-        },
-      };
-      
-      // Select random puzzle
-      const randomIndex = Math.floor(Math.random() * puzzlesWithGenre.length);
-      const puzzleToLoad = puzzlesWithGenre[randomIndex];
-      
-      // Update state - preserve runStartTime and runDuration for Beat the Clock mode
-      const updatedState: GameState = {
-        ...newState,
-        currentGenre: 'Beat the Clock',
-        currentPuzzleIndex: randomIndex,
-        currentBook: puzzleToLoad.book,
-        currentStoryPart: puzzleToLoad.storyPart || 0,
-        // Preserve run timer state
-        runStartTime: state.runStartTime,
-        runDuration: state.runDuration,
-        // Reset gameOver so new puzzle can start
-        gameOver: false,
-      };
-      
-      // Initialize the puzzle
-      const initResult = initializePuzzle(puzzleToLoad, config, updatedState);
-      
-      if (!initResult.success) {
-        throw new Error('Puzzle initialization failed');
-      }
-      
-      return { success: true, newState: initResult.newState };
-    } else {
-      // Puzzles already loaded, select random one
-      const puzzles = state.puzzles['Beat the Clock'];
-      const randomIndex = Math.floor(Math.random() * puzzles.length);
-      const puzzleToLoad = puzzles[randomIndex];
-      
-      // Update state - preserve runStartTime and runDuration for Beat the Clock mode
-      const updatedState: GameState = {
-        ...state,
-        currentGenre: 'Beat the Clock',
-        currentPuzzleIndex: randomIndex,
-        currentBook: puzzleToLoad.book,
-        currentStoryPart: puzzleToLoad.storyPart || 0,
-        // Preserve run timer state
-        runStartTime: state.runStartTime,
-        runDuration: state.runDuration,
-        // Reset gameOver so new puzzle can start
-        gameOver: false,
-      };
-      
-      // Initialize the puzzle
-      const initResult = initializePuzzle(puzzleToLoad, config, updatedState);
-      
-      if (!initResult.success) {
-        throw new Error('Puzzle initialization failed');
-      }
-      
-      return { success: true, newState: initResult.newState };
+
+    const newState = await ensureBeatTheClockPuzzles(state);
+
+    // Draw without repeats; the ramp position is how many puzzles the run has served.
+    // Racing a ghost replays its puzzles in order, from the same seeds.
+    const puzzles = newState.puzzles['Beat the Clock'] || [];
+    if (puzzles.length === 0) {
+      throw new Error('No Beat the Clock puzzles loaded');
+    }
+    const ghostPuzzle = state.ghostRun?.puzzles[state.runPuzzles.length];
+    const puzzleIndex = ghostPuzzle && puzzles[ghostPuzzle.puzzleIndex]
+      ? ghostPuzzle.puzzleIndex
+      : pickRunPuzzle(puzzles.length, state.runPuzzles);
+    const puzzleToLoad = puzzles[puzzleIndex];
+    const rampedConfig = getRampedConfig(config, state.runPuzzles.length);
+
+    // Update state - preserve runStartTime and runDuration for Beat the Clock mode
+    const updatedState: GameState = {
+      ...newState,
+      currentGenre: 'Beat the Clock',
+      currentPuzzleIndex: puzzleIndex,
+      currentBook: puzzleToLoad.book,
+      currentStoryPart: puzzleToLoad.storyPart || 0,
+      // Preserve run timer state
+      runStartTime: state.runStartTime,
+      runDuration: state.runDuration,
+      runPuzzles: [...state.runPuzzles, puzzleIndex],
+      // Reset gameOver so new puzzle can start
+      gameOver: false,
+    };
+
+    // Initialize the puzzle
+    const initResult = await initializePuzzleAsync(
+      puzzleToLoad,
+      rampedConfig,
+      updatedState,
+      ghostPuzzle?.puzzleIndex === puzzleIndex ? ghostPuzzle.seed : undefined
+    );
+
+    if (!initResult.success) {
+      throw new Error('Puzzle initialization failed');
     }
+
+    return { success: true, newState: initResult.newState };
   } catch (error) {
     console.error('[loadBeatTheClockPuzzle] Error loading Beat the Clock puzzle:', error);
     return { success: false, newState: state };
   }
 }
+
+/**
+ * Regenerate the puzzle a saved run was on, at the same difficulty and from
+ * the same seed, so its found words can be restored
+ */
+export async function restoreBeatTheClockPuzzle(
+  state: GameState,
+  config: Config
+): Promise<{ success: boolean; newState: GameState }> {
+  try {
+    const newState = await ensureBeatTheClockPuzzles(state);
+    const puzzleToLoad = newState.puzzles['Beat the Clock']?.[state.currentPuzzleIndex];
+    if (!puzzleToLoad || state.currentSeed === null || state.runPuzzles.length === 0) {
+      throw new Error('No saved Beat the Clock puzzle to restore');
+    }
+
+    // The saved run already counts this puzzle
+    const rampedConfig = getRampedConfig(config, state.runPuzzles.length - 1);
+    const initResult = await initializePuzzleAsync(puzzleToLoad, rampedConfig, {
+      ...newState,
+      currentGenre: 'Beat the Clock',
+      gameOver: false,
+    }, state.currentSeed);
+
+    if (!initResult.success) {
+      throw new Error('Puzzle initialization failed');
+    }
+
+    return { success: true, newState: initResult.newState };
+  } catch (error) {
+    console.error('[restoreBeatTheClockPuzzle] Error restoring Beat the Clock puzzle:', error);
+    return { success: false, newState: state };
+  }
+}
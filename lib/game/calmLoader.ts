@@ -0,0 +1,105 @@
+/**
+ * Puzzle loader for Calm Mode
+ * Serves untimed puzzles from the library genres, one after another,
+ * without touching story progression
+ */
+
+import type { GameState } from './state';
+import { initializePuzzleAsync } from './generationClient';
+import type { Config } from '../core/config';
+import { getLibraryGenres } from './puzzleSelectionConfig';
+
+/**
+ * Load the next Calm Mode puzzle.
+ * Selection policy:
+ * 1. Only the library genres are eligible
+ * 2. Puzzles already finished in the current calm cycle are skipped
+ * 3. A different genre from the one just played is preferred
+ * 4. Once every eligible puzzle is finished, the cycle starts over
+ */
+export async function loadCalmPuzzle(
+  state: GameState,
+  config: Config,
+  random: () => number = Math.random
+): Promise<{ success: boolean; newState: GameState }> {
+  try {
+    // Calm Mode has no countdown, but clear any timer left over from another mode
+    if (state.timer) {
+      clearInterval(state.timer);
+    }
+
+    const candidates: Array<{ genre: string; index: number; title: string }> = [];
+    for (const genre of getLibraryGenres(state.puzzles)) {
+      state.puzzles[genre].forEach((puzzle, index) => {
+        candidates.push({ genre, index, title: puzzle.title });
+      });
+    }
+    if (candidates.length === 0) {
+      throw new Error('No library puzzles loaded');
+    }
+
+    let calmProgress = state.calmProgress;
+    const isCurrent = (c: { genre: string; index: number }) =>
+      c.genre === state.currentGenre && c.index === state.currentPuzzleIndex;
+
+    let unfinished = candidates.filter(c =>
+      !calmProgress.completedByGenre[c.genre]?.includes(c.title) && !isCurrent(c)
+    );
+    if (unfinished.length === 0) {
+      // Every puzzle has been played this cycle - start a new one
+      calmProgress = { ...calmProgress, completedByGenre: {} };
+      unfinished = candidates.filter(c => !isCurrent(c));
+    }
+    if (unfinished.length === 0) {
+      unfinished = candidates;
+    }
+
+    const otherGenres = unfinished.filter(c => c.genre !== state.currentGenre);
+    const pool = otherGenres.length > 0 ? otherGenres : unfinished;
+    const { genre, index } = pool[Math.floor(random() * pool.length)];
+    const puzzleToLoad = state.puzzles[genre][index];
+
+    const updatedState: GameState = {
+      ...state,
+      calmProgress,
+      currentGenre: genre,
+      currentPuzzleIndex: index,
+      currentBook: puzzleToLoad.book,
+      currentStoryPart: puzzleToLoad.storyPart || 0,
+      gameOver: false,
+    };
+
+    const initResult = await initializePuzzleAsync(puzzleToLoad, config, updatedState);
+
+    if (!initResult.success) {
+      throw new Error('Puzzle initialization failed');
+    }
+
+    return { success: true, newState: initResult.newState };
+  } catch (error) {
+    console.error('Error loading puzzle for Calm Mode:', error);
+    return { success: false, newState: state };
+  }
+}
+
+/**
+ * Record the current puzzle as finished in Calm Mode progress.
+ * Story progress (completed puzzles, books, story beats) is left untouched.
+ */
+export function recordCalmCompletion(state: GameState): GameState {
+  const genre = state.currentGenre;
+  const puzzle = genre ? state.puzzles[genre]?.[state.currentPuzzleIndex] : undefined;
+  if (!genre || !puzzle) return state;
+
+  const finished = state.calmProgress.completedByGenre[genre] || [];
+  return {
+    ...state,
+    calmProgress: {
+      completedPuzzles: state.calmProgress.completedPuzzles + 1,
+      completedByGenre: {
+        ...state.calmProgress.completedByGenre,
+        [genre]: finished.includes(puzzle.title) ? finished : [...finished, puzzle.title],
+      },
+    },
+  };
+}
@@ -0,0 +1,123 @@
+/**
+ * Cloze excerpts for Chronicles of the Kethaneum
+ * Splits a story excerpt into plain text and blanks, one blank for each place a
+ * puzzle word appears. Matching ignores case, accents and punctuation, and accepts
+ * common English inflections (LANTERN matches "lanterns", STORY matches "stories").
+ */
+
+import type { WordData } from './state';
+import { normalizeGridWord, type WordNormalizationOptions } from './wordNormalizer';
+
+export interface ClozeSegment {
+  text: string;
+  /** Index into the word list of the word this blank hides, or null for plain text */
+  wordIndex: number | null;
+}
+
+export interface ClozeExcerpt {
+  segments: ClozeSegment[];
+  /** Word-list indices of words that do not appear in the excerpt */
+  unmatched: number[];
+}
+
+// A word in the excerpt: letters, with any apostrophes or hyphens inside it
+const TOKEN_PATTERN = /[\p{L}\p{M}]+(?:['’-][\p{L}\p{M}]+)*/gu;
+
+// A puzzle word written as separate words in the excerpt ("passion fruit") spans up to this many
+const MAX_SPAN_TOKENS = 3;
+
+// Suffixes stripped when comparing inflected forms, longest first
+const INFLECTION_SUFFIXES = ['INGS', 'IES', 'IED', 'ING', 'ERS', 'EST', 'ED', 'ER', 'ES', 'LY', 'S'];
+
+// Shortest stem an inflection may leave, so "BED" and "SING" are not read as inflected
+const MIN_STEM_LENGTH = 3;
+
+/**
+ * Get the forms a grid word could have before inflection: itself, and each
+ * suffix-stripped stem with a restored final E or Y and an undoubled consonant
+ */
+function getStems(form: string): Set<string> {
+  const stems = new Set([form]);
+  for (const suffix of INFLECTION_SUFFIXES) {
+    if (!form.endsWith(suffix)) continue;
+    const base = form.slice(0, -suffix.length);
+    if (base.length < MIN_STEM_LENGTH) continue;
+
+    stems.add(base);
+    stems.add(`${base}E`);
+    if (suffix.startsWith('I')) stems.add(`${base}Y`);
+    if (base[base.length - 1] === base[base.length - 2]) stems.add(base.slice(0, -1));
+  }
+  return stems;
+}
+
+function isInflectionOf(a: string, b: string): boolean {
+  const stemsA = getStems(a);
+  for (const stem of getStems(b)) {
+    if (stemsA.has(stem)) return true;
+  }
+  return false;
+}
+
+/**
+ * Split an excerpt into text and blanks for the words in a puzzle's word list.
+ * Every occurrence of a word is blanked. Exact matches win over inflected ones,
+ * and the longest run of excerpt words wins when a puzzle word spans several.
+ */
+export function buildClozeExcerpt(
+  excerpt: string,
+  wordList: Pick<WordData, 'word'>[],
+  options: WordNormalizationOptions = {}
+): ClozeExcerpt {
+  const tokens = Array.from(excerpt.matchAll(TOKEN_PATTERN), match => ({
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+    form: normalizeGridWord(match[0], options),
+  }));
+  const words = wordList.map(entry => normalizeGridWord(entry.word, options));
+
+  const findWord = (form: string): number => {
+    const exact = words.indexOf(form);
+    return exact >= 0 ? exact : words.findIndex(word => isInflectionOf(form, word));
+  };
+
+  const segments: ClozeSegment[] = [];
+  const matched = new Set<number>();
+  let textStart = 0;
+  let i = 0;
+  while (i < tokens.length) {
+    let found: { wordIndex: number; span: number } | null = null;
+    for (let span = Math.min(MAX_SPAN_TOKENS, tokens.length - i); span >= 1 && !found; span--) {
+      // A span may only cross whitespace, not punctuation
+      const gaps = tokens.slice(i + 1, i + span).map((token, k) => excerpt.slice(tokens[i + k].end, token.start));
+      if (gaps.some(gap => !/^\s+$/.test(gap))) continue;
+
+      const form = tokens.slice(i, i + span).map(token => token.form).join('');
+      const wordIndex = findWord(form);
+      if (wordIndex >= 0) found = { wordIndex, span };
+    }
+
+    if (!found) {
+      i++;
+      continue;
+    }
+
+    const start = tokens[i].start;
+    const end = tokens[i + found.span - 1].end;
+    if (start > textStart) {
+      segments.push({ text: excerpt.slice(textStart, start), wordIndex: null });
+    }
+    segments.push({ text: excerpt.slice(start, end), wordIndex: found.wordIndex });
+    matched.add(found.wordIndex);
+    textStart = end;
+    i += found.span;
+  }
+  if (textStart < excerpt.length) {
+    segments.push({ text: excerpt.slice(textStart), wordIndex: null });
+  }
+
+  return {
+    segments,
+    unmatched: words.map((_, index) => index).filter(index => !matched.has(index)),
+  };
+}
@@ -0,0 +1,168 @@
+/**
+ * Daily Archive for Chronicles of the Kethaneum
+ * Everyone gets the same puzzle and grid layout on a given day: both are picked
+ * from a seed derived from the date, so no server is needed.
+ */
+
+import type { DailyProgress, GameState, PuzzleData } from './state';
+import { initializePuzzleAsync } from './generationClient';
+import type { Config } from '../core/config';
+import { getLibraryGenres } from './puzzleSelectionConfig';
+import { createSeededRandom, hashString } from '../utils/mathUtils';
+
+export interface DailyCalendarDay {
+  dateKey: string;
+  day: number;
+  completed: boolean;
+}
+
+/**
+ * Get the local date key (YYYY-MM-DD) for a day
+ */
+export function getDailyDateKey(date: Date = new Date()): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Move a date key forwards or backwards by whole days
+ */
+export function shiftDateKey(dateKey: string, days: number): string {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return getDailyDateKey(new Date(year, month - 1, day + days));
+}
+
+/**
+ * Build the Daily Archive content pool: every puzzle in the library genres, in
+ * an order that does not depend on how the puzzle files happened to load or on
+ * what other modes have loaded this session
+ */
+export function getDailyPool(puzzles: { [genre: string]: PuzzleData[] }): PuzzleData[] {
+  return getLibraryGenres(puzzles)
+    .flatMap(genre => [...puzzles[genre]].sort((a, b) => a.title.localeCompare(b.title)));
+}
+
+/**
+ * Pick the puzzle and grid seed for a date
+ */
+export function selectDailyPuzzle(
+  puzzles: { [genre: string]: PuzzleData[] },
+  dateKey: string
+): { puzzle: PuzzleData; seed: number } | null {
+  const pool = getDailyPool(puzzles);
+  if (pool.length === 0) return null;
+
+  const random = createSeededRandom(hashString(`daily:${dateKey}`));
+  const puzzle = pool[Math.floor(random() * pool.length)];
+  return { puzzle, seed: hashString(`daily:${dateKey}:${puzzle.title}`) };
+}
+
+/**
+ * Get the generation config for the Daily Archive: the fixed daily difficulty
+ * level rather than the player's, so everyone gets the same board
+ */
+export function getDailyConfig(config: Config): Config {
+  return {
+    ...config,
+    ...config.difficultyLevels[config.daily.difficulty],
+  };
+}
+
+/**
+ * Load the Daily Archive puzzle for a date (today by default)
+ */
+export async function loadDailyPuzzle(
+  state: GameState,
+  config: Config,
+  dateKey: string = getDailyDateKey()
+): Promise<{ success: boolean; newState: GameState }> {
+  try {
+    if (state.timer) {
+      clearInterval(state.timer);
+    }
+
+    const selection = selectDailyPuzzle(state.puzzles, dateKey);
+    if (!selection) {
+      throw new Error('No puzzles available for the Daily Archive');
+    }
+
+    const { puzzle, seed } = selection;
+    const genre = Object.keys(state.puzzles).find(g => state.puzzles[g].includes(puzzle)) || puzzle.genre || '';
+    const updatedState: GameState = {
+      ...state,
+      dailyDate: dateKey,
+      currentGenre: genre,
+      currentPuzzleIndex: state.puzzles[genre]?.indexOf(puzzle) ?? -1,
+      currentBook: puzzle.book,
+      currentStoryPart: puzzle.storyPart || 0,
+      gameOver: false,
+    };
+
+    const initResult = await initializePuzzleAsync(puzzle, getDailyConfig(config), updatedState, seed);
+    if (!initResult.success) {
+      throw new Error('Puzzle initialization failed');
+    }
+
+    return { success: true, newState: initResult.newState };
+  } catch (error) {
+    console.error('Error loading Daily Archive puzzle:', error);
+    return { success: false, newState: state };
+  }
+}
+
+/**
+ * Count the run of consecutive completed days ending on a date
+ */
+function countStreakEndingOn(completed: Set<string>, dateKey: string): number {
+  let streak = 0;
+  let day = dateKey;
+  while (completed.has(day)) {
+    streak++;
+    day = shiftDateKey(day, -1);
+  }
+  return streak;
+}
+
+/**
+ * Get the current streak. A streak stays alive through today until the
+ * player misses a whole day, so yesterday's completion still counts.
+ */
+export function getDailyStreak(progress: DailyProgress, today: string = getDailyDateKey()): number {
+  const completed = new Set(progress.completedDates);
+  const start = completed.has(today) ? today : shiftDateKey(today, -1);
+  return countStreakEndingOn(completed, start);
+}
+
+/**
+ * Record the Daily Archive puzzle as completed for its date
+ */
+export function recordDailyCompletion(state: GameState, dateKey: string = state.dailyDate || getDailyDateKey()): GameState {
+  const progress = state.dailyProgress;
+  if (progress.completedDates.includes(dateKey)) return state;
+
+  const completedDates = [...progress.completedDates, dateKey].sort();
+  const streak = countStreakEndingOn(new Set(completedDates), dateKey);
+
+  return {
+    ...state,
+    dailyProgress: {
+      completedDates,
+      longestStreak: Math.max(progress.longestStreak, streak),
+    },
+  };
+}
+
+/**
+ * Get every day of a month with its completion status (month is 1-12)
+ */
+export function getDailyCalendarMonth(progress: DailyProgress, year: number, month: number): DailyCalendarDay[] {
+  const completed = new Set(progress.completedDates);
+  const daysInMonth = new Date(year, month, 0).getDate();
+  const days: DailyCalendarDay[] = [];
+  for (let day = 1; day <= daysInMonth; day++) {
+    const dateKey = getDailyDateKey(new Date(year, month - 1, day));
+    days.push({ dateKey, day, completed: completed.has(dateKey) });
+  }
+  return days;
+}
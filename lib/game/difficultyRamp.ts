@@ -0,0 +1,74 @@
+/**
+ * Difficulty ramp for Beat the Clock runs
+ * Each successive puzzle in a run moves from one difficulty level towards
+ * another along a configurable curve: larger grids, more words and more
+ * reading directions.
+ */
+
+import type { Config, DifficultyLevel } from '../core/config';
+import { lerp } from '../utils/mathUtils';
+
+/**
+ * Get how far along the ramp a puzzle is, from 0 (first puzzle) to 1 (peak)
+ * @param puzzleNumber - Zero-based position of the puzzle in the run
+ */
+export function getRampProgress(puzzleNumber: number, config: Config): number {
+  const { puzzlesToPeak, curve } = config.beatTheClockRamp;
+  if (puzzlesToPeak <= 0) return 1;
+  const linear = Math.min(1, Math.max(0, puzzleNumber / puzzlesToPeak));
+  return Math.pow(linear, curve);
+}
+
+/**
+ * Build the grid settings for one puzzle of a run.
+ * config.directions is ordered from easiest to hardest, so the ramp unlocks
+ * directions from the front of the list.
+ */
+export function getRampedConfig(config: Config, puzzleNumber: number): Config {
+  const ramp = config.beatTheClockRamp;
+  const from: DifficultyLevel = config.difficultyLevels[ramp.from];
+  const to: DifficultyLevel = config.difficultyLevels[ramp.to];
+  const t = getRampProgress(puzzleNumber, config);
+
+  const minDirections = Math.min(ramp.minDirections, config.directions.length);
+  const directionCount = Math.round(lerp(minDirections, config.directions.length, t));
+
+  return {
+    ...config,
+    gridSize: Math.round(lerp(from.gridSize, to.gridSize, t)),
+    maxWords: Math.round(lerp(from.maxWords, to.maxWords, t)),
+    decoyDensity: lerp(from.decoyDensity, to.decoyDensity, t),
+    scoreRange: [
+      Math.round(lerp(from.scoreRange[0], to.scoreRange[0], t)),
+      Math.round(lerp(from.scoreRange[1], to.scoreRange[1], t)),
+    ],
+    directions: config.directions.slice(0, directionCount),
+  };
+}
+
+/**
+ * Pick the next puzzle of a run without repeating any already played.
+ * Once every puzzle has been played the pool starts over, still avoiding
+ * the puzzle just played.
+ * @param played - Indices of every puzzle served so far this run, in order
+ * @returns The puzzle index, or -1 if the pool is empty
+ */
+export function pickRunPuzzle(
+  puzzleCount: number,
+  played: number[],
+  random: () => number = Math.random
+): number {
+  if (puzzleCount <= 0) return -1;
+
+  // Only the current pass through the pool counts towards repeats
+  const currentPass = played.slice(played.length - (played.length % puzzleCount));
+  const last = played[played.length - 1];
+
+  let available = Array.from({ length: puzzleCount }, (_, index) => index)
+    .filter(index => !currentPass.includes(index));
+  if (currentPass.length === 0 && puzzleCount > 1) {
+    available = available.filter(index => index !== last);
+  }
+
+  return available[Math.floor(random() * available.length)];
+}
@@ -0,0 +1,76 @@
+/**
+ * Puzzle loader for Endless Mode
+ * Serves random puzzles from the library genres, one after another, without story progression
+ */
+
+import type { GameState } from './state';
+import { initializePuzzleAsync } from './generationClient';
+import type { Config } from '../core/config';
+import { getLibraryGenres } from './puzzleSelectionConfig';
+import { createSeededRandom, hashString } from '../utils/mathUtils';
+
+/**
+ * Random source for the next draw of an Endless run: the run's seed and how
+ * far the run has got, so the same run always serves the same puzzles
+ */
+function getEndlessRandom(state: GameState): () => number {
+  return createSeededRandom(hashString(`endless:${state.endlessSeed}:${state.endlessStreak}`));
+}
+
+/**
+ * Load the next puzzle of an Endless run.
+ * Picks a random puzzle from the library genres, avoiding the one just played,
+ * and gives it a fresh countdown from config.timeLimit (set by the difficulty level).
+ */
+export async function loadEndlessPuzzle(
+  state: GameState,
+  config: Config,
+  random: () => number = getEndlessRandom(state)
+): Promise<{ success: boolean; newState: GameState }> {
+  try {
+    // Clear any existing timer before loading new puzzle
+    if (state.timer) {
+      clearInterval(state.timer);
+    }
+
+    const candidates: Array<{ genre: string; index: number }> = [];
+    for (const genre of getLibraryGenres(state.puzzles)) {
+      state.puzzles[genre].forEach((_, index) => {
+        candidates.push({ genre, index });
+      });
+    }
+    if (candidates.length === 0) {
+      throw new Error('No library puzzles loaded');
+    }
+
+    // Never serve the same puzzle twice in a row
+    const fresh = candidates.filter(({ genre, index }) =>
+      genre !== state.currentGenre || index !== state.currentPuzzleIndex
+    );
+    const pool = fresh.length > 0 ? fresh : candidates;
+    const { genre, index } = pool[Math.floor(random() * pool.length)];
+    const puzzleToLoad = state.puzzles[genre][index];
+
+    const updatedState: GameState = {
+      ...state,
+      currentGenre: genre,
+      currentPuzzleIndex: index,
+      currentBook: puzzleToLoad.book,
+      currentStoryPart: puzzleToLoad.storyPart || 0,
+      // Reset gameOver so the next puzzle can start
+      gameOver: false,
+    };
+
+    // initializePuzzle resets timeRemaining to config.timeLimit for the new puzzle
+    const initResult = await initializePuzzleAsync(puzzleToLoad, config, updatedState);
+
+    if (!initResult.success) {
+      throw new Error('Puzzle initialization failed');
+    }
+
+    return { success: true, newState: initResult.newState };
+  } catch (error) {
+    console.error('Error loading puzzle for Endless Mode:', error);
+    return { success: false, newState: state };
+  }
+}
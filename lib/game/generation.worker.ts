@@ -0,0 +1,23 @@
+/**
+ * Generation Worker for Chronicles of the Kethaneum
+ * Lays out puzzle grids off the main thread for the generation client
+ */
+
+import { regenerateGrid } from './puzzleGenerator';
+import type { GenerationWorkerRequest, GenerationWorkerResponse } from './generationClient';
+
+// The project compiles against the DOM lib, so describe just the worker scope we use
+const workerScope = self as unknown as {
+  onmessage: ((event: MessageEvent<GenerationWorkerRequest>) => void) | null;
+  postMessage: (message: GenerationWorkerResponse) => void;
+};
+
+workerScope.onmessage = (event) => {
+  const { id, puzzleData, seed, config } = event.data;
+  try {
+    const layout = regenerateGrid(puzzleData, seed, config);
+    workerScope.postMessage({ id, layout });
+  } catch (error) {
+    workerScope.postMessage({ id, error: error instanceof Error ? error.message : String(error) });
+  }
+};
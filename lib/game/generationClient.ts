@@ -0,0 +1,152 @@
+/**
+ * Generation Client for Chronicles of the Kethaneum
+ * Async puzzle layout API backed by a Web Worker, with a synchronous
+ * fallback for SSR and tests. Finished layouts go into the layout cache,
+ * where initializePuzzle picks them up.
+ */
+
+import type { Config } from '../core/config';
+import type { GameState, PuzzleData } from './state';
+import {
+  derivePuzzleSeed,
+  initializePuzzle,
+  regenerateGrid,
+  type PuzzleLayout,
+} from './puzzleGenerator';
+import { getCachedLayout, getLayoutKey, hasCachedLayout, storeLayout } from './layoutCache';
+
+export interface GenerationWorkerRequest {
+  id: number;
+  puzzleData: PuzzleData;
+  seed: number;
+  config: Config;
+}
+
+export interface GenerationWorkerResponse {
+  id: number;
+  layout?: PuzzleLayout;
+  error?: string;
+}
+
+interface PendingRequest {
+  resolve: (layout: PuzzleLayout) => void;
+  reject: (error: Error) => void;
+}
+
+// undefined = not created yet, null = workers unavailable here
+let worker: Worker | null | undefined;
+let nextRequestId = 1;
+const pendingRequests = new Map<number, PendingRequest>();
+const inFlight = new Map<string, Promise<PuzzleLayout>>();
+
+/**
+ * Get the shared generation worker, creating it on first use
+ */
+function getWorker(): Worker | null {
+  if (worker !== undefined) return worker;
+
+  if (typeof window === 'undefined' || typeof Worker === 'undefined') {
+    worker = null;
+    return worker;
+  }
+
+  try {
+    worker = new Worker(new URL('./generation.worker.ts', import.meta.url));
+    worker.onmessage = (event: MessageEvent<GenerationWorkerResponse>) => {
+      const { id, layout, error } = event.data;
+      const request = pendingRequests.get(id);
+      if (!request) return;
+      pendingRequests.delete(id);
+      if (layout) {
+        request.resolve(layout);
+      } else {
+        request.reject(new Error(error || 'Grid generation failed'));
+      }
+    };
+    worker.onerror = (event) => {
+      console.error('[GenerationClient] Worker failed, falling back to main thread:', event.message);
+      worker?.terminate();
+      worker = null;
+      for (const request of pendingRequests.values()) {
+        request.reject(new Error('Generation worker failed'));
+      }
+      pendingRequests.clear();
+    };
+  } catch (error) {
+    console.warn('[GenerationClient] Could not start generation worker:', error);
+    worker = null;
+  }
+
+  return worker;
+}
+
+/**
+ * Lay out a puzzle without blocking the UI thread. The result is cached
+ * for initializePuzzle; identical requests share one generation.
+ */
+export function generateLayoutAsync(
+  puzzleData: PuzzleData,
+  seed: number,
+  config: Config
+): Promise<PuzzleLayout> {
+  const key = getLayoutKey(puzzleData, seed, config);
+
+  const cached = getCachedLayout(key);
+  if (cached) return Promise.resolve(cached);
+
+  const existing = inFlight.get(key);
+  if (existing) return existing;
+
+  const activeWorker = getWorker();
+  const promise = (activeWorker
+    ? new Promise<PuzzleLayout>((resolve, reject) => {
+        const id = nextRequestId++;
+        pendingRequests.set(id, { resolve, reject });
+        const request: GenerationWorkerRequest = { id, puzzleData, seed, config };
+        activeWorker.postMessage(request);
+      })
+    : Promise.resolve().then(() => regenerateGrid(puzzleData, seed, config))
+  )
+    .then(layout => {
+      storeLayout(key, layout);
+      return layout;
+    })
+    .finally(() => {
+      inFlight.delete(key);
+    });
+
+  inFlight.set(key, promise);
+  return promise;
+}
+
+/**
+ * Initialize a puzzle, generating its grid off the UI thread first.
+ * If the worker fails, initializePuzzle lays the grid out itself.
+ */
+export async function initializePuzzleAsync(
+  puzzleData: PuzzleData,
+  config: Config,
+  state: GameState,
+  seed: number = derivePuzzleSeed(puzzleData)
+): Promise<{ success: boolean; newState: GameState }> {
+  try {
+    await generateLayoutAsync(puzzleData, seed, config);
+  } catch (error) {
+    console.warn('[GenerationClient] Async generation failed, generating on the main thread:', error);
+  }
+  return initializePuzzle(puzzleData, config, state, seed);
+}
+
+/**
+ * Start generating a puzzle the player is likely to open next, using the
+ * same seed initializePuzzle will use
+ */
+export function pregeneratePuzzle(puzzleData: PuzzleData, config: Config): void {
+  const seed = derivePuzzleSeed(puzzleData);
+  if (hasCachedLayout(getLayoutKey(puzzleData, seed, config))) return;
+
+  generateLayoutAsync(puzzleData, seed, config).catch(error => {
+    // initializePuzzle will simply generate on demand
+    console.warn('[GenerationClient] Pre-generation failed:', error);
+  });
+}
@@ -0,0 +1,85 @@
+/**
+ * Screen-reader support for the word search grid
+ * Labels for cells and words, live-region announcements, and the cell
+ * lookup behind the non-visual "pick a word, a start cell and a direction" finder
+ */
+
+import type { Cell, WordData } from './state';
+import { isVoidCell } from './gridMask';
+
+export interface DirectionOption {
+  label: string;
+  vector: [number, number];
+}
+
+/**
+ * Every reading direction, in compass order starting from the right
+ */
+export const DIRECTION_OPTIONS: DirectionOption[] = [
+  { label: 'Right', vector: [0, 1] },
+  { label: 'Down and right', vector: [1, 1] },
+  { label: 'Down', vector: [1, 0] },
+  { label: 'Down and left', vector: [1, -1] },
+  { label: 'Left', vector: [0, -1] },
+  { label: 'Up and left', vector: [-1, -1] },
+  { label: 'Up', vector: [-1, 0] },
+  { label: 'Up and right', vector: [-1, 1] },
+];
+
+/**
+ * Label a grid cell, using one-based row and column numbers
+ */
+export function describeCell(letter: string, row: number, col: number, found: boolean): string {
+  const label = `${letter}, row ${row + 1}, column ${col + 1}`;
+  return found ? `${label}, part of a found word` : label;
+}
+
+/**
+ * Label a word in the word list with whether it has been found
+ */
+export function describeWordStatus(word: WordData): string {
+  return `${word.displayWord ?? word.word}, ${word.found ? 'found' : 'not found'}`;
+}
+
+/**
+ * Announce the letters of an in-progress selection, e.g. "Selection: A P P"
+ */
+export function describeSelection(letters: string[]): string {
+  return `Selection: ${letters.join(' ')}`;
+}
+
+/**
+ * Announce a find, e.g. "Found APPLE, 3 of 5 remain"
+ */
+export function describeFoundWord(word: WordData, wordList: WordData[]): string {
+  const remaining = wordList.filter(w => !w.found).length;
+  const name = word.displayWord ?? word.word;
+  if (remaining === 0) {
+    return `Found ${name}, all ${wordList.length} words found`;
+  }
+  return `Found ${name}, ${remaining} of ${wordList.length} remain`;
+}
+
+/**
+ * Get the cells a word of the given length would cover from a start cell.
+ * Returns null when the run leaves the grid or crosses a void cell.
+ */
+export function getCellsFromStart(
+  grid: string[][],
+  start: { row: number; col: number },
+  direction: [number, number],
+  length: number
+): Cell[] | null {
+  const [dRow, dCol] = direction;
+  const cells: Cell[] = [];
+
+  for (let i = 0; i < length; i++) {
+    const row = start.row + dRow * i;
+    const col = start.col + dCol * i;
+    const value = grid[row]?.[col];
+    if (value === undefined || isVoidCell(value)) return null;
+    cells.push({ row, col, value });
+  }
+
+  return cells;
+}
@@ -0,0 +1,120 @@
+/**
+ * Grid Analyzer for Chronicles of the Kethaneum
+ * Scores how hard a generated grid is to solve, beyond its size
+ */
+
+import type { WordData } from './state';
+import { countOverlaps } from './placementEngine';
+import { isVoidCell } from './gridMask';
+
+type Placement = Pick<WordData, 'word' | 'row' | 'col' | 'direction'>;
+
+export interface GridAnalysis {
+  /** 0 (gentle) to 100 (fiendish) */
+  score: number;
+  /** Share of words read right-to-left or bottom-to-top */
+  reversedShare: number;
+  /** Share of words placed on a diagonal */
+  diagonalShare: number;
+  /** Grid cells shared by two or more words */
+  overlaps: number;
+  /** Share of open cells that begin a false start - the first two letters of a word, going nowhere */
+  decoyDensity: number;
+  /** How varied the word lengths are, from 0 (all equal) to 1 */
+  lengthSpread: number;
+}
+
+// How much each factor contributes to the score (sums to 1)
+const SCORE_WEIGHTS = {
+  reversed: 0.3,
+  diagonal: 0.25,
+  overlap: 0.15,
+  decoy: 0.2,
+  spread: 0.1,
+};
+
+// Decoy density at which the decoy factor is maxed out
+const DECOY_SATURATION = 0.4;
+
+const DIRECTIONS: Array<[number, number]> = [
+  [0, 1], [1, 0], [1, 1], [0, -1], [-1, 0], [-1, -1], [1, -1], [-1, 1],
+];
+
+/**
+ * Analyze a grid and its placed words
+ */
+export function analyzeGrid(grid: string[][], placements: Placement[]): GridAnalysis {
+  const wordCount = placements.length;
+  if (wordCount === 0) {
+    return { score: 0, reversedShare: 0, diagonalShare: 0, overlaps: 0, decoyDensity: 0, lengthSpread: 0 };
+  }
+
+  const reversedShare = placements.filter(({ direction: [dRow, dCol] }) =>
+    dCol < 0 || (dCol === 0 && dRow < 0)
+  ).length / wordCount;
+  const diagonalShare = placements.filter(({ direction: [dRow, dCol] }) =>
+    dRow !== 0 && dCol !== 0
+  ).length / wordCount;
+  const overlaps = countOverlaps(placements);
+  const decoyDensity = measureDecoyDensity(grid, placements);
+  const lengthSpread = measureLengthSpread(placements.map(p => p.word.length));
+
+  const score = 100 * (
+    SCORE_WEIGHTS.reversed * reversedShare +
+    SCORE_WEIGHTS.diagonal * diagonalShare +
+    SCORE_WEIGHTS.overlap * Math.min(1, overlaps / wordCount) +
+    SCORE_WEIGHTS.decoy * Math.min(1, decoyDensity / DECOY_SATURATION) +
+    SCORE_WEIGHTS.spread * lengthSpread
+  );
+
+  return {
+    score: Math.round(score),
+    reversedShare,
+    diagonalShare,
+    overlaps,
+    decoyDensity,
+    lengthSpread,
+  };
+}
+
+/**
+ * Check whether an analysis score falls inside a [min, max] range
+ */
+export function isScoreInRange(score: number, range: [number, number]): boolean {
+  return score >= range[0] && score <= range[1];
+}
+
+/**
+ * Count open cells where a word's first two letters appear without the word
+ */
+function measureDecoyDensity(grid: string[][], placements: Placement[]): number {
+  const openings = new Set(placements.filter(p => p.word.length >= 2).map(p => p.word.slice(0, 2)));
+  const realStarts = new Set(placements.map(p => `${p.row}-${p.col}`));
+  let openCells = 0;
+  let falseStarts = 0;
+
+  for (let row = 0; row < grid.length; row++) {
+    for (let col = 0; col < grid[row].length; col++) {
+      if (isVoidCell(grid[row][col])) continue;
+      openCells++;
+      if (realStarts.has(`${row}-${col}`)) continue;
+
+      const isFalseStart = DIRECTIONS.some(([dRow, dCol]) => {
+        const next = grid[row + dRow]?.[col + dCol];
+        return next !== undefined && openings.has(grid[row][col] + next);
+      });
+      if (isFalseStart) falseStarts++;
+    }
+  }
+
+  return openCells > 0 ? falseStarts / openCells : 0;
+}
+
+/**
+ * Coefficient of variation of the word lengths, capped at 1
+ */
+function measureLengthSpread(lengths: number[]): number {
+  const mean = lengths.reduce((a, b) => a + b, 0) / lengths.length;
+  const variance = lengths.reduce((sum, length) => sum + (length - mean) ** 2, 0) / lengths.length;
+  return Math.min(1, Math.sqrt(variance) / mean);
+}
@@ -0,0 +1,116 @@
+/**
+ * Grid Masks for Chronicles of the Kethaneum
+ * Shapes that mark some grid cells as void, for non-rectangular word searches
+ */
+
+/**
+ * Value stored in grid cells that are outside the puzzle's shape
+ */
+export const VOID_CELL = '#';
+
+export type MaskShape = 'open-book' | 'crystal' | 'circle';
+
+export const MASK_SHAPES: MaskShape[] = ['open-book', 'crystal', 'circle'];
+
+/**
+ * A named shape, or ASCII-art rows where '.' and ' ' are void and any
+ * other character is an open cell
+ */
+export type PuzzleMask = MaskShape | string[];
+
+/**
+ * Check whether a grid cell is void
+ */
+export function isVoidCell(value: string | undefined): boolean {
+  return value === VOID_CELL;
+}
+
+/**
+ * Normalise a mask into ASCII rows, or null for named shapes and no mask.
+ * A multi-line string is accepted as ASCII art for convenience.
+ */
+function getAsciiRows(mask: PuzzleMask | string | undefined): string[] | null {
+  if (Array.isArray(mask)) return mask;
+  if (typeof mask === 'string' && mask.includes('\n')) return mask.split('\n');
+  return null;
+}
+
+/**
+ * Check whether a mask has a fixed size (ASCII art) rather than scaling with the grid
+ */
+export function isFixedSizeMask(mask: PuzzleMask | string | undefined): boolean {
+  return getAsciiRows(mask) !== null;
+}
+
+/**
+ * Get the grid size a mask needs - the ASCII art's larger dimension,
+ * otherwise the requested size
+ */
+export function getMaskGridSize(mask: PuzzleMask | string | undefined, gridSize: number): number {
+  const rows = getAsciiRows(mask);
+  if (!rows) return gridSize;
+  return Math.max(rows.length, ...rows.map(row => row.length));
+}
+
+/**
+ * Resolve a mask to an open-cell map (true = open) for a square grid.
+ * Returns null when there is no mask or the shape is unknown.
+ */
+export function resolveMask(mask: PuzzleMask | string | undefined, gridSize: number): boolean[][] | null {
+  if (!mask) return null;
+
+  const rows = getAsciiRows(mask);
+  if (rows) {
+    // Short rows and missing rows are padded with void cells
+    return Array.from({ length: gridSize }, (_, r) =>
+      Array.from({ length: gridSize }, (_, c) => {
+        const char = rows[r]?.[c];
+        return char !== undefined && char !== '.' && char !== ' ';
+      })
+    );
+  }
+
+  const shape = MASK_SHAPE_BUILDERS[mask as MaskShape];
+  if (!shape) {
+    console.warn(`Unknown grid mask: ${mask}`);
+    return null;
+  }
+
+  return Array.from({ length: gridSize }, (_, r) =>
+    Array.from({ length: gridSize }, (_, c) => shape(r, c, gridSize))
+  );
+}
+
+/**
+ * Mark the void cells of an empty grid
+ */
+export function applyMask(grid: string[][], mask: boolean[][] | null): void {
+  if (!mask) return;
+  for (let r = 0; r < grid.length; r++) {
+    for (let c = 0; c < grid[r].length; c++) {
+      if (!mask[r]?.[c]) {
+        grid[r][c] = VOID_CELL;
+      }
+    }
+  }
+}
+
+// Each builder decides whether cell (row, col) is open in a grid of the given size
+const MASK_SHAPE_BUILDERS: Record<MaskShape, (row: number, col: number, size: number) => boolean> = {
+  // Two pages with a dipped spine and rounded outer top corners
+  'open-book': (row, col, size) => {
+    const spine = Math.abs(col - (size - 1) / 2) < 1;
+    if (spine && (row === 0 || row === size - 1)) return false;
+    const outerCorner = (col === 0 || col === size - 1) && row === 0;
+    return !outerCorner;
+  },
+  // A diamond standing on its point
+  crystal: (row, col, size) => {
+    const center = (size - 1) / 2;
+    return Math.abs(row - center) + Math.abs(col - center) <= size / 2;
+  },
+  circle: (row, col, size) => {
+    const center = (size - 1) / 2;
+    return Math.hypot(row - center, col - center) <= size / 2;
+  },
+};
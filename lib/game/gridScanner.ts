@@ -0,0 +1,179 @@
+/**
+ * Grid Scanner for Chronicles of the Kethaneum
+ * Finds unintended second occurrences of puzzle words, and blocked words,
+ * in a filled grid so the generator can re-fill or re-place them
+ */
+
+import type { WordData } from './state';
+import { BLOCKED_WORDS } from './wordBlocklist';
+
+type Placement = Pick<WordData, 'word' | 'row' | 'col' | 'direction'>;
+
+export interface WordOccurrence {
+  word: string;
+  row: number;
+  col: number;
+  direction: [number, number];
+  cells: Array<[number, number]>;
+}
+
+export interface GridAmbiguity {
+  word: string;
+  kind: 'duplicate' | 'blocked';
+  occurrence: WordOccurrence;
+  /** Cells of the occurrence that are filler and may be changed to break it */
+  fillerCells: Array<[number, number]>;
+}
+
+// Players can select in any of the eight directions, so always scan all of them
+const SCAN_DIRECTIONS: Array<[number, number]> = [
+  [0, 1], [1, 0], [1, 1], [0, -1], [-1, 0], [-1, -1], [1, -1], [-1, 1],
+];
+
+/**
+ * Find every occurrence of the target words in the grid, in all directions.
+ * A palindrome read both ways over the same cells is reported once.
+ */
+export function findOccurrences(grid: string[][], targets: readonly string[]): WordOccurrence[] {
+  const targetSet = new Set(targets.map(t => t.toUpperCase()));
+  const maxLength = Math.max(0, ...Array.from(targetSet, t => t.length));
+  const occurrences: WordOccurrence[] = [];
+  const seen = new Set<string>();
+  const rows = grid.length;
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < grid[row].length; col++) {
+      for (const [dRow, dCol] of SCAN_DIRECTIONS) {
+        let text = '';
+        const cells: Array<[number, number]> = [];
+
+        for (let i = 0; i < maxLength; i++) {
+          const r = row + i * dRow;
+          const c = col + i * dCol;
+          if (r < 0 || r >= rows || c < 0 || c >= grid[r].length) break;
+
+          text += grid[r][c];
+          cells.push([r, c]);
+
+          if (targetSet.has(text)) {
+            const key = `${text}:${cellSetKey(cells)}`;
+            if (!seen.has(key)) {
+              seen.add(key);
+              occurrences.push({ word: text, row, col, direction: [dRow, dCol], cells: [...cells] });
+            }
+          }
+        }
+      }
+    }
+  }
+
+  return occurrences;
+}
+
+/**
+ * Find occurrences a player could trip over: puzzle words appearing
+ * anywhere other than their placement, and blocked words that touch filler
+ */
+export function findAmbiguities(
+  grid: string[][],
+  placements: Placement[],
+  blockedWords: readonly string[] = BLOCKED_WORDS,
+  fixedCells: Set<string> = new Set()
+): GridAmbiguity[] {
+  const placedCells = new Set(fixedCells);
+  const intended = new Set<string>();
+
+  for (const placement of placements) {
+    const cells = getPlacementCells(placement);
+    cells.forEach(([r, c]) => placedCells.add(`${r}-${c}`));
+    intended.add(cellSetKey(cells));
+  }
+
+  const ambiguities: GridAmbiguity[] = [];
+  const toAmbiguity = (occurrence: WordOccurrence, kind: GridAmbiguity['kind']): GridAmbiguity => ({
+    word: occurrence.word,
+    kind,
+    occurrence,
+    fillerCells: occurrence.cells.filter(([r, c]) => !placedCells.has(`${r}-${c}`)),
+  });
+
+  const words = placements.map(p => p.word);
+  for (const occurrence of findOccurrences(grid, words)) {
+    if (!intended.has(cellSetKey(occurrence.cells))) {
+      ambiguities.push(toAmbiguity(occurrence, 'duplicate'));
+    }
+  }
+
+  for (const occurrence of findOccurrences(grid, blockedWords)) {
+    const ambiguity = toAmbiguity(occurrence, 'blocked');
+    // Blocked words spelled entirely by puzzle words are intended content
+    if (ambiguity.fillerCells.length > 0) {
+      ambiguities.push(ambiguity);
+    }
+  }
+
+  return ambiguities;
+}
+
+/**
+ * Re-fill filler cells until no ambiguity that touches filler remains.
+ * Ambiguities made only of placed letters cannot be fixed by re-filling
+ * and are returned so the caller can re-place the words instead.
+ */
+export function resolveAmbiguities(
+  grid: string[][],
+  placements: Placement[],
+  random: () => number,
+  pickLetter: (random: () => number) => string,
+  fixedCells: Set<string> = new Set(),
+  maxPasses: number = 50
+): { repairs: number; unresolved: GridAmbiguity[] } {
+  let repairs = 0;
+
+  for (let pass = 0; pass < maxPasses; pass++) {
+    const ambiguities = findAmbiguities(grid, placements, BLOCKED_WORDS, fixedCells);
+    const repairable = ambiguities.filter(a => a.fillerCells.length > 0);
+
+    if (repairable.length === 0) {
+      return { repairs, unresolved: ambiguities };
+    }
+
+    for (const ambiguity of repairable) {
+      const [r, c] = ambiguity.fillerCells[Math.floor(random() * ambiguity.fillerCells.length)];
+      const previous = grid[r][c];
+      // A few draws is plenty to land on a different letter
+      for (let i = 0; i < 5 && grid[r][c] === previous; i++) {
+        grid[r][c] = pickLetter(random);
+      }
+      repairs++;
+    }
+  }
+
+  return { repairs, unresolved: findAmbiguities(grid, placements, BLOCKED_WORDS, fixedCells) };
+}
+
+/**
+ * Check whether a word is always ambiguous because another word contains it
+ * (e.g. "ARM" inside "HARMONY") - no layout can fix that
+ */
+export function isInherentlyAmbiguous(word: string, words: string[]): boolean {
+  return words.some(other =>
+    other !== word &&
+    (other.includes(word) || other.split('').reverse().join('').includes(word))
+  );
+}
+
+/**
+ * Get the grid cells covered by a placed word
+ */
+export function getPlacementCells(placement: Placement): Array<[number, number]> {
+  const cells: Array<[number, number]> = [];
+  for (let i = 0; i < placement.word.length; i++) {
+    cells.push([placement.row + i * placement.direction[0], placement.col + i * placement.direction[1]]);
+  }
+  return cells;
+}
+
+function cellSetKey(cells: Array<[number, number]>): string {
+  return cells.map(([r, c]) => `${r}-${c}`).sort().join('|');
+}
@@ -0,0 +1,162 @@
+/**
+ * Hint System for Chronicles of the Kethaneum
+ * Spends hints from a per-mode budget to point the player at an unfound word
+ */
+
+import type { Config } from '../core/config';
+import type { GameState, WordData } from './state';
+
+export type HintKind = 'first-letter' | 'quadrant' | 'direction';
+
+export const HINT_KINDS: HintKind[] = ['first-letter', 'quadrant', 'direction'];
+
+export const HINT_LABELS: Record<HintKind, string> = {
+  'first-letter': 'First Letter',
+  quadrant: 'Quadrant',
+  direction: 'Direction',
+};
+
+export interface ActiveHint {
+  kind: HintKind;
+  /** Grid form of the word the hint points at */
+  word: string;
+  /** Cells to highlight - the first letter, or every cell of a quadrant */
+  cells: Array<[number, number]>;
+  /** Text shown to the player */
+  message: string;
+}
+
+export interface HintResult {
+  hint: ActiveHint | null;
+  newState: GameState;
+}
+
+const QUADRANT_NAMES = [
+  ['top-left', 'top-right'],
+  ['bottom-left', 'bottom-right'],
+];
+
+/**
+ * Get how many hints the player has left in the current mode
+ */
+export function getHintBalance(state: GameState, config: Config): number {
+  const mode = state.gameMode;
+  return state.hintBudget?.[mode] ?? config.hints.startingBudget[mode] ?? 0;
+}
+
+/**
+ * Spend a hint on a random unfound word.
+ * Returns a null hint (and the state unchanged) when the budget is empty
+ * or every word has been found.
+ */
+export function requestHint(
+  state: GameState,
+  kind: HintKind,
+  config: Config,
+  random: () => number = Math.random
+): HintResult {
+  const balance = getHintBalance(state, config);
+  const unfound = state.wordList.filter(word => !word.found);
+  if (balance <= 0 || unfound.length === 0 || state.gameOver) {
+    return { hint: null, newState: state };
+  }
+
+  const word = unfound[Math.floor(random() * unfound.length)];
+  const hint = buildHint(kind, word, state.grid);
+
+  let newState: GameState = {
+    ...state,
+    hintBudget: { ...state.hintBudget, [state.gameMode]: balance - 1 },
+    hintsUsed: state.hintsUsed + 1,
+    activeHint: hint,
+  };
+
+  // Beat the Clock pays for hints in run time
+  if (state.gameMode === 'beat-the-clock' && state.runStartTime) {
+    newState = {
+      ...newState,
+      runStartTime: state.runStartTime - config.hints.beatTheClockPenalty * 1000,
+    };
+  }
+
+  return { hint, newState };
+}
+
+/**
+ * Award hints for a completed puzzle, up to the mode's cap
+ */
+export function awardHints(state: GameState, config: Config): GameState {
+  const balance = getHintBalance(state, config);
+  const awarded = Math.min(config.hints.maxBudget, balance + config.hints.earnedPerPuzzle);
+  if (awarded <= balance) return state;
+
+  return {
+    ...state,
+    hintBudget: { ...state.hintBudget, [state.gameMode]: awarded },
+  };
+}
+
+/**
+ * Remove the hint shown on the grid
+ */
+export function clearHint(state: GameState): GameState {
+  return state.activeHint ? { ...state, activeHint: null } : state;
+}
+
+/**
+ * Work out the cells and message for a hint about one word
+ */
+function buildHint(kind: HintKind, word: WordData, grid: string[][]): ActiveHint {
+  const label = word.displayWord ?? word.word;
+
+  if (kind === 'first-letter') {
+    return {
+      kind,
+      word: word.word,
+      cells: [[word.row, word.col]],
+      message: 'A hidden word begins at the glowing letter.',
+    };
+  }
+
+  if (kind === 'quadrant') {
+    const rows = grid.length;
+    const cols = grid[0]?.length ?? 0;
+    const midRow = Math.ceil(rows / 2);
+    const midCol = Math.ceil(cols / 2);
+    const bottom = word.row >= midRow ? 1 : 0;
+    const right = word.col >= midCol ? 1 : 0;
+
+    const cells: Array<[number, number]> = [];
+    for (let row = bottom ? midRow : 0; row < (bottom ? rows : midRow); row++) {
+      for (let col = right ? midCol : 0; col < (right ? cols : midCol); col++) {
+        cells.push([row, col]);
+      }
+    }
+
+    return {
+      kind,
+      word: word.word,
+      cells,
+      message: `${label} starts in the ${QUADRANT_NAMES[bottom][right]} quarter.`,
+    };
+  }
+
+  return {
+    kind,
+    word: word.word,
+    cells: [],
+    message: `${label} reads ${describeDirection(word.direction)}.`,
+  };
+}
+
+/**
+ * Describe a direction vector in words
+ */
+function describeDirection([dRow, dCol]: [number, number]): string {
+  if (dRow === 0) return dCol > 0 ? 'left to right' : 'right to left';
+  if (dCol === 0) return dRow > 0 ? 'top to bottom' : 'bottom to top';
+
+  const vertical = dRow > 0 ? 'down' : 'up';
+  const horizontal = dCol > 0 ? 'right' : 'left';
+  return `diagonally ${vertical} and to the ${horizontal}`;
+}
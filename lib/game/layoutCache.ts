@@ -0,0 +1,67 @@
+/**
+ * Layout Cache for Chronicles of the Kethaneum
+ * Holds puzzle layouts generated ahead of time so initializePuzzle can
+ * skip generation on the UI thread
+ */
+
+import type { Config } from '../core/config';
+import type { PuzzleData } from './state';
+import type { PuzzleLayout } from './puzzleGenerator';
+import { hashString } from '../utils/mathUtils';
+
+// Only the next puzzle or two is ever pre-generated
+const MAX_CACHED_LAYOUTS = 4;
+
+const layouts = new Map<string, PuzzleLayout>();
+
+/**
+ * Key a layout by everything that determines it
+ */
+export function getLayoutKey(
+  puzzleData: PuzzleData,
+  seed: number,
+  config: Config
+): string {
+  const { title, book, genre, storyPart, words, mask, hiddenMessage } = puzzleData;
+  return [
+    seed,
+    hashString(JSON.stringify([title, book, genre ?? null, storyPart ?? 0, words, mask ?? null, hiddenMessage ?? null])),
+    hashString(JSON.stringify(config)),
+  ].join(':');
+}
+
+/**
+ * Get a copy of a cached layout, or null if it was not pre-generated
+ */
+export function getCachedLayout(key: string): PuzzleLayout | null {
+  const layout = layouts.get(key);
+  // Callers put the layout into game state, so never hand out the cached arrays
+  return layout ? structuredClone(layout) : null;
+}
+
+/**
+ * Store a layout, evicting the oldest when the cache is full
+ */
+export function storeLayout(key: string, layout: PuzzleLayout): void {
+  layouts.delete(key);
+  layouts.set(key, layout);
+  while (layouts.size > MAX_CACHED_LAYOUTS) {
+    const oldest = layouts.keys().next().value;
+    if (oldest === undefined) break;
+    layouts.delete(oldest);
+  }
+}
+
+/**
+ * Check whether a layout is cached
+ */
+export function hasCachedLayout(key: string): boolean {
+  return layouts.has(key);
+}
+
+/**
+ * Drop all cached layouts
+ */
+export function clearLayoutCache(): void {
+  layouts.clear();
+}
@@ -0,0 +1,54 @@
+/**
+ * Letter Frequency for Chronicles of the Kethaneum
+ * Builds weighted filler-letter models from a genre's letter-frequency table
+ * so filler blends in with the hidden words instead of looking uniformly
+ * random. The tables are fixed in config, so a puzzle's grid never depends on
+ * which other puzzles happen to be loaded.
+ */
+
+import type { LetterFrequencyTable } from '../core/config';
+
+export interface LetterModel {
+  letters: string;
+  /** Cumulative weights, one per letter, ending at 1 */
+  cumulative: number[];
+}
+
+// Relative frequency of letters in English text (percent)
+const ENGLISH_FREQUENCIES: LetterFrequencyTable = {
+  A: 8.2, B: 1.5, C: 2.8, D: 4.3, E: 12.7, F: 2.2, G: 2.0, H: 6.1, I: 7.0,
+  J: 0.15, K: 0.77, L: 4.0, M: 2.4, N: 6.7, O: 7.5, P: 1.9, Q: 0.095, R: 6.0,
+  S: 6.3, T: 9.1, U: 2.8, V: 0.98, W: 2.4, X: 0.15, Y: 2.0, Z: 0.074,
+};
+
+const LETTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+/**
+ * Build a letter model from a frequency table. Letters the table leaves out
+ * keep their English frequency; no table gives plain English frequencies.
+ */
+export function buildLetterModel(frequencies: LetterFrequencyTable = ENGLISH_FREQUENCIES): LetterModel {
+  const weights = LETTERS.split('').map(letter =>
+    Math.max(0, frequencies[letter] ?? ENGLISH_FREQUENCIES[letter])
+  );
+
+  const sum = weights.reduce((a, b) => a + b, 0);
+  const cumulative: number[] = [];
+  let running = 0;
+  for (const weight of weights) {
+    running += weight / sum;
+    cumulative.push(running);
+  }
+  cumulative[cumulative.length - 1] = 1;
+
+  return { letters: LETTERS, cumulative };
+}
+
+/**
+ * Draw a letter from the model
+ */
+export function pickWeightedLetter(model: LetterModel, random: () => number): string {
+  const roll = random();
+  const index = model.cumulative.findIndex(bound => roll < bound);
+  return model.letters[index === -1 ? model.letters.length - 1 : index];
+}
@@ -6,6 +6,9 @@
 import type { GameState, WordData, Cell, SessionStats } from './state';
 import type { Config } from '../core/config';
 import { bookRegistry } from '../book/bookRegistry';
+import { EMPTY_RUN_SCORE, startPuzzleScore } from './scoring';
+import { createEmptySessionStats } from './stats';
+import { hashString } from '../utils/mathUtils';
 import { storyProgressionManager } from '@/lib/story/StoryProgressionManager';
 import type { ProgressionMetrics } from '@/lib/story/types';
 
@@ -34,24 +37,25 @@ export function checkForWord(
   const dRow = endRow === startRow ? 0 : (endRow - startRow) / Math.abs(endRow - startRow);
   const dCol = endCol === startCol ? 0 : (endCol - startCol) / Math.abs(endCol - startCol);
 
-  // Check against word list
+  // Letters must run in one unbroken line (a selection across a shaped grid's gap skips cells)
+  const isUnbroken = selectedCells.every((cell, i) =>
+    i === 0 || (cell.row - selectedCells[i - 1].row === dRow && cell.col - selectedCells[i - 1].col === dCol)
+  );
+  if (!isUnbroken) {
+    return { found: false, wordData: null };
+  }
+
+  // Any line that spells an unfound word counts, not only the placement the generator
+  // recorded - a word inside another (ARM in HARMONY) can be found at either spot.
+  // The found word takes the selected placement so the highlight follows the player.
   for (const wordData of wordList) {
     if (wordData.found) continue;
 
-    // Check if word matches in either direction
-    if (
-      (selectedWord === wordData.word &&
-        startRow === wordData.row &&
-        startCol === wordData.col &&
-        dRow === wordData.direction[0] &&
-        dCol === wordData.direction[1]) ||
-      (selectedWord === wordData.word.split('').reverse().join('') &&
-        endRow === wordData.row &&
-        endCol === wordData.col &&
-        dRow === -wordData.direction[0] &&
-        dCol === -wordData.direction[1])
-    ) {
-      return { found: true, wordData };
+    if (selectedWord === wordData.word) {
+      return { found: true, wordData: { ...wordData, row: startRow, col: startCol, direction: [dRow, dCol] } };
+    }
+    if (selectedWord === wordData.word.split('').reverse().join('')) {
+      return { found: true, wordData: { ...wordData, row: endRow, col: endCol, direction: [-dRow || 0, -dCol || 0] } };
     }
   }
 
@@ -66,8 +70,9 @@ export function markWordAsFound(
   wordData: WordData
 ): { newState: GameState; allWordsFound: boolean } {
   // Mark word as found
-  const newWordList = state.wordList.map(word => 
-    word === wordData ? { ...word, found: true } : word
+  // Grid forms are unique within a puzzle, and the found placement replaces the recorded one
+  const newWordList = state.wordList.map(word =>
+    word.word === wordData.word ? { ...wordData, found: true } : word
   );
 
   const newState: GameState = {
@@ -106,7 +111,8 @@ export function endGame(
     timer: null,
   };
 
-  if (isWin) {
+  // Calm Mode, the Daily Archive and Practice Mode track their own progress and never advance the story
+  if (isWin && newState.gameMode !== 'calm' && newState.gameMode !== 'daily' && newState.gameMode !== 'practice') {
     // Clear any saved uncompleted puzzle since this one is now complete
     if (newState.lastUncompletedPuzzle &&
       newState.lastUncompletedPuzzle.book === newState.currentBook &&
@@ -271,7 +277,8 @@ export function startTimer(
   }
 
   // Story Mode: Don't decrement timer, always show full time (decorative)
-  if (state.gameMode === 'story') {
+  // Calm Mode, the Daily Archive and Practice Mode are untimed as well
+  if (state.gameMode === 'story' || state.gameMode === 'calm' || state.gameMode === 'daily' || state.gameMode === 'practice') {
     const timeRemaining = config.timeLimit;
     // Still call tick callback to update UI, but don't decrement
     if (onTick) {
@@ -343,8 +350,12 @@ export function resetCurrentPuzzle(
     startCell: null,
     currentCell: null,
     timeRemaining: config.timeLimit,
+    puzzleTimeLimit: config.timeLimit,
     paused: true,
     gameOver: false,
+    hintsUsed: 0,
+    activeHint: null,
+    selectionLog: [],
   };
 
   return { newState };
@@ -395,6 +406,43 @@ export function pauseGame(state: GameState): GameState {
   };
 }
 
+/**
+ * Restart the puzzle on screen on the same grid. Every word goes back to
+ * unfound and the per-puzzle selections, hints, score and clock are reset the
+ * way initializePuzzle leaves them. Untimed modes keep their clock as it is.
+ */
+export function restartPuzzle(
+  state: GameState,
+  config: Config
+): { newState: GameState } {
+  if (state.timer) {
+    clearInterval(state.timer);
+  }
+
+  const untimed = state.gameMode === 'story' || state.gameMode === 'calm' || state.gameMode === 'daily' || state.gameMode === 'practice';
+  // Points from the abandoned attempt do not count towards the run
+  const runScore = { ...state.runScore, total: state.runScore.total - state.runScore.puzzlePoints };
+
+  return {
+    newState: {
+      ...state,
+      wordList: state.wordList.map(word => ({ ...word, found: false })),
+      selectedCells: [],
+      startCell: null,
+      currentCell: null,
+      timer: null,
+      timeRemaining: untimed ? state.timeRemaining : state.puzzleTimeLimit || config.timeLimit,
+      paused: false,
+      gameOver: false,
+      hintsUsed: 0,
+      activeHint: null,
+      selectionLog: [],
+      runScore: startPuzzleScore(runScore),
+      puzzleStartedAt: Date.now(),
+    },
+  };
+}
+
 /**
  * Start a Beat the Clock run (fixed 5 minutes)
  */
@@ -407,6 +455,21 @@ export function startBeatTheClockRun(state: GameState): GameState {
     runStartTime,
     runDuration,
     timeRemaining: runDuration, // Initialize puzzle timer with run duration
+    runScore: EMPTY_RUN_SCORE,
+    runPuzzles: [],
+  };
+}
+
+/**
+ * Start an Endless run - the streak and session stats start over, with a new seed for the puzzle draws
+ */
+export function startEndlessRun(state: GameState, seed: number = hashString(`endless:${Date.now()}`)): GameState {
+  return {
+    ...state,
+    endlessStreak: 0,
+    endlessSeed: seed,
+    sessionStats: null,
+    runStartTime: null,
   };
 }
 
@@ -421,13 +484,7 @@ export function endBeatTheClockRun(state: GameState): { newState: GameState; ses
     : 0;
   
   // Get current session stats or create new
-  const sessionStats = state.sessionStats || {
-    puzzlesCompleted: 0,
-    totalTime: 0,
-    averageTime: 0,
-    totalWordsFound: 0,
-    puzzles: [],
-  };
+  const sessionStats = state.sessionStats || createEmptySessionStats();
   
   const newState: GameState = {
     ...state,
@@ -0,0 +1,253 @@
+/**
+ * Placement Engine for Chronicles of the Kethaneum
+ * Backtracking constraint solver that places words on a word search grid.
+ * Aims for a target number of letter overlaps and scores the finished layout.
+ */
+
+import { applyMask } from './gridMask';
+
+export interface WordPlacement {
+  word: string;
+  row: number;
+  col: number;
+  direction: [number, number];
+}
+
+export interface PlacementOptions {
+  gridSize: number;
+  directions: number[][];
+  random: () => number;
+  /** Share of words that should cross another word (0-1) */
+  targetOverlapRatio: number;
+  /** Maximum candidate placements tried before the search gives up */
+  maxSteps: number;
+  /** Maximum candidates considered per word at each level of the search */
+  maxCandidatesPerWord: number;
+  /** Open-cell map for shaped grids (true = open). Void cells never receive letters */
+  mask?: boolean[][] | null;
+}
+
+export interface PlacementResult {
+  success: boolean;
+  grid: string[][];
+  placements: WordPlacement[];
+  /** Words left out of the best layout found (empty on success) */
+  unplacedWords: string[];
+  /** Number of grid cells shared by two or more words */
+  overlaps: number;
+  targetOverlaps: number;
+  /** Number of placements undone while searching */
+  backtracks: number;
+  /** Layout quality from 0 (sparse, repetitive) to 100 (handcrafted feel) */
+  qualityScore: number;
+}
+
+interface Candidate {
+  row: number;
+  col: number;
+  dRow: number;
+  dCol: number;
+  overlap: number;
+}
+
+/**
+ * Place all words on an empty grid, backtracking over earlier words when a
+ * later word cannot fit. Deterministic for a given random sequence.
+ */
+export function placeWords(words: string[], options: PlacementOptions): PlacementResult {
+  const { gridSize, directions, random } = options;
+  const grid: string[][] = Array(gridSize).fill(null).map(() => Array(gridSize).fill(''));
+  applyMask(grid, options.mask ?? null);
+  const targetOverlaps = Math.round(words.length * options.targetOverlapRatio);
+
+  // Longest words first - they are the most constrained
+  const order = shuffle([...words], random).sort((a, b) => b.length - a.length);
+
+  const placements: WordPlacement[] = [];
+  let overlaps = 0;
+  let steps = 0;
+  let backtracks = 0;
+  let best: WordPlacement[] = [];
+  let bestGrid: string[][] = grid.map(row => [...row]);
+
+  const solve = (index: number): boolean => {
+    if (index > best.length) {
+      best = [...placements];
+      bestGrid = grid.map(row => [...row]);
+    }
+    if (index === order.length) return true;
+
+    const word = order[index];
+    const needOverlap = overlaps < targetOverlaps;
+    const candidates = findCandidates(grid, word, directions, gridSize, random)
+      // Prefer crossings until the target is met, then prefer open space
+      .sort((a, b) => needOverlap
+        ? Math.min(b.overlap, 2) - Math.min(a.overlap, 2)
+        : a.overlap - b.overlap)
+      .slice(0, options.maxCandidatesPerWord);
+
+    for (const candidate of candidates) {
+      if (steps >= options.maxSteps) return false;
+      steps++;
+
+      const filled = writeWord(grid, word, candidate);
+      placements.push({
+        word,
+        row: candidate.row,
+        col: candidate.col,
+        direction: [candidate.dRow, candidate.dCol],
+      });
+      overlaps += candidate.overlap;
+
+      if (solve(index + 1)) return true;
+
+      // Undo and try the next candidate
+      placements.pop();
+      overlaps -= candidate.overlap;
+      for (const [r, c] of filled) {
+        grid[r][c] = '';
+      }
+      backtracks++;
+    }
+
+    return false;
+  };
+
+  const success = solve(0);
+  const finalPlacements = success ? placements : best;
+  const finalGrid = success ? grid : bestGrid;
+  const placedWords = new Set(finalPlacements.map(p => p.word));
+  const finalOverlaps = countOverlaps(finalPlacements);
+
+  return {
+    success,
+    grid: finalGrid,
+    placements: finalPlacements,
+    unplacedWords: order.filter(word => !placedWords.has(word)),
+    overlaps: finalOverlaps,
+    targetOverlaps,
+    backtracks,
+    qualityScore: scorePlacement(finalPlacements, finalOverlaps, targetOverlaps, directions.length, gridSize),
+  };
+}
+
+/**
+ * Find every position and direction where a word fits, with its overlap count
+ */
+function findCandidates(
+  grid: string[][],
+  word: string,
+  directions: number[][],
+  gridSize: number,
+  random: () => number
+): Candidate[] {
+  const candidates: Candidate[] = [];
+
+  for (let row = 0; row < gridSize; row++) {
+    for (let col = 0; col < gridSize; col++) {
+      for (const [dRow, dCol] of directions) {
+        const endRow = row + (word.length - 1) * dRow;
+        const endCol = col + (word.length - 1) * dCol;
+        if (endRow < 0 || endRow >= gridSize || endCol < 0 || endCol >= gridSize) continue;
+
+        let overlap = 0;
+        let fits = true;
+        for (let i = 0; i < word.length; i++) {
+          const cell = grid[row + i * dRow][col + i * dCol];
+          if (cell === '') continue;
+          if (cell !== word[i]) {
+            fits = false;
+            break;
+          }
+          overlap++;
+        }
+
+        // A word hidden entirely inside another word is never a fair placement
+        if (fits && overlap < word.length) {
+          candidates.push({ row, col, dRow, dCol, overlap });
+        }
+      }
+    }
+  }
+
+  return shuffle(candidates, random);
+}
+
+/**
+ * Write a word into the grid and return the cells that were empty before
+ */
+function writeWord(grid: string[][], word: string, candidate: Candidate): Array<[number, number]> {
+  const filled: Array<[number, number]> = [];
+  for (let i = 0; i < word.length; i++) {
+    const r = candidate.row + i * candidate.dRow;
+    const c = candidate.col + i * candidate.dCol;
+    if (grid[r][c] === '') {
+      grid[r][c] = word[i];
+      filled.push([r, c]);
+    }
+  }
+  return filled;
+}
+
+/**
+ * Count grid cells used by more than one placed word
+ */
+export function countOverlaps(placements: WordPlacement[]): number {
+  const usage = new Map<string, number>();
+  for (const { word, row, col, direction } of placements) {
+    for (let i = 0; i < word.length; i++) {
+      const key = `${row + i * direction[0]}-${col + i * direction[1]}`;
+      usage.set(key, (usage.get(key) || 0) + 1);
+    }
+  }
+
+  let overlaps = 0;
+  for (const count of usage.values()) {
+    if (count > 1) overlaps += count - 1;
+  }
+  return overlaps;
+}
+
+/**
+ * Score a layout by how close it is to the overlap target, how many
+ * directions it uses and how evenly it covers the grid
+ */
+function scorePlacement(
+  placements: WordPlacement[],
+  overlaps: number,
+  targetOverlaps: number,
+  directionCount: number,
+  gridSize: number
+): number {
+  if (placements.length === 0) return 0;
+
+  const overlapScore = targetOverlaps > 0
+    ? Math.max(0, 1 - Math.abs(overlaps - targetOverlaps) / targetOverlaps)
+    : (overlaps === 0 ? 1 : 0.5);
+
+  const usedDirections = new Set(placements.map(p => p.direction.join(','))).size;
+  const varietyScore = usedDirections / Math.max(1, Math.min(directionCount, placements.length));
+
+  const rows = new Set<number>();
+  const cols = new Set<number>();
+  for (const { word, row, col, direction } of placements) {
+    for (let i = 0; i < word.length; i++) {
+      rows.add(row + i * direction[0]);
+      cols.add(col + i * direction[1]);
+    }
+  }
+  const spreadScore = (rows.size + cols.size) / (2 * gridSize);
+
+  return Math.round(100 * (0.4 * overlapScore + 0.3 * varietyScore + 0.3 * spreadScore));
+}
+
+/**
+ * Fisher-Yates shuffle driven by the supplied random source
+ */
+function shuffle<T>(items: T[], random: () => number): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+}
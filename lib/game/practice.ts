@@ -0,0 +1,209 @@
+/**
+ * Practice Mode for Chronicles of the Kethaneum
+ * Players write their own puzzles - a title, a word list, a difficulty and the
+ * reading directions - and play them on generated grids. Custom puzzles are kept
+ * in their own storage key, apart from story progress, so starting a new game
+ * does not delete them.
+ */
+
+import type { CustomPuzzle, CustomPuzzleDifficulty, GameState, PuzzleData } from './state';
+import type { Config } from '../core/config';
+import { initializePuzzleAsync } from './generationClient';
+import { validatePuzzleContent, type ValidationError } from './puzzleValidation';
+import { createWordForms } from './wordNormalizer';
+import { hashString } from '../utils/mathUtils';
+
+const CUSTOM_PUZZLES_KEY = 'kethaneumCustomPuzzles';
+
+// Genre given to custom puzzles; no content uses it, so filler letters follow the puzzle's own words
+export const PRACTICE_GENRE = 'practice';
+
+export const PRACTICE_DIFFICULTIES: CustomPuzzleDifficulty[] = ['easy', 'medium', 'hard'];
+
+/**
+ * Split the word list a player typed into words, one per line or comma-separated
+ */
+export function parseWordList(text: string): string[] {
+  return text
+    .split(/[\n,]/)
+    .map(word => word.trim())
+    .filter(word => word.length > 0);
+}
+
+/**
+ * Check a custom puzzle with the genre-builder rules, plus what it takes to
+ * place its words on a grid of the chosen difficulty
+ */
+export function validateCustomPuzzle(
+  puzzle: Pick<CustomPuzzle, 'title' | 'words' | 'difficulty' | 'directions'>,
+  config: Config
+): ValidationError[] {
+  const errors = validatePuzzleContent(puzzle);
+
+  if (!PRACTICE_DIFFICULTIES.includes(puzzle.difficulty)) {
+    errors.push({ field: 'difficulty', message: 'Choose easy, medium or hard' });
+  }
+  if (puzzle.directions.length === 0) {
+    errors.push({ field: 'directions', message: 'Choose at least one direction' });
+  }
+
+  const forms = createWordForms(puzzle.words, config.generation);
+  if (puzzle.words.length > 0 && forms.length < puzzle.words.length) {
+    errors.push({ field: 'words', message: 'Words must contain letters and appear only once' });
+  }
+
+  const gridSize = config.difficultyLevels[puzzle.difficulty]?.gridSize ?? config.gridSize;
+  const maxLength = Math.min(config.maxWordLength, gridSize);
+  const outOfRange = forms.filter(form => form.grid.length < config.minWordLength || form.grid.length > maxLength);
+  if (outOfRange.length > 0) {
+    errors.push({
+      field: 'words',
+      message: `Words must be ${config.minWordLength}-${maxLength} letters long: ${outOfRange.map(form => form.display).join(', ')}`,
+    });
+  }
+
+  const maxWords = config.difficultyLevels[puzzle.difficulty]?.maxWords ?? config.maxWords;
+  if (forms.length > maxWords) {
+    errors.push({ field: 'words', message: `A ${puzzle.difficulty} puzzle holds at most ${maxWords} words` });
+  }
+
+  return errors;
+}
+
+/**
+ * Build a custom puzzle from the player's input
+ */
+export function createCustomPuzzle(
+  fields: Pick<CustomPuzzle, 'title' | 'words' | 'difficulty' | 'directions'>,
+  id: string = `custom-${Date.now().toString(36)}`
+): CustomPuzzle {
+  return {
+    id,
+    title: fields.title.trim(),
+    words: fields.words,
+    difficulty: fields.difficulty,
+    directions: fields.directions,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Load the player's custom puzzles
+ */
+export function loadCustomPuzzles(): CustomPuzzle[] {
+  if (typeof localStorage === 'undefined') return [];
+  try {
+    const saved = localStorage.getItem(CUSTOM_PUZZLES_KEY);
+    const puzzles = saved ? JSON.parse(saved) : [];
+    return Array.isArray(puzzles)
+      ? puzzles.filter((puzzle): puzzle is CustomPuzzle =>
+          typeof puzzle?.id === 'string' && typeof puzzle.title === 'string' &&
+          Array.isArray(puzzle.words) && Array.isArray(puzzle.directions))
+      : [];
+  } catch (error) {
+    console.error('[practice.loadCustomPuzzles] Failed to load custom puzzles:', error);
+    return [];
+  }
+}
+
+/**
+ * Save the player's custom puzzles
+ * @returns Whether they were saved
+ */
+export function saveCustomPuzzles(puzzles: CustomPuzzle[]): boolean {
+  if (typeof localStorage === 'undefined') return false;
+  try {
+    localStorage.setItem(CUSTOM_PUZZLES_KEY, JSON.stringify(puzzles));
+    return true;
+  } catch (error) {
+    console.error('[practice.saveCustomPuzzles] Failed to save custom puzzles:', error);
+    return false;
+  }
+}
+
+/**
+ * Get the puzzle data the generator works from
+ */
+export function getCustomPuzzleData(puzzle: CustomPuzzle): PuzzleData {
+  return {
+    title: puzzle.title,
+    book: puzzle.title,
+    words: puzzle.words,
+    genre: PRACTICE_GENRE,
+    storyPart: 0,
+  };
+}
+
+/**
+ * Get the generation config for a custom puzzle's difficulty and directions
+ */
+export function getPracticeConfig(puzzle: CustomPuzzle, config: Config): Config {
+  return {
+    ...config,
+    ...config.difficultyLevels[puzzle.difficulty],
+    ...(puzzle.gridSize ? { gridSize: puzzle.gridSize } : {}),
+    directions: puzzle.directions,
+  };
+}
+
+/**
+ * Get the grid seed for a custom puzzle. Editing the words gives a new grid.
+ */
+export function getCustomPuzzleSeed(puzzle: CustomPuzzle): number {
+  return puzzle.seed ?? hashString(`practice:${puzzle.title}|${puzzle.words.join('|')}`);
+}
+
+/**
+ * Load the custom puzzle selected in state.practicePuzzleId.
+ * Story progress, discovered books and completedPuzzlesByGenre are left untouched.
+ */
+export async function loadPracticePuzzle(
+  state: GameState,
+  config: Config,
+  puzzles: CustomPuzzle[] = loadCustomPuzzles()
+): Promise<{ success: boolean; newState: GameState }> {
+  try {
+    if (state.timer) {
+      clearInterval(state.timer);
+    }
+
+    const puzzle = puzzles.find(p => p.id === state.practicePuzzleId);
+    if (!puzzle) {
+      throw new Error(`Custom puzzle not found: ${state.practicePuzzleId}`);
+    }
+
+    // Custom puzzles are not books: the generator's book tracking gets throwaway copies
+    const updatedState: GameState = {
+      ...state,
+      // Custom puzzles are not part of any genre's puzzle list
+      currentPuzzleIndex: -1,
+      bookPartsMap: {},
+      discoveredBooks: new Set(),
+      gameOver: false,
+    };
+
+    const initResult = await initializePuzzleAsync(
+      getCustomPuzzleData(puzzle),
+      getPracticeConfig(puzzle, config),
+      updatedState,
+      getCustomPuzzleSeed(puzzle)
+    );
+
+    if (!initResult.success) {
+      throw new Error('Puzzle initialization failed');
+    }
+
+    return {
+      success: true,
+      newState: {
+        ...initResult.newState,
+        bookPartsMap: state.bookPartsMap,
+        discoveredBooks: state.discoveredBooks,
+        completedBooks: state.completedBooks,
+      },
+    };
+  } catch (error) {
+    console.error('[practice.loadPracticePuzzle] Error loading custom puzzle:', error);
+    return { success: false, newState: state };
+  }
+}
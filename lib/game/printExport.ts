@@ -0,0 +1,180 @@
+/**
+ * Printable puzzle export for Chronicles of the Kethaneum
+ * Renders the grid and word list from game state as a print-ready SVG page,
+ * with an optional story excerpt, plus an answer-key page with each word outlined.
+ */
+
+import type { WordData } from './state';
+import { isVoidCell } from './gridMask';
+
+export interface PrintablePuzzle {
+  title: string;
+  grid: string[][];
+  wordList: WordData[];
+  book?: string;
+  storyExcerpt?: string;
+}
+
+export interface PrintOptions {
+  includeExcerpt: boolean;
+  includeAnswerKey: boolean;
+}
+
+// Page layout in SVG units; the width/height ratio matches a letter or A4 sheet closely enough
+const PAGE_WIDTH = 680;
+const MARGIN = 40;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const MAX_CELL_SIZE = 44;
+const WORD_COLUMNS = 3;
+const WORD_LINE_HEIGHT = 22;
+const EXCERPT_FONT_SIZE = 13;
+const EXCERPT_LINE_HEIGHT = 19;
+
+const TITLE_FONT = 'Georgia, \'Times New Roman\', serif';
+const GRID_FONT = '\'Courier New\', Courier, monospace';
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Break text into lines of at most maxChars characters, on word boundaries
+ */
+function wrapText(text: string, maxChars: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (line && line.length + 1 + word.length > maxChars) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+/**
+ * Outline one placed word with a rounded capsule from its first to its last letter
+ */
+function renderWordOutline(word: WordData, originX: number, originY: number, cellSize: number): string {
+  const [dRow, dCol] = word.direction;
+  const steps = word.word.length - 1;
+  const startX = originX + (word.col + 0.5) * cellSize;
+  const startY = originY + (word.row + 0.5) * cellSize;
+  const endX = startX + dCol * steps * cellSize;
+  const endY = startY + dRow * steps * cellSize;
+
+  const length = Math.hypot(endX - startX, endY - startY);
+  const height = cellSize * 0.78;
+  const angle = (Math.atan2(endY - startY, endX - startX) * 180) / Math.PI;
+
+  return `<rect x="${(-length / 2 - height / 2).toFixed(2)}" y="${(-height / 2).toFixed(2)}" ` +
+    `width="${(length + height).toFixed(2)}" height="${height.toFixed(2)}" rx="${(height / 2).toFixed(2)}" ` +
+    `transform="translate(${((startX + endX) / 2).toFixed(2)} ${((startY + endY) / 2).toFixed(2)}) rotate(${angle.toFixed(2)})" ` +
+    'fill="none" stroke="#1f2937" stroke-width="2"/>';
+}
+
+/**
+ * Render one printable page as a standalone SVG document.
+ * The answer key outlines every word and leaves out the story excerpt.
+ */
+export function renderPuzzleSvg(puzzle: PrintablePuzzle, options: { answerKey?: boolean; includeExcerpt?: boolean } = {}): string {
+  const parts: string[] = [];
+  let y = MARGIN;
+
+  // Title
+  const title = options.answerKey ? `${puzzle.title} - Answer Key` : puzzle.title;
+  y += 26;
+  parts.push(`<text x="${PAGE_WIDTH / 2}" y="${y}" text-anchor="middle" font-family="${TITLE_FONT}" font-size="26" font-weight="bold">${escapeXml(title)}</text>`);
+  if (puzzle.book && puzzle.book !== puzzle.title) {
+    y += 22;
+    parts.push(`<text x="${PAGE_WIDTH / 2}" y="${y}" text-anchor="middle" font-family="${TITLE_FONT}" font-size="14" font-style="italic">From "${escapeXml(puzzle.book)}"</text>`);
+  }
+  y += 24;
+
+  // Grid
+  const rows = puzzle.grid.length;
+  const cols = Math.max(0, ...puzzle.grid.map(row => row.length));
+  const cellSize = Math.min(MAX_CELL_SIZE, CONTENT_WIDTH / Math.max(rows, cols, 1));
+  const originX = (PAGE_WIDTH - cellSize * cols) / 2;
+  const originY = y;
+
+  parts.push(`<rect x="${(originX - 6).toFixed(2)}" y="${(originY - 6).toFixed(2)}" width="${(cellSize * cols + 12).toFixed(2)}" height="${(cellSize * rows + 12).toFixed(2)}" rx="6" fill="none" stroke="#9ca3af" stroke-width="1"/>`);
+  if (options.answerKey) {
+    puzzle.wordList.forEach(word => parts.push(renderWordOutline(word, originX, originY, cellSize)));
+  }
+  puzzle.grid.forEach((row, rowIndex) => {
+    row.forEach((letter, colIndex) => {
+      if (isVoidCell(letter)) return;
+      const x = originX + (colIndex + 0.5) * cellSize;
+      const cy = originY + (rowIndex + 0.5) * cellSize;
+      parts.push(`<text x="${x.toFixed(2)}" y="${cy.toFixed(2)}" text-anchor="middle" dominant-baseline="central" font-family="${GRID_FONT}" font-size="${(cellSize * 0.55).toFixed(2)}" font-weight="bold">${escapeXml(letter)}</text>`);
+    });
+  });
+  y = originY + cellSize * rows + 36;
+
+  // Word list, in columns and alphabetical order
+  const words = puzzle.wordList
+    .map(word => word.displayWord ?? word.word)
+    .sort((a, b) => a.localeCompare(b));
+  const perColumn = Math.ceil(words.length / WORD_COLUMNS);
+  const columnWidth = CONTENT_WIDTH / WORD_COLUMNS;
+  parts.push(`<text x="${MARGIN}" y="${y}" font-family="${TITLE_FONT}" font-size="16" font-weight="bold">Find These Words:</text>`);
+  y += 8;
+  words.forEach((word, index) => {
+    const x = MARGIN + Math.floor(index / perColumn) * columnWidth;
+    const wordY = y + ((index % perColumn) + 1) * WORD_LINE_HEIGHT;
+    parts.push(`<text x="${x.toFixed(2)}" y="${wordY}" font-family="${GRID_FONT}" font-size="14">${escapeXml(word)}</text>`);
+  });
+  y += perColumn * WORD_LINE_HEIGHT + 16;
+
+  // Story excerpt
+  if (options.includeExcerpt && !options.answerKey && puzzle.storyExcerpt?.trim()) {
+    // Serif text averages roughly half its font size per character
+    const lines = wrapText(puzzle.storyExcerpt, Math.floor(CONTENT_WIDTH / (EXCERPT_FONT_SIZE * 0.5)));
+    y += 12;
+    lines.forEach(line => {
+      y += EXCERPT_LINE_HEIGHT;
+      parts.push(`<text x="${MARGIN}" y="${y}" font-family="${TITLE_FONT}" font-size="${EXCERPT_FONT_SIZE}" font-style="italic">${escapeXml(line)}</text>`);
+    });
+    y += 8;
+  }
+
+  const height = Math.ceil(y + MARGIN);
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${PAGE_WIDTH}" height="${height}" viewBox="0 0 ${PAGE_WIDTH} ${height}">` +
+    `<rect width="100%" height="100%" fill="#ffffff"/><g fill="#111827">${parts.join('')}</g></svg>`;
+}
+
+/**
+ * Render a print-friendly HTML document: the puzzle page, then the answer key on its own sheet
+ */
+export function renderPrintDocument(puzzle: PrintablePuzzle, options: PrintOptions): string {
+  const pages = [renderPuzzleSvg(puzzle, { includeExcerpt: options.includeExcerpt })];
+  if (options.includeAnswerKey) {
+    pages.push(renderPuzzleSvg(puzzle, { answerKey: true }));
+  }
+
+  return `<!DOCTYPE html><html><head><meta charset="utf-8"><title>${escapeXml(puzzle.title)}</title><style>
+@page { margin: 12mm; }
+html, body { margin: 0; background: #ffffff; }
+.page { display: flex; justify-content: center; break-after: page; page-break-after: always; }
+.page:last-child { break-after: auto; page-break-after: auto; }
+.page svg { width: 100%; height: auto; max-height: 100vh; }
+@media screen { .page { padding: 1rem 0; border-bottom: 1px dashed #9ca3af; } }
+</style></head><body>${pages.map(page => `<div class="page">${page}</div>`).join('')}</body></html>`;
+}
+
+/**
+ * Get a download file name for a puzzle's SVG
+ */
+export function getPrintFileName(title: string, answerKey = false): string {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'puzzle';
+  return `kethaneum-${slug}${answerKey ? '-answer-key' : ''}.svg`;
+}
@@ -3,10 +3,19 @@
  * This module handles creating word search puzzles and placing words
  */
 
-import { createSeededRandom } from '../utils/mathUtils';
-import type { Config } from '../core/config';
+import { createSeededRandom, hashString } from '../utils/mathUtils';
+import type { Config, FallbackStrategy } from '../core/config';
 import type { GameState, WordData, PuzzleData } from './state';
+import { initializeGameState } from './state';
+import { placeWords, type PlacementOptions } from './placementEngine';
+import { resolveAmbiguities, isInherentlyAmbiguous } from './gridScanner';
+import { buildLetterModel, pickWeightedLetter, type LetterModel } from './letterFrequency';
+import { getMaskGridSize, isFixedSizeMask, isVoidCell, resolveMask, type PuzzleMask } from './gridMask';
+import { analyzeGrid, isScoreInRange, type GridAnalysis } from './gridAnalyzer';
+import { createWordForms, normalizeGridWord, type WordForms, type WordNormalizationOptions } from './wordNormalizer';
+import { getCachedLayout, getLayoutKey } from './layoutCache';
 import { bookRegistry } from '../book/bookRegistry';
+import { startPuzzleScore } from './scoring';
 
 /**
  * Infer all known parts for a book from loaded puzzle data.
@@ -30,114 +39,427 @@ function inferPartsFromPuzzles(
   return Array.from(parts).sort((a, b) => a - b);
 }
 
+/**
+ * All eight word directions, also used as the alternate direction set
+ */
+export const ALL_DIRECTIONS: number[][] = [
+  [0, 1],   // right
+  [1, 0],   // down
+  [1, 1],   // diagonal down-right
+  [0, -1],  // left
+  [-1, 0],  // up
+  [-1, -1], // diagonal up-left
+  [1, -1],  // diagonal down-left
+  [-1, 1]   // diagonal up-right
+];
+
+/**
+ * Options controlling a single grid generation
+ */
+export interface GenerateGridOptions {
+  /** Seed for the layout and filler letters. Defaults to a hash of the word list */
+  seed?: number;
+  /** Filler letter frequencies, usually built from the puzzle's own text. Defaults to English */
+  letterModel?: LetterModel;
+  /** Shape for non-rectangular grids. ASCII masks fix the grid size */
+  mask?: PuzzleMask;
+  /** Phrase to spell, in reading order, with cells left over after placement */
+  hiddenMessage?: string;
+}
+
+/**
+ * A phrase spelled by leftover cells, revealed once every word is found
+ */
+export interface HiddenMessage {
+  /** The phrase as written by the author, for display */
+  phrase: string;
+  /** Cells holding the phrase's letters, in reading order */
+  cells: Array<[number, number]>;
+}
+
+/**
+ * A finished grid with its placed words and how it was generated
+ */
+export interface GeneratedGrid {
+  grid: string[][];
+  wordList: WordData[];
+  seed: number;
+  report: GenerationReport;
+  hiddenMessage: HiddenMessage | null;
+}
+
+/**
+ * A puzzle's grid with its word list in puzzle order
+ */
+export type PuzzleLayout = Omit<GeneratedGrid, 'seed'>;
+
+/**
+ * Quality summary reported by the placement engine
+ */
+export interface PlacementQuality {
+  /** 0-100, higher feels more handcrafted */
+  score: number;
+  overlaps: number;
+  targetOverlaps: number;
+  backtracks: number;
+}
+
+/**
+ * A word left out of the grid and why
+ */
+export interface DroppedWord {
+  word: string;
+  reason: 'too-long' | 'no-space';
+}
+
+/**
+ * Structured outcome of a grid generation, including any fallbacks applied
+ */
+export interface GenerationReport {
+  seed: number;
+  requestedGridSize: number;
+  gridSize: number;
+  requestedWords: string[];
+  placedWords: string[];
+  droppedWords: DroppedWord[];
+  directions: number[][];
+  fallbacksApplied: FallbackStrategy[];
+  quality: PlacementQuality;
+  /** Filler cells seeded with fragments of the hidden words */
+  decoyCells: number;
+  /** Filler cells re-rolled to remove accidental duplicate or blocked words */
+  ambiguityRepairs: number;
+  /** Words that still appear more than once, e.g. "ARM" inside "HARMONY" */
+  unresolvedAmbiguities: string[];
+  /** Difficulty analysis of the finished grid */
+  analysis: GridAnalysis;
+  /** Extra grids generated by the auto-tuner (0 when it is off or the first grid fit) */
+  tuneAttempts: number;
+  /** True when the puzzle's hidden message had no room and was left out */
+  hiddenMessageDropped: boolean;
+}
+
+// How many fresh layouts to try when placed letters alone spell a duplicate
+const MAX_AMBIGUITY_REPLACEMENTS = 5;
+
+// Seed offset between auto-tune attempts, clear of the fallback retry offsets
+const TUNE_SEED_STRIDE = 1000;
+
+// How far the auto-tuner moves decoy density per attempt
+const TUNE_DECOY_STEP = 0.15;
+
+// Reading directions kept when the auto-tuner needs an easier grid
+const FORWARD_DIRECTIONS = ['0,1', '1,0', '1,1'];
+
+/**
+ * Derive the default seed for a puzzle from its title, book and story part.
+ * The same puzzle always lays out the same way unless a seed is given explicitly.
+ */
+export function derivePuzzleSeed(puzzle: Pick<PuzzleData, 'title' | 'book' | 'storyPart'>): number {
+  return hashString(`Kethaneum|${puzzle.title}|${puzzle.book}|${puzzle.storyPart ?? 0}`);
+}
+
 /**
  * Generate word search grid
+ *
+ * When the words cannot all be placed, the fallback strategies from
+ * config.generation are applied in order (alternate directions, grow the
+ * grid, drop the lowest-priority words). Words are prioritised by their
+ * position in the input list. Throws only if every fallback is exhausted.
+ *
+ * With config.generation.autoTune on, grids are re-rolled (nudging decoy
+ * density and, for easier grids, reading directions) until the analyzer
+ * score lands in config.scoreRange. The grid closest to the range wins.
  */
 export function generateGrid(
   words: string[],
   config: Config,
-  state: GameState
-): { grid: string[][]; wordList: WordData[] } {
-  // Create a seeded random generator
-  const projectSeed = "Kethaneum".split('')
-    .reduce((acc, char) => acc + char.charCodeAt(0), 0);
-  const seededRandom = createSeededRandom(projectSeed + Date.now() % 10000);
+  state: GameState,
+  options: GenerateGridOptions = {}
+): GeneratedGrid {
+  // Identical inputs always give an identical grid
+  const seed = options.seed ?? hashString(words.join('|').toUpperCase());
+  let best = buildGrid(words, config, state, seed, options);
+
+  const range = config.scoreRange;
+  if (!config.generation?.autoTune || !range || isScoreInRange(best.report.analysis.score, range)) {
+    return best;
+  }
+
+  const distance = (score: number) => Math.max(0, range[0] - score, score - range[1]);
+  let tunedConfig = config;
+  let tuneAttempts = 0;
+
+  while (tuneAttempts < config.generation.maxTuneAttempts && !isScoreInRange(best.report.analysis.score, range)) {
+    tuneAttempts++;
+    const tooHard = best.report.analysis.score > range[1];
+    const decoyDensity = Math.min(1, Math.max(0,
+      (tunedConfig.decoyDensity ?? 0) + (tooHard ? -TUNE_DECOY_STEP : TUNE_DECOY_STEP)
+    ));
+    // Only ever narrow the configured directions, never add new ones
+    const forward = tunedConfig.directions.filter(d => FORWARD_DIRECTIONS.includes(d.join(',')));
+    const directions = tooHard && tuneAttempts > 1 && forward.length > 0 ? forward : tunedConfig.directions;
+    tunedConfig = { ...tunedConfig, decoyDensity, directions };
+
+    try {
+      const candidate = buildGrid(words, tunedConfig, state, seed + tuneAttempts * TUNE_SEED_STRIDE, options);
+      if (distance(candidate.report.analysis.score) < distance(best.report.analysis.score)) {
+        best = candidate;
+      }
+    } catch {
+      // A tuned variant that cannot place the words is simply skipped
+    }
+  }
+
+  // Report the caller's seed - the tuned layout is reproducible from it
+  return { ...best, seed, report: { ...best.report, seed, tuneAttempts } };
+}
+
+/**
+ * Generate a single grid for a seed, applying fallbacks as needed
+ */
+function buildGrid(
+  words: string[],
+  config: Config,
+  state: GameState,
+  seed: number,
+  options: GenerateGridOptions
+): GeneratedGrid {
+  const generation = config.generation;
+  const strategies = generation?.fallbackStrategies ?? [];
+  const maxGridSize = generation?.maxGridSize ?? 14;
+  const minWords = generation?.minWords ?? 3;
+  const decoyDensity = config.decoyDensity ?? 0;
+  const letterModel = options.letterModel ?? buildLetterModel();
+  const pickLetter = (random: () => number) => pickWeightedLetter(letterModel, random);
+  const messageLetters = normalizeHiddenMessage(options.hiddenMessage, config.generation);
   
-  // Get grid size from config
-  const gridSize = config.gridSize || 10;
+  // Get grid size from config, unless an ASCII mask fixes it
+  const mask = options.mask;
+  const requestedGridSize = getMaskGridSize(mask, config.gridSize || 10);
+  let gridSize = requestedGridSize;
   
   // Validate directions array
-  const validDirections = verifyDirections(config.directions);
+  let directions = verifyDirections(config.directions);
   
   // Ensure valid words array
+  // Place letters only - spaces, punctuation and (by default) accents are stripped
   const validWords = words
-    .filter(word => word && typeof word === 'string' && word.length > 0)
-    .map(word => word.toUpperCase());
+    .filter(word => word && typeof word === 'string')
+    .map(word => normalizeGridWord(word, config.generation))
+    .filter(word => word.length > 0);
   
   if (validWords.length === 0) {
     throw new Error("No valid words provided for grid generation");
   }
-  
-  // Sort words by length (longest first for easier placement)
-  const sortedWords = [...validWords].sort((a, b) => b.length - a.length);
 
-  // Create empty grid filled with empty spaces
-  const grid: string[][] = Array(gridSize).fill(null).map(() => Array(gridSize).fill(''));
-
-  // Track word placements for state
-  const placements: WordData[] = [];
-
-  // Try to place each word
-  for (const word of sortedWords) {
-    let placed = false;
-    let attempts = 0;
-    const maxRandomAttempts = 100;
-
-    // PHASE 1: Try random placement
-    while (!placed && attempts < maxRandomAttempts) {
-      attempts++;
-
-      // Random starting position using seeded random
-      const row = Math.floor(seededRandom() * gridSize);
-      const col = Math.floor(seededRandom() * gridSize);
-
-      // Random direction
-      const dirIndex = Math.floor(seededRandom() * validDirections.length);
-      const [dRow, dCol] = validDirections[dirIndex];
-
-      // Check if word fits in this position and direction
-      if (canPlaceWord(grid, word, row, col, dRow, dCol, gridSize)) {
-        // Place the word
-        placeWord(grid, word, row, col, dRow, dCol);
-
-        // Track placement for game state
-        placements.push({
-          word,
-          found: false,
-          row,
-          col,
-          direction: [dRow, dCol]
-        });
-
-        placed = true;
+  let activeWords = [...validWords];
+  const droppedWords: DroppedWord[] = [];
+  const fallbacksApplied: FallbackStrategy[] = [];
+
+  // Words longer than the largest reachable grid can never be placed
+  if (strategies.includes('drop-words')) {
+    const canGrow = strategies.includes('grow-grid') && !isFixedSizeMask(mask);
+    const largestSize = canGrow ? Math.max(maxGridSize, gridSize) : gridSize;
+    for (const word of [...activeWords].reverse()) {
+      if (word.length > largestSize && activeWords.length > 1) {
+        activeWords = activeWords.filter(w => w !== word);
+        droppedWords.unshift({ word, reason: 'too-long' });
+        if (!fallbacksApplied.includes('drop-words')) fallbacksApplied.push('drop-words');
       }
     }
-    
-    // PHASE 2: If random placement failed, try systematic placement
-    if (!placed) {
-      console.warn(`Random placement failed for "${word}" - trying systematic placement`);
-      
-      // Try each position and direction systematically
-      for (let r = 0; r < gridSize && !placed; r++) {
-        for (let c = 0; c < gridSize && !placed; c++) {
-          for (const [dRow, dCol] of validDirections) {
-            if (canPlaceWord(grid, word, r, c, dRow, dCol, gridSize)) {
-              placeWord(grid, word, r, c, dRow, dCol);
-              placements.push({
-                word,
-                found: false,
-                row: r,
-                col: c,
-                direction: [dRow, dCol]
-              });
-              placed = true;
-              break;
-            }
-          }
-        }
+  }
+
+  // Each fallback returns true if it changed the inputs for another attempt
+  const applyFallback: Record<FallbackStrategy, (unplaced: string[]) => boolean> = {
+    'alternate-directions': () => {
+      if (directions.length >= ALL_DIRECTIONS.length) return false;
+      directions = ALL_DIRECTIONS;
+      return true;
+    },
+    'grow-grid': () => {
+      if (gridSize >= maxGridSize || isFixedSizeMask(mask)) return false;
+      gridSize++;
+      return true;
+    },
+    'drop-words': (unplaced) => {
+      if (activeWords.length <= Math.min(minWords, validWords.length)) return false;
+      // Drop the lowest-priority word the engine could not fit, else the lowest-priority word
+      const candidates = unplaced.length > 0 ? unplaced : activeWords;
+      const word = [...activeWords].reverse().find(w => candidates.includes(w)) ?? activeWords[activeWords.length - 1];
+      activeWords = activeWords.filter(w => w !== word);
+      droppedWords.push({ word, reason: 'no-space' });
+      return true;
+    },
+  };
+
+  let attempt = 0;
+  let seededRandom = createSeededRandom(seed);
+  let result = placeWords(activeWords, buildPlacementOptions(gridSize, directions, seededRandom, config, mask));
+
+  while (!result.success) {
+    const strategy = strategies.find(s => applyFallback[s](result.unplacedWords));
+    if (!strategy) {
+      throw new Error(`Could not place word: ${result.unplacedWords[0]} after ${result.backtracks} backtracks`);
+    }
+    if (!fallbacksApplied.includes(strategy)) fallbacksApplied.push(strategy);
+
+    attempt++;
+    seededRandom = createSeededRandom(seed + attempt);
+    result = placeWords(activeWords, buildPlacementOptions(gridSize, directions, seededRandom, config, mask));
+  }
+
+  // Grow the grid until the hidden message has enough leftover cells, if allowed
+  // and if the largest grid could hold it alongside the words
+  const letterCells = activeWords.reduce((sum, word) => sum + word.length, 0) - result.overlaps;
+  const largestSize = isFixedSizeMask(mask) ? gridSize : Math.max(maxGridSize, gridSize);
+  const canHoldMessage = messageLetters.length + letterCells <= countOpenCells(mask, largestSize);
+  if (messageLetters.length > 0 && strategies.includes('grow-grid') && canHoldMessage) {
+    while (countEmptyCells(result.grid) < messageLetters.length && applyFallback['grow-grid']([])) {
+      attempt++;
+      seededRandom = createSeededRandom(seed + attempt);
+      const grown = placeWords(activeWords, buildPlacementOptions(gridSize, directions, seededRandom, config, mask));
+      if (!grown.success) {
+        gridSize--;
+        break;
       }
+      result = grown;
+      if (!fallbacksApplied.includes('grow-grid')) fallbacksApplied.push('grow-grid');
     }
+  }
+
+  // The report carries all of this; the logs are for debugging generation only
+  if (config.system?.debugMode && fallbacksApplied.length > 0) {
+    console.warn('[PuzzleGenerator] Applied generation fallbacks', { fallbacksApplied, gridSize, droppedWords });
+  }
+
+  const message = countEmptyCells(result.grid) >= messageLetters.length ? messageLetters : '';
+  if (config.system?.debugMode && messageLetters.length > 0 && !message) {
+    console.warn('[PuzzleGenerator] Hidden message does not fit in the leftover cells', { message: messageLetters });
+  }
+
+  // Fill remaining empty cells from the same seeded sequence - decoy fragments,
+  // then weighted letters - and re-fill any filler that spells a second copy of
+  // a word. A hidden message first takes the leftover cells it needs, and those
+  // cells are never re-filled.
+  const fillGrid = (grid: string[][], random: () => number) => {
+    const messageCells = reserveHiddenMessage(grid, message);
+    const decoys = fillDecoyFragments(grid, activeWords, decoyDensity, random);
+    fillEmptyCells(grid, random, pickLetter);
+    return { decoys, messageCells, fixedCells: new Set(messageCells.map(([r, c]) => `${r}-${c}`)) };
+  };
 
-    // If still not placed after both attempts, throw error
-    if (!placed) {
-      throw new Error(`Could not place word: ${word} after random and systematic attempts`);
+  let filled = fillGrid(result.grid, seededRandom);
+  let ambiguity = resolveAmbiguities(result.grid, result.placements, seededRandom, pickLetter, filled.fixedCells);
+  const isRepairable = (words: string[]) =>
+    ambiguity.unresolved.some(a => a.kind === 'blocked' || !isInherentlyAmbiguous(a.word, words));
+
+  // A duplicate spelled only by placed letters needs a different layout
+  for (let retry = 0; retry < MAX_AMBIGUITY_REPLACEMENTS && isRepairable(activeWords); retry++) {
+    attempt++;
+    const retryRandom = createSeededRandom(seed + attempt);
+    const retryResult = placeWords(activeWords, buildPlacementOptions(gridSize, directions, retryRandom, config, mask));
+    if (!retryResult.success || countEmptyCells(retryResult.grid) < message.length) continue;
+
+    const retryFilled = fillGrid(retryResult.grid, retryRandom);
+    const retryAmbiguity = resolveAmbiguities(
+      retryResult.grid, retryResult.placements, retryRandom, pickLetter, retryFilled.fixedCells
+    );
+    if (retryAmbiguity.unresolved.length < ambiguity.unresolved.length) {
+      result = retryResult;
+      ambiguity = retryAmbiguity;
+      filled = retryFilled;
     }
   }
 
-  // Fill remaining empty cells with random letters
-  fillEmptyCells(grid);
+  const unresolvedAmbiguities = [...new Set(ambiguity.unresolved.map(a => a.word))];
+  if (config.system?.debugMode && unresolvedAmbiguities.length > 0) {
+    console.warn('[PuzzleGenerator] Grid still contains ambiguous words', { unresolvedAmbiguities });
+  }
+
+  const { grid } = result;
+
+  // Track word placements for state
+  const placements: WordData[] = result.placements.map(placement => ({
+    ...placement,
+    found: false,
+  }));
+
+  const report: GenerationReport = {
+    seed,
+    requestedGridSize,
+    gridSize,
+    requestedWords: validWords,
+    placedWords: activeWords,
+    droppedWords,
+    directions,
+    fallbacksApplied,
+    quality: {
+      score: result.qualityScore,
+      overlaps: result.overlaps,
+      targetOverlaps: result.targetOverlaps,
+      backtracks: result.backtracks,
+    },
+    decoyCells: filled.decoys,
+    ambiguityRepairs: ambiguity.repairs,
+    unresolvedAmbiguities,
+    analysis: analyzeGrid(grid, placements),
+    tuneAttempts: 0,
+    hiddenMessageDropped: messageLetters.length > 0 && !message,
+  };
+
+  const hiddenMessage = message
+    ? { phrase: (options.hiddenMessage ?? '').trim(), cells: filled.messageCells }
+    : null;
   
-  return { grid, wordList: placements };
+  return { grid, wordList: placements, seed, report, hiddenMessage };
+}
+
+/**
+ * Summarise the fallbacks in a generation report as readable lines
+ * Returns an empty array when the grid was generated as requested
+ */
+export function summarizeGenerationReport(report: GenerationReport | null): string[] {
+  if (!report) return [];
+  const lines: string[] = [];
+
+  if (report.gridSize > report.requestedGridSize) {
+    lines.push(`Grid grew from ${report.requestedGridSize}×${report.requestedGridSize} to ${report.gridSize}×${report.gridSize} to fit the words.`);
+  }
+  if (report.fallbacksApplied.includes('alternate-directions')) {
+    lines.push('Words were allowed to run in all eight directions to fit.');
+  }
+  for (const { word, reason } of report.droppedWords) {
+    lines.push(reason === 'too-long'
+      ? `"${word}" was left out: it is longer than the grid.`
+      : `"${word}" was left out: there was no room for it.`);
+  }
+  if (report.hiddenMessageDropped) {
+    lines.push('This puzzle\'s hidden message did not fit and was left out.');
+  }
+
+  return lines;
+}
+
+/**
+ * Build placement engine options from the generation config
+ */
+function buildPlacementOptions(
+  gridSize: number,
+  directions: number[][],
+  random: () => number,
+  config: Config,
+  mask?: PuzzleMask
+): PlacementOptions {
+  return {
+    gridSize,
+    directions,
+    random,
+    mask: resolveMask(mask, gridSize),
+    targetOverlapRatio: config.generation?.targetOverlapRatio ?? 0.4,
+    maxSteps: config.generation?.maxPlacementSteps ?? 2000,
+    maxCandidatesPerWord: config.generation?.maxCandidatesPerWord ?? 60,
+  };
 }
 
 /**
@@ -145,16 +467,7 @@ export function generateGrid(
  */
 export function verifyDirections(directions: number[][]): number[][] {
   // Default directions if missing or invalid
-  const defaultDirections = [
-    [0, 1],   // right
-    [1, 0],   // down
-    [1, 1],   // diagonal down-right
-    [0, -1],  // left
-    [-1, 0],  // up
-    [-1, -1], // diagonal up-left
-    [1, -1],  // diagonal down-left
-    [-1, 1]   // diagonal up-right
-  ];
+  const defaultDirections = ALL_DIRECTIONS;
   
   // Verify directions array is valid
   if (!Array.isArray(directions) || directions.length === 0) {
@@ -202,12 +515,12 @@ export function canPlaceWord(
     return false;
   }
 
-  // Check if cells are empty or match the word's letters
+  // Check if cells are empty or match the word's letters (void cells never match)
   for (let i = 0; i < length; i++) {
     const r = row + i * dRow;
     const c = col + i * dCol;
 
-    if (grid[r][c] !== '' && grid[r][c] !== word[i]) {
+    if (isVoidCell(grid[r][c]) || (grid[r][c] !== '' && grid[r][c] !== word[i])) {
       return false;
     }
   }
@@ -236,20 +549,126 @@ export function placeWord(
 /**
  * Fill empty cells with random letters
  */
-export function fillEmptyCells(grid: string[][]): void {
-  const letters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+export function fillEmptyCells(
+  grid: string[][],
+  random: () => number = Math.random,
+  pickLetter: (random: () => number) => string = pickFillerLetter
+): void {
   const gridSize = grid.length;
 
   for (let row = 0; row < gridSize; row++) {
     for (let col = 0; col < gridSize; col++) {
       if (grid[row][col] === '') {
-        const randomIndex = Math.floor(Math.random() * letters.length);
-        grid[row][col] = letters[randomIndex];
+        grid[row][col] = pickLetter(random);
       }
     }
   }
 }
 
+/**
+ * Reduce a hidden message to the letters that go in the grid
+ */
+export function normalizeHiddenMessage(message: string | undefined, options: WordNormalizationOptions = {}): string {
+  return normalizeGridWord(message ?? '', options);
+}
+
+/**
+ * Write a hidden message into the first empty cells in reading order, so the
+ * leftover letters read from the top spell the message. Cells after it are left
+ * empty for the filler. Returns the message cells, or none (writing nothing) if
+ * there are not enough empty cells.
+ */
+export function reserveHiddenMessage(grid: string[][], message: string): Array<[number, number]> {
+  if (!message) return [];
+
+  const emptyCells = getEmptyCells(grid);
+  if (emptyCells.length < message.length) return [];
+
+  const messageCells = emptyCells.slice(0, message.length);
+  messageCells.forEach(([r, c], i) => {
+    grid[r][c] = message[i];
+  });
+  return messageCells;
+}
+
+/**
+ * Get the cells not yet holding a letter, in reading order (void cells excluded)
+ */
+function getEmptyCells(grid: string[][]): Array<[number, number]> {
+  const cells: Array<[number, number]> = [];
+  grid.forEach((row, r) => row.forEach((cell, c) => {
+    if (cell === '') cells.push([r, c]);
+  }));
+  return cells;
+}
+
+/**
+ * Count cells not yet holding a letter (void cells excluded)
+ */
+function countEmptyCells(grid: string[][]): number {
+  return grid.reduce((count, row) => count + row.filter(cell => cell === '').length, 0);
+}
+
+/**
+ * Count the cells a grid of this size can hold letters in, leaving out a mask's void cells
+ */
+function countOpenCells(mask: PuzzleMask | undefined, gridSize: number): number {
+  const resolved = resolveMask(mask, gridSize);
+  return resolved
+    ? resolved.reduce((count, row) => count + row.filter(Boolean).length, 0)
+    : gridSize * gridSize;
+}
+
+/**
+ * Seed empty cells with fragments of the hidden words ("APPL", "ERR") so
+ * the eye is drawn to near-misses. Density is the share of empty cells to
+ * cover (0-1). Returns the number of cells written.
+ */
+export function fillDecoyFragments(
+  grid: string[][],
+  words: string[],
+  density: number,
+  random: () => number
+): number {
+  // Whole words would be duplicates, so only keep partial fragments
+  const fragments = [...new Set(words.flatMap(word => getDistinctivePatterns(word)))]
+    .filter(fragment => fragment.length >= 2 && !words.includes(fragment));
+  const gridSize = grid.length;
+  const emptyCells = countEmptyCells(grid);
+  const target = Math.round(emptyCells * Math.min(1, Math.max(0, density)));
+
+  if (fragments.length === 0 || target === 0) return 0;
+
+  let written = 0;
+  for (let tries = 0; written < target && tries < target * 10; tries++) {
+    const fragment = fragments[Math.floor(random() * fragments.length)];
+    const [dRow, dCol] = ALL_DIRECTIONS[Math.floor(random() * ALL_DIRECTIONS.length)];
+    const row = Math.floor(random() * gridSize);
+    const col = Math.floor(random() * gridSize);
+
+    if (!canPlaceWord(grid, fragment, row, col, dRow, dCol, gridSize)) continue;
+
+    for (let i = 0; i < fragment.length; i++) {
+      const r = row + i * dRow;
+      const c = col + i * dCol;
+      if (grid[r][c] === '') {
+        grid[r][c] = fragment[i];
+        written++;
+      }
+    }
+  }
+
+  return written;
+}
+
+/**
+ * Pick a single random filler letter
+ */
+function pickFillerLetter(random: () => number): string {
+  const letters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+  return letters[Math.floor(random() * letters.length)];
+}
+
 /**
  * Get distinctive patterns for a word that a human might notice
  */
@@ -340,7 +759,8 @@ export function getStoryPartName(value: number): string {
 export function initializePuzzle(
   puzzleData: PuzzleData,
   config: Config,
-  state: GameState
+  state: GameState,
+  seed: number = derivePuzzleSeed(puzzleData)
 ): { success: boolean; newState: GameState } {
   // Basic validation
   if (!puzzleData) {
@@ -360,6 +780,7 @@ export function initializePuzzle(
     startCell: null,
     currentCell: null,
     timeRemaining: config.timeLimit,
+    puzzleTimeLimit: config.timeLimit,
     paused: false,
     gameOver: false,
     // Preserve genre and puzzle index - they should already be set by the caller
@@ -368,6 +789,11 @@ export function initializePuzzle(
     // Preserve run timer state for Beat the Clock mode
     runStartTime: state.runStartTime,
     runDuration: state.runDuration,
+    hintsUsed: 0,
+    activeHint: null,
+    selectionLog: [],
+    runScore: startPuzzleScore(state.runScore),
+    puzzleStartedAt: Date.now(),
   };
 
   // Set current book and story part
@@ -415,7 +841,8 @@ export function initializePuzzle(
   const bookAlreadyDiscovered = newState.discoveredBooks.has(newState.currentBook);
   
   // If not already discovered, add it and update count
-  if (!bookAlreadyDiscovered) {
+  // (Calm Mode and the Daily Archive keep their own progress and never discover books)
+  if (!bookAlreadyDiscovered && newState.gameMode !== 'calm' && newState.gameMode !== 'daily') {
     newState.discoveredBooks.add(newState.currentBook);
     newState.completedBooks = newState.discoveredBooks.size;
     console.log('[PuzzleGenerator] Discovered new book during initialization', {
@@ -425,44 +852,92 @@ export function initializePuzzle(
     });
   }
 
-  // Filter and prepare words - preserve original order
-  const originalWords = puzzleData.words
-    .filter(word => word.length >= config.minWordLength && word.length <= config.maxWordLength)
-    .map(word => word.toUpperCase());
+  // Generate grid with words using the explicit seed, or the puzzle's derived seed,
+  // with filler letters drawn from the puzzle's own letter frequencies.
+  // A layout pre-generated off the main thread is used when available.
+  const { grid, wordList, report, hiddenMessage } =
+    getCachedLayout(getLayoutKey(puzzleData, seed, config)) ??
+    layoutPuzzle(puzzleData, config, newState, seed);
   
-  // Remove duplicates while preserving order
-  const validWords: string[] = [];
-  const seenWords = new Set<string>();
-  for (const word of originalWords) {
-    if (!seenWords.has(word)) {
-      seenWords.add(word);
-      validWords.push(word);
-    }
-  }
+  newState.grid = grid;
+  newState.hiddenMessage = hiddenMessage;
+  newState.wordList = wordList;
+  newState.currentSeed = seed;
+  newState.generationReport = report;
+  
+  return { success: true, newState };
+}
+
+/**
+ * Filter and prepare a puzzle's words for placement - preserves original order
+ */
+export function preparePuzzleWords(puzzleData: PuzzleData, config: Config): string[] {
+  return preparePuzzleWordForms(puzzleData, config).map(form => form.grid);
+}
+
+/**
+ * Filter and prepare a puzzle's words with their display and grid forms.
+ * Length limits apply to the grid form (letters only).
+ */
+export function preparePuzzleWordForms(puzzleData: PuzzleData, config: Config): WordForms[] {
+  // Normalizing also removes duplicates while preserving order
+  const validForms = createWordForms(puzzleData.words, config.generation)
+    .filter(form => form.grid.length >= config.minWordLength && form.grid.length <= config.maxWordLength);
   
   // Limit to maxWords if needed
-  const finalWords = validWords.slice(0, config.maxWords);
+  const finalForms = validForms.slice(0, config.maxWords);
 
-  if (finalWords.length === 0) {
+  if (finalForms.length === 0) {
     throw new Error('No valid words provided after filtering');
   }
 
+  return finalForms;
+}
+
+/**
+ * Lay out a puzzle's grid and return its word list in puzzle order
+ */
+function layoutPuzzle(
+  puzzleData: PuzzleData,
+  config: Config,
+  state: GameState,
+  seed: number
+): PuzzleLayout {
+  const finalForms = preparePuzzleWordForms(puzzleData, config);
+  const finalWords = finalForms.map(form => form.grid);
+  // A fixed table per genre, so the same puzzle, seed and config always give the same grid
+  const letterModel = buildLetterModel(config.letterFrequencies?.[puzzleData.genre ?? '']);
+
   // Generate grid with words (will sort internally for placement)
-  const { grid, wordList } = generateGrid(finalWords, config, newState);
+  const { grid, wordList, report, hiddenMessage } = generateGrid(finalWords, config, state, {
+    seed,
+    letterModel,
+    mask: puzzleData.mask,
+    hiddenMessage: puzzleData.hiddenMessage,
+  });
   
   // Reorder wordList to match original word order from puzzle data
   const orderedWordList: typeof wordList = [];
   const wordListMap = new Map(wordList.map(w => [w.word, w]));
   
-  for (const word of finalWords) {
-    const wordData = wordListMap.get(word);
+  for (const form of finalForms) {
+    const wordData = wordListMap.get(form.grid);
     if (wordData) {
-      orderedWordList.push(wordData);
+      orderedWordList.push({ ...wordData, displayWord: form.display });
     }
   }
-  
-  newState.grid = grid;
-  newState.wordList = orderedWordList;
-  
-  return { success: true, newState };
+
+  return { grid, wordList: orderedWordList, report, hiddenMessage };
+}
+
+/**
+ * Regenerate the exact grid for a (puzzle, seed, config) tuple.
+ * Used to reproduce bug reports, resume saved puzzles and drive tests.
+ */
+export function regenerateGrid(
+  puzzleData: PuzzleData,
+  seed: number,
+  config: Config
+): PuzzleLayout {
+  return layoutPuzzle(puzzleData, config, initializeGameState(), seed);
 }
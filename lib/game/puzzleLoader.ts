@@ -4,7 +4,7 @@
  */
 
 import type { GameState, PuzzleData } from './state';
-import { initializePuzzle } from './puzzleGenerator';
+import { initializePuzzleAsync } from './generationClient';
 import type { Config } from '../core/config';
 import { fetchAsset } from '../utils/assetPath';
 
@@ -236,16 +236,16 @@ export async function loadGenrePuzzles(
 /**
  * Load a sequential puzzle based on game progression
  */
-export function loadSequentialPuzzle(
+export async function loadSequentialPuzzle(
   genre: string | null,
   book: string | null,
   state: GameState,
   config: Config,
   allowReplay: boolean = false
-): { success: boolean; newState: GameState; genreComplete?: boolean } {
+): Promise<{ success: boolean; newState: GameState; genreComplete?: boolean }> {
   try {
     // Non-story modes should use their dedicated loaders
-    if (state.gameMode === 'beat-the-clock' || state.gameMode === 'puzzle-only') {
+    if (state.gameMode !== 'story') {
       console.warn(`loadSequentialPuzzle called for ${state.gameMode} mode - use dedicated loader instead`);
       return { success: false, newState: state };
     }
@@ -546,7 +546,7 @@ export function loadSequentialPuzzle(
     newState.currentStoryPart = nextPartToLoad;
     
     // Initialize the puzzle
-    const initResult = initializePuzzle(puzzleToLoad, config, newState);
+    const initResult = await initializePuzzleAsync(puzzleToLoad, config, newState);
     
     if (!initResult.success) {
       throw new Error('Puzzle initialization failed');
@@ -565,7 +565,7 @@ export function loadSequentialPuzzle(
         const fallbackPuzzles = state.puzzles[fallbackGenre].filter(p => p.book === fallbackBook);
         if (fallbackPuzzles.length > 0) {
           const fallbackPuzzle = fallbackPuzzles[0];
-          const initResult = initializePuzzle(fallbackPuzzle, config, state);
+          const initResult = await initializePuzzleAsync(fallbackPuzzle, config, state);
           return { success: initResult.success, newState: initResult.newState };
         }
       }
@@ -4,17 +4,17 @@
  */
 
 import type { GameState, PuzzleData } from './state';
-import { initializePuzzle } from './puzzleGenerator';
+import { initializePuzzleAsync } from './generationClient';
 import type { Config } from '../core/config';
 
 /**
  * Load a random puzzle for Puzzle Only Mode
  * Selects a random genre and random puzzle from that genre
  */
-export function loadRandomPuzzle(
+export async function loadRandomPuzzle(
   state: GameState,
   config: Config
-): { success: boolean; newState: GameState } {
+): Promise<{ success: boolean; newState: GameState }> {
   try {
     // Clear any existing timer before loading new puzzle
     if (state.timer) {
@@ -49,7 +49,7 @@ export function loadRandomPuzzle(
     };
     
     // Initialize the puzzle
-    const initResult = initializePuzzle(puzzleToLoad, config, updatedState);
+    const initResult = await initializePuzzleAsync(puzzleToLoad, config, updatedState);
     
     if (!initResult.success) {
       throw new Error('Puzzle initialization failed');
@@ -65,12 +65,12 @@ export function loadRandomPuzzle(
 /**
  * Restore a specific puzzle for Puzzle Only Mode (used on refresh)
  */
-export function restorePuzzleOnlyPuzzle(
+export async function restorePuzzleOnlyPuzzle(
   genre: string,
   puzzleIndex: number,
   state: GameState,
   config: Config
-): { success: boolean; newState: GameState } {
+): Promise<{ success: boolean; newState: GameState }> {
   // Clear any existing timer before loading puzzle
   if (state.timer) {
     clearInterval(state.timer);
@@ -93,8 +93,8 @@ export function restorePuzzleOnlyPuzzle(
       gameOver: false,
     };
     
-    // Initialize the puzzle
-    const initResult = initializePuzzle(puzzleToRestore, config, updatedState);
+    // Initialize the puzzle - reuse the saved seed so the layout matches
+    const initResult = await initializePuzzleAsync(puzzleToRestore, config, updatedState, state.currentSeed ?? undefined);
     
     if (!initResult.success) {
       throw new Error('Puzzle initialization failed');
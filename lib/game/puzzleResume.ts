@@ -0,0 +1,110 @@
+/**
+ * Exact resume for an in-progress puzzle
+ * Captures the found words and clocks of the puzzle on screen for the save,
+ * and puts them back once the same grid has been regenerated from its seed
+ */
+
+import type { GameState, PuzzleResume } from './state';
+import type { Config } from '../core/config';
+import { initializePuzzleAsync } from './generationClient';
+
+// Modes whose puzzles count down
+const TIMED_MODES: GameState['gameMode'][] = ['puzzle-only', 'beat-the-clock', 'endless'];
+
+/**
+ * Capture the progress on the current puzzle, or null when there is nothing to resume.
+ * While a loaded resume is still waiting for its puzzle, that resume is kept as-is.
+ */
+export function capturePuzzleResume(state: GameState, now: number = Date.now()): PuzzleResume | null {
+  if (!state.grid || state.grid.length === 0) {
+    return state.puzzleResume;
+  }
+  if (state.gameOver || state.currentSeed === null) {
+    return null;
+  }
+
+  const foundWords = state.wordList
+    .map((word, index) => (word.found ? index : -1))
+    .filter(index => index >= 0);
+  // A finished puzzle is never resumed
+  if (foundWords.length === state.wordList.length) {
+    return null;
+  }
+
+  const runTimeRemaining = state.gameMode === 'beat-the-clock' && state.runStartTime
+    ? Math.max(0, state.runDuration - Math.floor((now - state.runStartTime) / 1000))
+    : null;
+
+  return {
+    seed: state.currentSeed,
+    foundWords,
+    elapsed: state.puzzleStartedAt ? Math.max(0, Math.floor((now - state.puzzleStartedAt) / 1000)) : 0,
+    timeRemaining: TIMED_MODES.includes(state.gameMode) ? state.timeRemaining : null,
+    runTimeRemaining,
+  };
+}
+
+/**
+ * Apply a loaded resume to the puzzle that has just been initialized.
+ * It only applies when the grid was generated from the same seed; either way
+ * the pending resume is used up.
+ */
+export function applyPuzzleResume(state: GameState, now: number = Date.now()): GameState {
+  const resume = state.puzzleResume;
+  if (!resume) return state;
+
+  const cleared: GameState = { ...state, puzzleResume: null };
+  if (resume.seed !== state.currentSeed || state.wordList.length === 0) {
+    return cleared;
+  }
+
+  const wordList = state.wordList.map((word, index) =>
+    resume.foundWords.includes(index) ? { ...word, found: true } : word
+  );
+  if (wordList.every(word => word.found)) {
+    return cleared;
+  }
+
+  return {
+    ...cleared,
+    wordList,
+    puzzleStartedAt: now - resume.elapsed * 1000,
+    timeRemaining: resume.timeRemaining && resume.timeRemaining > 0 ? resume.timeRemaining : state.timeRemaining,
+    runStartTime: resume.runTimeRemaining
+      ? now - (state.runDuration - resume.runTimeRemaining) * 1000
+      : state.runStartTime,
+  };
+}
+
+/**
+ * Regenerate the puzzle a save was on from its saved genre, index and seed,
+ * so its progress can be put back. Used by modes that draw their puzzles at
+ * random (Endless and Calm) and so cannot pick the same one again by themselves.
+ */
+export async function restorePuzzleFromSeed(
+  state: GameState,
+  config: Config
+): Promise<{ success: boolean; newState: GameState }> {
+  try {
+    const puzzleToLoad = state.puzzles[state.currentGenre]?.[state.currentPuzzleIndex];
+    if (!puzzleToLoad || state.currentSeed === null) {
+      throw new Error('No saved puzzle to restore');
+    }
+
+    const initResult = await initializePuzzleAsync(puzzleToLoad, config, {
+      ...state,
+      currentBook: puzzleToLoad.book,
+      currentStoryPart: puzzleToLoad.storyPart || 0,
+      gameOver: false,
+    }, state.currentSeed);
+
+    if (!initResult.success) {
+      throw new Error('Puzzle initialization failed');
+    }
+
+    return { success: true, newState: initResult.newState };
+  } catch (error) {
+    console.error('Error restoring puzzle from its seed:', error);
+    return { success: false, newState: state };
+  }
+}
@@ -3,6 +3,8 @@
  * Chronicles of the Kethaneum
  */
 
+import type { PuzzleData } from './state';
+
 export interface PuzzleSelectionConfig {
   /**
    * Minimum number of regular genre puzzles before inserting a Kethaneum puzzle
@@ -18,6 +20,12 @@ export interface PuzzleSelectionConfig {
    * Name of the special Kethaneum genre
    */
   kethaneumGenreName: string;
+
+  /**
+   * Genres Endless Mode, Calm Mode and the Daily Archive draw from, in a fixed
+   * order. Kethaneum and mode-only content such as Beat the Clock are left out.
+   */
+  libraryGenres: string[];
 }
 
 /**
@@ -33,6 +41,9 @@ export const defaultPuzzleSelectionConfig: PuzzleSelectionConfig = {
 
   // The genre name for Kethaneum narrative books
   kethaneumGenreName: 'Kethaneum',
+
+  // The genre files listed in genreManifest.json, loaded with every session
+  libraryGenres: ['fantasy', 'nature', 'science'],
 };
 
 /**
@@ -43,3 +54,13 @@ export function getRandomKethaneumInterval(config: PuzzleSelectionConfig = defau
   const max = config.maxPuzzlesBeforeKethaneum;
   return Math.floor(Math.random() * (max - min + 1)) + min;
 }
+
+/**
+ * Get the library genres that have puzzles loaded, in their configured order
+ */
+export function getLibraryGenres(
+  puzzles: { [genre: string]: PuzzleData[] },
+  config: PuzzleSelectionConfig = defaultPuzzleSelectionConfig
+): string[] {
+  return config.libraryGenres.filter(genre => (puzzles?.[genre]?.length ?? 0) > 0);
+}
@@ -90,6 +90,81 @@ export function selectNextPuzzle(
   }
 }
 
+/**
+ * A selection made ahead of time, e.g. to pre-generate the next puzzle
+ * while the player is still reading the current one
+ */
+export interface PeekedSelection {
+  result: PuzzleSelectionResult;
+  /** State fields the selection changed, applied on commit */
+  changes: Partial<GameState>;
+  /** Selection inputs at peek time; the peek is stale once they change */
+  basisKey: string;
+}
+
+/**
+ * Select the next puzzle without modifying the given state
+ */
+export function peekNextPuzzle(
+  state: GameState,
+  config: PuzzleSelectionConfig = defaultPuzzleSelectionConfig
+): PeekedSelection {
+  // Selection can reset a genre's completed set in place, so work on copies
+  const completedCopy: GameState['completedPuzzlesByGenre'] = {};
+  for (const [genre, titles] of Object.entries(state.completedPuzzlesByGenre || {})) {
+    completedCopy[genre] = new Set(titles);
+  }
+  const basis = initializePuzzleSelection({ ...state, completedPuzzlesByGenre: completedCopy }, config);
+  const result = selectNextPuzzle(basis, config);
+
+  const changes = Object.fromEntries(
+    Object.entries(result.newState).filter(([key, value]) => value !== basis[key as keyof GameState])
+  ) as Partial<GameState>;
+  if (result.genreExhausted) {
+    changes.completedPuzzlesByGenre = basis.completedPuzzlesByGenre;
+  }
+
+  return { result, changes, basisKey: getSelectionKey(basis, config) };
+}
+
+/**
+ * Use a peeked selection if the selection inputs are unchanged since the peek.
+ * Returns null when the peek is stale and a fresh selection is needed.
+ */
+export function commitPeekedSelection(
+  state: GameState,
+  peeked: PeekedSelection,
+  config: PuzzleSelectionConfig = defaultPuzzleSelectionConfig
+): PuzzleSelectionResult | null {
+  const initialized = initializePuzzleSelection(state, config);
+  if (!peeked.result.puzzle || getSelectionKey(initialized, config) !== peeked.basisKey) {
+    return null;
+  }
+
+  return {
+    ...peeked.result,
+    newState: { ...initialized, ...peeked.changes },
+  };
+}
+
+/**
+ * Summarise every state field that selectNextPuzzle reads
+ */
+function getSelectionKey(state: GameState, config: PuzzleSelectionConfig): string {
+  const completedTitles = (genre: string) => Array.from(state.completedPuzzlesByGenre?.[genre] ?? []).sort();
+  return JSON.stringify([
+    state.selectedGenre,
+    state.currentBook,
+    state.nextKethaneumIndex,
+    state.puzzlesSinceLastKethaneum,
+    state.nextKethaneumInterval,
+    state.kethaneumRevealed,
+    completedTitles(state.selectedGenre),
+    Object.keys(state.puzzles || {}).map(genre => `${genre}:${state.puzzles[genre]?.length ?? 0}`),
+    config.kethaneumGenreName,
+  ]);
+}
+
 /**
  * Check if it's time to insert a Kethaneum puzzle based on the counter and interval
  */
@@ -0,0 +1,64 @@
+/**
+ * Puzzle validation rules for Chronicles of the Kethaneum
+ * Shared by the genre-builder tool and player-authored Practice puzzles
+ */
+
+import { MASK_SHAPES, type PuzzleMask } from './gridMask';
+
+export interface ValidationError {
+  bookIndex?: number;
+  puzzleIndex?: number;
+  field: string;
+  message: string;
+}
+
+/**
+ * The fields of a puzzle the rules look at
+ */
+export interface ValidatablePuzzle {
+  title: string;
+  book: string;
+  genre: string;
+  words: string[];
+  storyExcerpt: string;
+  mask?: PuzzleMask;
+}
+
+/**
+ * Check the fields every playable puzzle needs: a title, words and a known shape
+ */
+export function validatePuzzleContent(puzzle: Pick<ValidatablePuzzle, 'title' | 'words' | 'mask'>): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  if (!puzzle.title.trim()) {
+    errors.push({ field: 'title', message: 'Title is required' });
+  }
+  if (!puzzle.words || puzzle.words.length === 0) {
+    errors.push({ field: 'words', message: 'At least one word is required' });
+  }
+  if (typeof puzzle.mask === 'string' && !MASK_SHAPES.includes(puzzle.mask)) {
+    errors.push({ field: 'mask', message: `Unknown shape. Use ${MASK_SHAPES.join(', ')} or ASCII art` });
+  }
+
+  return errors;
+}
+
+/**
+ * Check a story puzzle from a genre file, which also belongs to a book and genre
+ * and carries a story excerpt
+ */
+export function validatePuzzle(puzzle: ValidatablePuzzle): ValidationError[] {
+  const errors = validatePuzzleContent(puzzle);
+
+  if (!puzzle.book.trim()) {
+    errors.push({ field: 'book', message: 'Book name is required' });
+  }
+  if (!puzzle.genre.trim()) {
+    errors.push({ field: 'genre', message: 'Genre is required' });
+  }
+  if (!puzzle.storyExcerpt.trim()) {
+    errors.push({ field: 'storyExcerpt', message: 'Story excerpt is required' });
+  }
+
+  return errors;
+}
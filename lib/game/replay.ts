@@ -0,0 +1,213 @@
+/**
+ * Selection replays for Chronicles of the Kethaneum
+ * A replay is a compact event log of drag starts, extends, commits and pauses,
+ * together with the grid it was played on, so it can be watched back without
+ * regenerating anything. The best Beat the Clock run is kept for watching
+ * back and for racing as a ghost.
+ */
+
+import type { GameState, PuzzleReplay, ReplayEvent, ReplayEventCode, ReplayFile } from './state';
+
+export const REPLAY_VERSION = 1;
+
+const BEST_RUN_KEY = 'kethaneumBestRun';
+
+const EVENT_CODES: ReplayEventCode[] = ['s', 'x', 'h', 'm', 'p', 'r'];
+
+export interface ReplayFrame {
+  /** In-progress drag, if any */
+  selection: { start: { row: number; col: number }; end: { row: number; col: number } } | null;
+  /** Indices into the replay's words that have been found */
+  foundWords: number[];
+  paused: boolean;
+}
+
+export interface RunFrame {
+  puzzleNumber: number;
+  puzzle: PuzzleReplay;
+  frame: ReplayFrame;
+}
+
+/**
+ * Start recording the puzzle currently in state
+ * @param startedAt - Milliseconds into the run the puzzle started (0 outside runs)
+ */
+export function createPuzzleReplay(state: GameState, startedAt: number = 0): PuzzleReplay {
+  return {
+    seed: state.currentSeed ?? 0,
+    mode: state.gameMode,
+    genre: state.currentGenre,
+    puzzleIndex: state.currentPuzzleIndex,
+    title: state.puzzles[state.currentGenre]?.[state.currentPuzzleIndex]?.title || state.currentBook,
+    grid: state.grid.map(row => row.join('')),
+    words: state.wordList.map(({ word, row, col, direction }) => ({ word, row, col, direction })),
+    startedAt,
+    duration: 0,
+    events: [],
+  };
+}
+
+/**
+ * Build a replay event, rounding the time to whole milliseconds
+ */
+export function createReplayEvent(
+  at: number,
+  code: ReplayEventCode,
+  cell?: { row: number; col: number }
+): ReplayEvent {
+  const time = Math.max(0, Math.round(at));
+  return cell ? [time, code, cell.row, cell.col] : [time, code];
+}
+
+/**
+ * Wrap recorded puzzles into a replay file
+ */
+export function createReplayFile(
+  puzzles: PuzzleReplay[],
+  mode: GameState['gameMode'],
+  score: number | null = null
+): ReplayFile {
+  return {
+    v: REPLAY_VERSION,
+    recordedAt: new Date().toISOString(),
+    mode,
+    score,
+    puzzles,
+  };
+}
+
+/**
+ * Get the total length of a replay in milliseconds
+ */
+export function getReplayDuration(replay: ReplayFile): number {
+  return replay.puzzles.reduce((end, puzzle) => Math.max(end, puzzle.startedAt + puzzle.duration), 0);
+}
+
+/**
+ * Find the word a committed selection from start to end covers, in either direction
+ */
+function findReplayWord(
+  puzzle: PuzzleReplay,
+  start: { row: number; col: number },
+  end: { row: number; col: number }
+): number {
+  return puzzle.words.findIndex(({ word, row, col, direction }) => {
+    const lastRow = row + direction[0] * (word.length - 1);
+    const lastCol = col + direction[1] * (word.length - 1);
+    return (row === start.row && col === start.col && lastRow === end.row && lastCol === end.col) ||
+      (row === end.row && col === end.col && lastRow === start.row && lastCol === start.col);
+  });
+}
+
+/**
+ * Work out what a puzzle replay shows at a moment in time
+ * @param time - Milliseconds since the puzzle started
+ */
+export function getReplayFrame(puzzle: PuzzleReplay, time: number): ReplayFrame {
+  let selection: ReplayFrame['selection'] = null;
+  const foundWords: number[] = [];
+  let paused = false;
+
+  for (const [at, code, row, col] of puzzle.events) {
+    if (at > time) break;
+    const cell = row !== undefined && col !== undefined ? { row, col } : null;
+
+    if (code === 's' && cell) {
+      selection = { start: cell, end: cell };
+    } else if (code === 'x' && cell && selection) {
+      selection = { start: selection.start, end: cell };
+    } else if (code === 'h' || code === 'm') {
+      if (code === 'h' && selection) {
+        const index = findReplayWord(puzzle, selection.start, selection.end);
+        if (index >= 0 && !foundWords.includes(index)) foundWords.push(index);
+      }
+      selection = null;
+    } else if (code === 'p') {
+      paused = true;
+    } else if (code === 'r') {
+      paused = false;
+    }
+  }
+
+  return { selection, foundWords, paused };
+}
+
+/**
+ * Work out which puzzle of a replay is showing at a moment in time, and what it shows
+ * @param time - Milliseconds since the replay started
+ */
+export function getRunFrame(replay: ReplayFile, time: number): RunFrame | null {
+  let puzzleNumber = -1;
+  replay.puzzles.forEach((puzzle, index) => {
+    if (puzzle.startedAt <= time) puzzleNumber = index;
+  });
+  if (puzzleNumber < 0) return null;
+
+  const puzzle = replay.puzzles[puzzleNumber];
+  return { puzzleNumber, puzzle, frame: getReplayFrame(puzzle, time - puzzle.startedAt) };
+}
+
+/**
+ * Count the words a replay had found by a moment in time, across all its puzzles
+ */
+export function countReplayFinds(replay: ReplayFile, time: number): number {
+  return replay.puzzles.reduce(
+    (count, puzzle) => count + puzzle.events.filter(([at, code]) => code === 'h' && puzzle.startedAt + at <= time).length,
+    0
+  );
+}
+
+/**
+ * Serialize a replay for export (e.g. to attach to a bug report)
+ */
+export function serializeReplay(replay: ReplayFile): string {
+  return JSON.stringify(replay);
+}
+
+/**
+ * Parse an exported replay, or null if it is not a valid replay
+ */
+export function parseReplay(text: string): ReplayFile | null {
+  try {
+    const data = JSON.parse(text);
+    if (!data || data.v !== REPLAY_VERSION || !Array.isArray(data.puzzles)) return null;
+
+    const validPuzzle = (puzzle: PuzzleReplay) =>
+      Array.isArray(puzzle.grid) && puzzle.grid.every(row => typeof row === 'string') &&
+      Array.isArray(puzzle.words) && Array.isArray(puzzle.events) &&
+      puzzle.events.every(event => Array.isArray(event) && typeof event[0] === 'number' && EVENT_CODES.includes(event[1]));
+    if (!data.puzzles.every(validPuzzle)) return null;
+
+    return data as ReplayFile;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Load the best Beat the Clock run
+ */
+export function loadBestRunReplay(): ReplayFile | null {
+  if (typeof localStorage === 'undefined') return null;
+  const saved = localStorage.getItem(BEST_RUN_KEY);
+  return saved ? parseReplay(saved) : null;
+}
+
+/**
+ * Keep a Beat the Clock run if it beats the stored best
+ * @returns Whether the run became the new best
+ */
+export function saveBestRunReplay(replay: ReplayFile): boolean {
+  if (typeof localStorage === 'undefined' || replay.score === null || replay.puzzles.length === 0) return false;
+
+  const best = loadBestRunReplay();
+  if (best && (best.score ?? 0) >= replay.score) return false;
+
+  try {
+    localStorage.setItem(BEST_RUN_KEY, serializeReplay(replay));
+    return true;
+  } catch (error) {
+    console.error('[replay.saveBestRunReplay] Failed to save best run:', error);
+    return false;
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * Scoring for Beat the Clock runs
+ * Points per word scale with length and direction, quick successive finds
+ * build a combo, fast puzzles earn a time bonus and invalid selections cost points
+ */
+
+import type { Config } from '../core/config';
+import type { RunScore, WordData } from './state';
+
+export const EMPTY_RUN_SCORE: RunScore = {
+  total: 0,
+  puzzlePoints: 0,
+  combo: 0,
+  bestCombo: 0,
+  lastFindAt: null,
+  invalidSelections: 0,
+};
+
+/**
+ * Get the difficulty factor for the direction a word reads in
+ */
+export function getDirectionFactor([dRow, dCol]: [number, number], config: Config): number {
+  const difficulty = config.scoring.directionDifficulty;
+  const base = dRow === 0
+    ? difficulty.horizontal
+    : dCol === 0
+    ? difficulty.vertical
+    : difficulty.diagonal;
+  // Right-to-left and bottom-to-top words are harder to spot
+  const reversed = dCol < 0 || (dCol === 0 && dRow < 0);
+  return reversed ? base + difficulty.reversed : base;
+}
+
+/**
+ * Get the combo multiplier for a combo count
+ */
+export function getComboMultiplier(combo: number, config: Config): number {
+  return Math.min(config.scoring.maxComboMultiplier, 1 + combo * config.scoring.comboStep);
+}
+
+/**
+ * Score a found word, extending the combo when it follows the last find quickly
+ */
+export function scoreWordFound(
+  score: RunScore,
+  word: WordData,
+  config: Config,
+  now: number = Date.now()
+): { score: RunScore; points: number } {
+  const { scoring } = config;
+  const inCombo = score.lastFindAt !== null && now - score.lastFindAt <= scoring.comboWindow * 1000;
+  const combo = inCombo ? score.combo + 1 : 0;
+
+  const basePoints = word.word.length * scoring.pointsPerLetter;
+  const points = Math.round(
+    basePoints * getDirectionFactor(word.direction, config) * getComboMultiplier(combo, config)
+  );
+
+  return {
+    score: {
+      ...score,
+      total: score.total + points,
+      puzzlePoints: score.puzzlePoints + points,
+      combo,
+      bestCombo: Math.max(score.bestCombo, combo),
+      lastFindAt: now,
+    },
+    points,
+  };
+}
+
+/**
+ * Apply the penalty for a selection that is not a hidden word. Breaks the combo.
+ */
+export function scoreInvalidSelection(score: RunScore, config: Config): RunScore {
+  const penalty = Math.min(score.total, config.scoring.invalidSelectionPenalty);
+  return {
+    ...score,
+    total: score.total - penalty,
+    puzzlePoints: score.puzzlePoints - penalty,
+    combo: 0,
+    lastFindAt: null,
+    invalidSelections: score.invalidSelections + 1,
+  };
+}
+
+/**
+ * Add the bonus for finishing a puzzle under par time
+ */
+export function scorePuzzleComplete(
+  score: RunScore,
+  timeTaken: number,
+  config: Config
+): { score: RunScore; bonus: number } {
+  const secondsUnderPar = Math.max(0, config.scoring.parTime - timeTaken);
+  const bonus = secondsUnderPar * config.scoring.timeBonusPerSecond;
+
+  return {
+    score: {
+      ...score,
+      total: score.total + bonus,
+      puzzlePoints: score.puzzlePoints + bonus,
+    },
+    bonus,
+  };
+}
+
+/**
+ * Start scoring a new puzzle - the run total carries over, the combo does not
+ */
+export function startPuzzleScore(score: RunScore): RunScore {
+  return {
+    ...score,
+    puzzlePoints: 0,
+    combo: 0,
+    lastFindAt: null,
+  };
+}
@@ -0,0 +1,129 @@
+/**
+ * Selection log for Chronicles of the Kethaneum
+ * Records every committed selection as a hit or a miss, so stats can report
+ * real accuracy instead of completion
+ */
+
+import type { Cell, MissReason, SelectionEntry, WordData } from './state';
+
+export const MISS_REASONS: MissReason[] = ['wrong-direction', 'partial-word', 'not-a-word', 'already-found'];
+
+export const MISS_REASON_LABELS: Record<MissReason, string> = {
+  'wrong-direction': 'Wrong Direction',
+  'partial-word': 'Partial Word',
+  'not-a-word': 'Not a Word',
+  'already-found': 'Already Found',
+};
+
+export interface SelectionSummary {
+  selections: number;
+  hits: number;
+  /** Hits as a percentage of all committed selections */
+  accuracy: number;
+  misses: Record<MissReason, number>;
+  /** Mean seconds between consecutive finds (0 with fewer than two finds) */
+  averageTimeBetweenFinds: number;
+}
+
+/**
+ * Create a zeroed count for every miss reason
+ */
+export function emptyMissCounts(): Record<MissReason, number> {
+  return { 'wrong-direction': 0, 'partial-word': 0, 'not-a-word': 0, 'already-found': 0 };
+}
+
+/**
+ * Get the grid cells a placed word covers, first letter first
+ */
+function getWordCells(word: WordData): string[] {
+  const [dRow, dCol] = word.direction;
+  return Array.from({ length: word.word.length }, (_, i) => `${word.row + dRow * i},${word.col + dCol * i}`);
+}
+
+/**
+ * Work out why a selection did not match any hidden word:
+ * - already-found: it covers exactly a word that has been found
+ * - partial-word: it covers part of a hidden word, or a word plus extra letters
+ * - wrong-direction: it starts on the first or last letter of a hidden word
+ *   but heads off in another direction
+ * - not-a-word: anything else
+ */
+export function classifyMiss(selectedCells: Cell[], wordList: WordData[]): MissReason {
+  const selected = selectedCells.map(cell => `${cell.row},${cell.col}`);
+  const selectedSet = new Set(selected);
+
+  for (const word of wordList) {
+    const cells = getWordCells(word);
+    if (word.found && cells.length === selected.length && cells.every(cell => selectedSet.has(cell))) {
+      return 'already-found';
+    }
+  }
+
+  const unfound = wordList.filter(word => !word.found);
+  for (const word of unfound) {
+    const cells = getWordCells(word);
+    const wordSet = new Set(cells);
+    const inside = selected.every(cell => wordSet.has(cell));
+    const covers = cells.every(cell => selectedSet.has(cell));
+    if (inside || covers) {
+      return 'partial-word';
+    }
+  }
+
+  const first = selected[0];
+  const last = selected[selected.length - 1];
+  for (const word of unfound) {
+    const cells = getWordCells(word);
+    const endpoints = [cells[0], cells[cells.length - 1]];
+    if (endpoints.includes(first) || endpoints.includes(last)) {
+      return 'wrong-direction';
+    }
+  }
+
+  return 'not-a-word';
+}
+
+/**
+ * Log a selection that found a word
+ */
+export function logHit(log: SelectionEntry[], word: string, at: number = Date.now()): SelectionEntry[] {
+  return [...log, { at, hit: true, word }];
+}
+
+/**
+ * Log a selection that missed, with the reason
+ */
+export function logMiss(
+  log: SelectionEntry[],
+  selectedCells: Cell[],
+  wordList: WordData[],
+  at: number = Date.now()
+): SelectionEntry[] {
+  return [...log, { at, hit: false, reason: classifyMiss(selectedCells, wordList) }];
+}
+
+/**
+ * Summarize a puzzle's selection log
+ */
+export function summarizeSelections(log: SelectionEntry[]): SelectionSummary {
+  const misses = emptyMissCounts();
+  const hitTimes: number[] = [];
+
+  for (const entry of log) {
+    if (entry.hit) {
+      hitTimes.push(entry.at);
+    } else if (entry.reason) {
+      misses[entry.reason]++;
+    }
+  }
+
+  const gaps = hitTimes.slice(1).map((time, i) => (time - hitTimes[i]) / 1000);
+
+  return {
+    selections: log.length,
+    hits: hitTimes.length,
+    accuracy: log.length > 0 ? (hitTimes.length / log.length) * 100 : 0,
+    misses,
+    averageTimeBetweenFinds: gaps.length > 0 ? gaps.reduce((sum, gap) => sum + gap, 0) / gaps.length : 0,
+  };
+}
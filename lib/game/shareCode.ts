@@ -0,0 +1,145 @@
+/**
+ * Shareable puzzle links for Chronicles of the Kethaneum
+ * A puzzle's words, title, difficulty, grid size, directions and seed are packed
+ * into a compact, URL-safe code with a checksum. Opening /puzzle?p=<code> plays
+ * exactly that grid, with no server involved.
+ */
+
+import type { Config } from '../core/config';
+import type { CustomPuzzle, CustomPuzzleDifficulty } from './state';
+import { DIRECTION_OPTIONS } from './gridAccessibility';
+import { PRACTICE_DIFFICULTIES, getCustomPuzzleSeed } from './practice';
+import { hashString } from '../utils/mathUtils';
+
+export const SHARE_CODE_VERSION = 1;
+
+// URL search parameter that carries the code
+export const SHARE_PARAM = 'p';
+
+// Largest grid a code may ask for, so a hand-edited link cannot stall the generator
+const MAX_SHARED_GRID_SIZE = 20;
+
+export interface SharedPuzzle {
+  title: string;
+  words: string[];
+  difficulty: CustomPuzzleDifficulty;
+  gridSize: number;
+  directions: [number, number][];
+  seed: number;
+}
+
+/**
+ * Pack directions into a bit per entry of DIRECTION_OPTIONS
+ */
+function encodeDirections(directions: [number, number][]): number {
+  return DIRECTION_OPTIONS.reduce((bits, option, index) =>
+    directions.some(([dRow, dCol]) => dRow === option.vector[0] && dCol === option.vector[1])
+      ? bits | (1 << index)
+      : bits,
+  0);
+}
+
+function decodeDirections(bits: number): [number, number][] {
+  return DIRECTION_OPTIONS.filter((_, index) => bits & (1 << index)).map(option => option.vector);
+}
+
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(code: string): string {
+  const base64 = code.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+}
+
+/**
+ * Encode a puzzle as a share code: base64url of the packed fields, a dot, then a checksum
+ */
+export function encodeShareCode(puzzle: SharedPuzzle): string {
+  const payload = JSON.stringify([
+    SHARE_CODE_VERSION,
+    puzzle.title,
+    puzzle.words.join(','),
+    PRACTICE_DIFFICULTIES.indexOf(puzzle.difficulty),
+    puzzle.gridSize,
+    encodeDirections(puzzle.directions),
+    puzzle.seed,
+  ]);
+  return `${toBase64Url(payload)}.${hashString(payload).toString(36)}`;
+}
+
+/**
+ * Decode a share code, or null if it is malformed, from another version, or fails its checksum
+ */
+export function decodeShareCode(code: string): SharedPuzzle | null {
+  try {
+    const [body, checksum] = code.trim().split('.');
+    if (!body || !checksum) return null;
+
+    const payload = fromBase64Url(body);
+    if (hashString(payload).toString(36) !== checksum) return null;
+
+    const [version, title, words, difficulty, gridSize, directionBits, seed] = JSON.parse(payload);
+    if (version !== SHARE_CODE_VERSION || typeof title !== 'string' || typeof words !== 'string') return null;
+    if (!PRACTICE_DIFFICULTIES[difficulty] || !Number.isInteger(gridSize) || gridSize <= 0 || gridSize > MAX_SHARED_GRID_SIZE) return null;
+    if (!Number.isInteger(directionBits) || !Number.isInteger(seed)) return null;
+
+    const directions = decodeDirections(directionBits);
+    const wordList = words.split(',').filter(word => word.length > 0);
+    if (directions.length === 0 || wordList.length === 0) return null;
+
+    return {
+      title,
+      words: wordList,
+      difficulty: PRACTICE_DIFFICULTIES[difficulty],
+      gridSize,
+      directions,
+      seed,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get the share code for one of the player's custom puzzles
+ */
+export function getCustomPuzzleShareCode(puzzle: CustomPuzzle, config: Config): string {
+  return encodeShareCode({
+    title: puzzle.title,
+    words: puzzle.words,
+    difficulty: puzzle.difficulty,
+    gridSize: puzzle.gridSize ?? config.difficultyLevels[puzzle.difficulty].gridSize,
+    directions: puzzle.directions,
+    seed: getCustomPuzzleSeed(puzzle),
+  });
+}
+
+/**
+ * Turn a shared puzzle into a custom puzzle. The ID comes from the code's
+ * contents, so opening the same link twice keeps a single copy.
+ */
+export function getSharedCustomPuzzle(shared: SharedPuzzle): CustomPuzzle {
+  return {
+    id: `shared-${hashString(encodeShareCode(shared)).toString(36)}`,
+    title: shared.title,
+    words: shared.words,
+    difficulty: shared.difficulty,
+    directions: shared.directions,
+    gridSize: shared.gridSize,
+    seed: shared.seed,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Build the full link that opens a share code on the puzzle screen
+ * @param puzzlePath - Path of the puzzle screen, including any basePath
+ */
+export function getShareLink(code: string, origin: string, puzzlePath: string): string {
+  return `${origin}${puzzlePath}?${SHARE_PARAM}=${encodeURIComponent(code)}`;
+}
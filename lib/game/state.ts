@@ -4,12 +4,16 @@
  */
 
 import { StoryProgressState, DEFAULT_STORY_PROGRESS } from '../story/types';
+import type { GenerationReport, HiddenMessage } from './puzzleGenerator';
+import type { PuzzleMask } from './gridMask';
+import type { ActiveHint } from './hints';
 
 // Re-export for convenience
 export type { StoryProgressState } from '../story/types';
 
 export interface WordData {
-  word: string;
+  word: string; // Grid form: letters only, as placed in the grid
+  displayWord?: string; // Form shown in the word list, e.g. "PASSION FRUIT" for PASSIONFRUIT
   found: boolean;
   row: number;
   col: number;
@@ -32,11 +36,96 @@ export interface BookProgress {
   [bookTitle: string]: boolean[] | { complete?: boolean };
 }
 
+export type MissReason = 'wrong-direction' | 'partial-word' | 'not-a-word' | 'already-found';
+
+export interface SelectionEntry {
+  at: number; // Timestamp the selection was committed
+  hit: boolean;
+  word?: string; // Word found (hits)
+  reason?: MissReason; // Why the selection missed (misses)
+}
+
 export interface PuzzleStats {
   timeTaken: number;
   wordsFound: number;
-  accuracy: number;
+  accuracy: number; // Hits as a percentage of committed selections
+  completion: number; // Words found as a percentage of the word list
+  selections: number;
+  hits: number;
+  misses: Record<MissReason, number>;
+  averageTimePerWord: number; // Seconds
+  averageTimeBetweenFinds: number; // Seconds
+  puzzleIndex: number;
+  hintsUsed: number;
+  score: number; // Points earned on the puzzle, including its time bonus
+}
+
+export interface RunScore {
+  total: number;
+  puzzlePoints: number; // Points earned on the current puzzle
+  combo: number; // Quick successive finds in a row
+  bestCombo: number;
+  lastFindAt: number | null; // Timestamp of the last find, for the combo window
+  invalidSelections: number;
+}
+
+export interface CalmProgress {
+  completedPuzzles: number;
+  completedByGenre: { [genre: string]: string[] }; // Puzzle titles finished in the current cycle
+}
+
+export interface DailyProgress {
+  completedDates: string[]; // Local date keys (YYYY-MM-DD) of completed Daily Archive puzzles
+  longestStreak: number;
+}
+
+export type CustomPuzzleDifficulty = 'easy' | 'medium' | 'hard';
+
+export interface CustomPuzzle {
+  id: string;
+  title: string;
+  words: string[];
+  difficulty: CustomPuzzleDifficulty; // Grid size, word count and decoys, as in config.difficultyLevels
+  directions: [number, number][]; // Reading directions words may be placed in
+  gridSize?: number; // Overrides the difficulty's grid size (shared puzzles)
+  seed?: number; // Fixed grid seed (shared puzzles); otherwise derived from the title and words
+  createdAt: string; // ISO timestamp
+}
+
+// Replay event codes: s = drag start, x = drag extended to a cell,
+// h / m = selection committed as a hit / miss, p / r = pause / resume
+export type ReplayEventCode = 's' | 'x' | 'h' | 'm' | 'p' | 'r';
+
+// [milliseconds since the puzzle started, code, row, col]
+export type ReplayEvent = [number, ReplayEventCode, number?, number?];
+
+export interface PuzzleReplay {
+  seed: number;
+  mode: GameState['gameMode'];
+  genre: string;
   puzzleIndex: number;
+  title: string;
+  grid: string[]; // One string of letters per row
+  words: Array<{ word: string; row: number; col: number; direction: [number, number] }>;
+  startedAt: number; // Milliseconds into the run (0 outside Beat the Clock)
+  duration: number; // Milliseconds
+  events: ReplayEvent[];
+}
+
+export interface ReplayFile {
+  v: number;
+  recordedAt: string; // ISO timestamp
+  mode: GameState['gameMode'];
+  score: number | null; // Run score (Beat the Clock)
+  puzzles: PuzzleReplay[];
+}
+
+export interface PuzzleResume {
+  seed: number; // Seed of the grid this progress belongs to
+  foundWords: number[]; // Indices into the word list
+  elapsed: number; // Seconds already spent on the puzzle
+  timeRemaining: number | null; // Seconds left on the puzzle countdown (timed modes)
+  runTimeRemaining: number | null; // Seconds left in the Beat the Clock run
 }
 
 export interface SessionStats {
@@ -44,6 +133,12 @@ export interface SessionStats {
   totalTime: number;
   averageTime: number;
   totalWordsFound: number;
+  selections: number;
+  hits: number;
+  accuracy: number; // Hits as a percentage of committed selections
+  misses: Record<MissReason, number>;
+  averageTimePerWord: number; // Seconds
+  averageTimeBetweenFinds: number; // Seconds
   puzzles: PuzzleStats[];
 }
 
@@ -56,6 +151,7 @@ export interface GameState {
   currentCell: Cell | null;
   timer: NodeJS.Timeout | null;
   timeRemaining: number;
+  puzzleTimeLimit: number; // Seconds the current puzzle's countdown started from
   paused: boolean;
   gameOver: boolean;
   puzzles: { [genre: string]: PuzzleData[] };
@@ -66,13 +162,31 @@ export interface GameState {
   books: BookProgress;
   currentBook: string;
   currentStoryPart: number;
+  currentSeed: number | null; // Seed the current grid was generated from (reproducible layout)
+  puzzleStartedAt: number | null; // When the current puzzle started, for saving its elapsed time
+  puzzleResume: PuzzleResume | null; // Saved progress waiting for its puzzle to be regenerated
+  generationReport: GenerationReport | null; // How the current grid was generated (fallbacks, dropped words)
+  hiddenMessage: HiddenMessage | null; // Phrase spelled by leftover cells, revealed when every word is found
+  hintBudget: { [gameMode: string]: number }; // Hints left per mode; a missing mode starts with the configured budget
+  hintsUsed: number; // Hints spent on the current puzzle
+  selectionLog: SelectionEntry[]; // Every committed selection on the current puzzle
+  activeHint: ActiveHint | null; // Hint currently shown on the grid
   completedBooks: number;
   discoveredBooks: Set<string>;
   bookProgress: { [bookTitle: string]: number };
   bookPartsMap: { [bookTitle: string]: number[] };
-  gameMode: 'story' | 'puzzle-only' | 'beat-the-clock';
+  gameMode: 'story' | 'puzzle-only' | 'beat-the-clock' | 'endless' | 'calm' | 'daily' | 'practice';
   runStartTime: number | null;
   runDuration: number;
+  endlessStreak: number; // Puzzles solved in a row in the current Endless run
+  endlessSeed: number; // Seeds the current Endless run's puzzle draws, so a run can be replayed
+  runScore: RunScore; // Beat the Clock score for the current run
+  runPuzzles: number[]; // Beat the Clock puzzle indices served this run, in order
+  ghostRun: ReplayFile | null; // Best run being raced; its puzzles and seeds are replayed in order
+  calmProgress: CalmProgress; // Calm Mode progress, kept apart from story progress
+  dailyProgress: DailyProgress; // Daily Archive completions and streaks
+  dailyDate: string | null; // Date key of the Daily Archive puzzle being played
+  practicePuzzleId: string | null; // Custom puzzle being played in Practice Mode
   sessionStats: SessionStats | null;
   // Puzzle selection system fields
   selectedGenre: string; // The genre actively chosen by player
@@ -104,6 +218,8 @@ export interface PuzzleData {
   genre?: string; // Genre is included in puzzle data files
   storyPart?: number;
   storyExcerpt?: string;
+  mask?: PuzzleMask; // Optional grid shape: a named shape or ASCII-art rows
+  hiddenMessage?: string; // Optional phrase spelled by the leftover letters, e.g. a line of lore
 }
 
 // Define the base state with default values
@@ -120,6 +236,7 @@ export const baseState: Omit<GameState, 'discoveredBooks' | 'completedPuzzlesByG
   currentCell: null,
   timer: null,
   timeRemaining: 0,
+  puzzleTimeLimit: 0,
   paused: false,
   gameOver: false,
   puzzles: {},
@@ -130,6 +247,15 @@ export const baseState: Omit<GameState, 'discoveredBooks' | 'completedPuzzlesByG
   books: {},
   currentBook: '',
   currentStoryPart: -1,
+  currentSeed: null,
+  puzzleStartedAt: null,
+  puzzleResume: null,
+  generationReport: null,
+  hiddenMessage: null,
+  hintBudget: {},
+  hintsUsed: 0,
+  selectionLog: [],
+  activeHint: null,
   completedBooks: 0,
   discoveredBooks: new Set(),
   bookProgress: {},
@@ -137,6 +263,15 @@ export const baseState: Omit<GameState, 'discoveredBooks' | 'completedPuzzlesByG
   gameMode: 'story',
   runStartTime: null,
   runDuration: 300, // 5 minutes in seconds for Beat the Clock
+  endlessStreak: 0,
+  endlessSeed: 0,
+  runPuzzles: [],
+  ghostRun: null,
+  runScore: { total: 0, puzzlePoints: 0, combo: 0, bestCombo: 0, lastFindAt: null, invalidSelections: 0 },
+  calmProgress: { completedPuzzles: 0, completedByGenre: {} },
+  dailyProgress: { completedDates: [], longestStreak: 0 },
+  dailyDate: null,
+  practicePuzzleId: null,
   sessionStats: null,
   // Puzzle selection system defaults
   selectedGenre: '',
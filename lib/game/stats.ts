@@ -2,7 +2,33 @@
  * Stats tracking system for game modes
  */
 
-import type { PuzzleStats, SessionStats } from './state';
+import type { PuzzleStats, SelectionEntry, SessionStats } from './state';
+import { emptyMissCounts, summarizeSelections, MISS_REASONS } from './selectionLog';
+
+/**
+ * Create session stats with nothing recorded yet
+ */
+export function createEmptySessionStats(): SessionStats {
+  return {
+    puzzlesCompleted: 0,
+    totalTime: 0,
+    averageTime: 0,
+    totalWordsFound: 0,
+    selections: 0,
+    hits: 0,
+    accuracy: 0,
+    misses: emptyMissCounts(),
+    averageTimePerWord: 0,
+    averageTimeBetweenFinds: 0,
+    puzzles: [],
+  };
+}
+
+export interface PuzzleRecordDetails {
+  hintsUsed?: number;
+  score?: number;
+  selectionLog?: SelectionEntry[];
+}
 
 /**
  * Record stats for a completed puzzle
@@ -12,37 +38,61 @@ export function recordPuzzleStats(
   timeTaken: number,
   wordsFound: number,
   totalWords: number,
-  currentStats: SessionStats | null
+  currentStats: SessionStats | null,
+  { hintsUsed = 0, score = 0, selectionLog = [] }: PuzzleRecordDetails = {}
 ): SessionStats {
-  const accuracy = totalWords > 0 ? (wordsFound / totalWords) * 100 : 0;
-  
+  const selections = summarizeSelections(selectionLog);
+
   const puzzleStat: PuzzleStats = {
     puzzleIndex,
     timeTaken,
     wordsFound,
-    accuracy,
+    accuracy: selections.accuracy,
+    completion: totalWords > 0 ? (wordsFound / totalWords) * 100 : 0,
+    selections: selections.selections,
+    hits: selections.hits,
+    misses: selections.misses,
+    averageTimePerWord: wordsFound > 0 ? timeTaken / wordsFound : 0,
+    averageTimeBetweenFinds: selections.averageTimeBetweenFinds,
+    hintsUsed,
+    score,
   };
 
-  if (!currentStats) {
-    return {
-      puzzlesCompleted: 1,
-      totalTime: timeTaken,
-      averageTime: timeTaken,
-      totalWordsFound: wordsFound,
-      puzzles: [puzzleStat],
-    };
+  const stats = currentStats ?? createEmptySessionStats();
+  const puzzles = [...stats.puzzles, puzzleStat];
+  const puzzlesCompleted = stats.puzzlesCompleted + 1;
+  const totalTime = stats.totalTime + timeTaken;
+  const totalWordsFound = stats.totalWordsFound + wordsFound;
+
+  // Session totals are built from every recorded puzzle
+  const totalSelections = stats.selections + puzzleStat.selections;
+  const totalHits = stats.hits + puzzleStat.hits;
+  const misses = emptyMissCounts();
+  for (const reason of MISS_REASONS) {
+    misses[reason] = stats.misses[reason] + puzzleStat.misses[reason];
   }
 
-  const updatedPuzzles = [...currentStats.puzzles, puzzleStat];
-  const newTotalTime = currentStats.totalTime + timeTaken;
-  const newPuzzlesCompleted = currentStats.puzzlesCompleted + 1;
+  // Weight each puzzle's gap average by the number of gaps it had
+  let gapCount = 0;
+  let gapTotal = 0;
+  for (const puzzle of puzzles) {
+    const gaps = Math.max(0, puzzle.hits - 1);
+    gapCount += gaps;
+    gapTotal += puzzle.averageTimeBetweenFinds * gaps;
+  }
 
   return {
-    puzzlesCompleted: newPuzzlesCompleted,
-    totalTime: newTotalTime,
-    averageTime: newTotalTime / newPuzzlesCompleted,
-    totalWordsFound: currentStats.totalWordsFound + wordsFound,
-    puzzles: updatedPuzzles,
+    puzzlesCompleted,
+    totalTime,
+    averageTime: totalTime / puzzlesCompleted,
+    totalWordsFound,
+    selections: totalSelections,
+    hits: totalHits,
+    accuracy: totalSelections > 0 ? (totalHits / totalSelections) * 100 : 0,
+    misses,
+    averageTimePerWord: totalWordsFound > 0 ? totalTime / totalWordsFound : 0,
+    averageTimeBetweenFinds: gapCount > 0 ? gapTotal / gapCount : 0,
+    puzzles,
   };
 }
 
@@ -69,11 +119,8 @@ export function incrementTotalWords(
 ): SessionStats {
   if (!currentStats) {
     return {
-      puzzlesCompleted: 0,
-      totalTime: 0,
-      averageTime: 0,
+      ...createEmptySessionStats(),
       totalWordsFound: wordsFound,
-      puzzles: [],
     };
   }
 
@@ -82,4 +129,3 @@ export function incrementTotalWords(
     totalWordsFound: currentStats.totalWordsFound + wordsFound,
   };
 }
-
@@ -0,0 +1,29 @@
+/**
+ * Local word blocklist for Chronicles of the Kethaneum
+ * Words that must never appear by accident in generated filler letters.
+ *
+ * Only short words are listed: random filler effectively never spells
+ * anything longer than five letters, so longer entries would only cost
+ * scan time. Matches inside a placed puzzle word (e.g. "ASS" in "GRASS")
+ * are intentional content and are not treated as accidents.
+ */
+
+export const BLOCKED_WORDS: readonly string[] = [
+  'ASS',
+  'BITCH',
+  'COCK',
+  'CRAP',
+  'CUNT',
+  'DAMN',
+  'DICK',
+  'FAG',
+  'FUCK',
+  'PISS',
+  'PRICK',
+  'SHIT',
+  'SLUT',
+  'TITS',
+  'TWAT',
+  'WANK',
+  'WHORE',
+];
@@ -0,0 +1,74 @@
+/**
+ * Word Normalizer for Chronicles of the Kethaneum
+ * Splits each puzzle word into a display form (as authored, for the word
+ * list) and a grid form (letters only, for placement and matching)
+ */
+
+export interface WordNormalizationOptions {
+  /** Locale used for upper-casing (e.g. 'tr' keeps dotted İ) */
+  locale?: string;
+  /** Keep accented letters in the grid instead of folding them (é stays É, not E) */
+  keepDiacritics?: boolean;
+}
+
+export interface WordForms {
+  /** Upper-cased word as authored, with spaces and punctuation - shown to players */
+  display: string;
+  /** Letters only - what is placed in the grid and matched against selections */
+  grid: string;
+}
+
+// Letters that do not decompose into a base letter plus a combining mark
+const LETTER_FOLDS: Record<string, string> = {
+  'ß': 'SS',
+  'ẞ': 'SS',
+  'Æ': 'AE',
+  'Œ': 'OE',
+  'Ø': 'O',
+  'Ł': 'L',
+  'Đ': 'D',
+  'Þ': 'TH',
+};
+
+/**
+ * Normalize a word to its grid form
+ */
+export function normalizeGridWord(word: string, options: WordNormalizationOptions = {}): string {
+  let letters = word.toLocaleUpperCase(options.locale);
+
+  if (options.keepDiacritics) {
+    letters = letters.normalize('NFC');
+  } else {
+    letters = letters
+      .normalize('NFD')
+      .replace(/\p{M}/gu, '')
+      .replace(/[ßẞÆŒØŁĐÞ]/g, letter => LETTER_FOLDS[letter]);
+  }
+
+  // Spaces, apostrophes, hyphens and any other non-letters never reach the grid
+  return letters.replace(/[^\p{L}]/gu, '');
+}
+
+/**
+ * Build display and grid forms for a list of words, in order.
+ * Words with no letters are dropped, and words that share a grid form
+ * keep only the first.
+ */
+export function createWordForms(words: string[], options: WordNormalizationOptions = {}): WordForms[] {
+  const forms: WordForms[] = [];
+  const seen = new Set<string>();
+
+  for (const word of words) {
+    if (typeof word !== 'string') continue;
+    const grid = normalizeGridWord(word, options);
+    if (!grid || seen.has(grid)) continue;
+
+    seen.add(grid);
+    forms.push({
+      display: word.trim().replace(/\s+/g, ' ').toLocaleUpperCase(options.locale),
+      grid,
+    });
+  }
+
+  return forms;
+}
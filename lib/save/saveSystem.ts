@@ -16,7 +16,9 @@ import {
   getCompletedCount,
   isBookCompleted,
 } from '../book/progressBitmap';
-import type { GameState } from '../game/state';
+import type { GameState, PuzzleResume, RunScore } from '../game/state';
+import { capturePuzzleResume } from '../game/puzzleResume';
+import { EMPTY_RUN_SCORE } from '../game/scoring';
 import type { StoryProgressState } from '../story/types';
 import type { AudioSettings } from '../audio/audioManager';
 import { audioManager } from '../audio/audioManager';
@@ -38,7 +40,7 @@ export interface OptimizedProgress {
   p: { [bookId: string]: number };
   /** Completed puzzle IDs by genre */
   g: { [genre: string]: string[] };
-  /** Game mode: 's' = story, 'p' = puzzle-only, 'b' = beat-the-clock */
+  /** Game mode: 's' = story, 'p' = puzzle-only, 'b' = beat-the-clock, 'e' = endless, 'c' = calm, 'd' = daily, 'r' = practice */
   m: string;
   /** Total completed puzzles count */
   n: number;
@@ -54,6 +56,34 @@ export interface OptimizedProgress {
   dlv?: boolean;
   /** Audio settings (optional) */
   a?: OptimizedAudioSettings;
+  /** Hints left per game mode, keyed like m (optional) */
+  h?: { [mode: string]: number };
+  /** Calm Mode progress (optional) */
+  cm?: OptimizedCalmProgress;
+  /** Daily Archive progress (optional) */
+  dy?: OptimizedDailyProgress;
+  /** ID of the custom puzzle being played in Practice Mode (optional) */
+  pr?: string;
+}
+
+/**
+ * Compact Calm Mode progress
+ */
+export interface OptimizedCalmProgress {
+  /** Puzzles completed in Calm Mode */
+  n: number;
+  /** Puzzle IDs finished in the current calm cycle, by genre */
+  g: { [genre: string]: string[] };
+}
+
+/**
+ * Compact Daily Archive progress
+ */
+export interface OptimizedDailyProgress {
+  /** Completed dates as YYYYMMDD */
+  d: string[];
+  /** Longest streak */
+  l: number;
 }
 
 /**
@@ -68,6 +98,24 @@ export interface OptimizedCurrentState {
   p: number;
   /** Current puzzle index */
   i: number;
+  /** Grid generation seed (optional) */
+  s?: number;
+  /** Indices of the words found so far (optional) */
+  f?: number[];
+  /** Seconds spent on the puzzle (optional) */
+  t?: number;
+  /** Seconds left on the puzzle countdown (optional) */
+  r?: number;
+  /** Seconds left in the Beat the Clock run (optional) */
+  rt?: number;
+  /** Beat the Clock puzzle indices played this run (optional) */
+  rp?: number[];
+  /** Beat the Clock run score (optional) */
+  rs?: number;
+  /** Endless run streak (optional) */
+  es?: number;
+  /** Endless run seed (optional) */
+  ed?: number;
 }
 
 /**
@@ -139,7 +187,7 @@ export interface DecodedProgress {
   version: number;
   discoveredBooks: Map<string, DecodedBookProgress>;
   completedPuzzlesByGenre: Map<string, Set<string>>;
-  gameMode: 'story' | 'puzzle-only' | 'beat-the-clock';
+  gameMode: 'story' | 'puzzle-only' | 'beat-the-clock' | 'endless' | 'calm' | 'daily' | 'practice';
   completedPuzzlesCount: number;
   currentState?: {
     genre: string;
@@ -147,6 +195,12 @@ export interface DecodedProgress {
     bookTitle: string;
     part: number;
     puzzleIndex: number;
+    seed?: number;
+    resume?: PuzzleResume;
+    runPuzzles?: number[];
+    runScore?: number;
+    endlessStreak?: number;
+    endlessSeed?: number;
   };
   completedStoryEvents?: string[];
   hasVisitedLibrary?: boolean;
@@ -160,6 +214,16 @@ export interface DecodedProgress {
   };
   storyProgress?: StoryProgressState;
   audioSettings?: AudioSettings;
+  hintBudget?: { [gameMode: string]: number };
+  calmProgress?: {
+    completedPuzzles: number;
+    completedByGenre: Map<string, string[]>;
+  };
+  dailyProgress?: {
+    completedDates: string[];
+    longestStreak: number;
+  };
+  practicePuzzleId?: string;
 }
 
 // ============================================================================
@@ -169,16 +233,24 @@ export interface DecodedProgress {
 const STORAGE_KEY = 'kethaneumProgress';
 const CURRENT_VERSION = 2; // Version 2 = optimized format
 
-const GAME_MODE_MAP: { [key: string]: 'story' | 'puzzle-only' | 'beat-the-clock' } = {
+const GAME_MODE_MAP: { [key: string]: 'story' | 'puzzle-only' | 'beat-the-clock' | 'endless' | 'calm' | 'daily' | 'practice' } = {
   s: 'story',
   p: 'puzzle-only',
   b: 'beat-the-clock',
+  e: 'endless',
+  c: 'calm',
+  d: 'daily',
+  r: 'practice',
 };
 
 const GAME_MODE_REVERSE: { [key: string]: string } = {
   story: 's',
   'puzzle-only': 'p',
   'beat-the-clock': 'b',
+  endless: 'e',
+  calm: 'c',
+  daily: 'd',
+  practice: 'r',
 };
 
 // ============================================================================
@@ -275,8 +347,10 @@ export async function saveOptimizedProgress(state: GameState): Promise<void> {
     };
 
     // Add current state if playing
+    // (Beat the Clock books are not in the registry, so they are stored by title)
     if (state.currentBook && state.currentStoryPart !== undefined && state.currentStoryPart >= 0) {
-      const currentBookId = bookRegistry.getBookIdByTitleSync(state.currentBook);
+      const currentBookId = bookRegistry.getBookIdByTitleSync(state.currentBook) ||
+        (state.gameMode === 'beat-the-clock' || state.gameMode === 'practice' ? state.currentBook : null);
       if (currentBookId) {
         optimized.c = {
           g: state.currentGenre || '',
@@ -284,6 +358,27 @@ export async function saveOptimizedProgress(state: GameState): Promise<void> {
           p: state.currentStoryPart,
           i: state.currentPuzzleIndex || 0,
         };
+        if (typeof state.currentSeed === 'number') {
+          optimized.c.s = state.currentSeed;
+        }
+
+        // Progress on the puzzle itself, so a reload picks up exactly where the player was
+        const resume = capturePuzzleResume(state);
+        if (resume) {
+          optimized.c.s = resume.seed;
+          if (resume.foundWords.length > 0) optimized.c.f = resume.foundWords;
+          if (resume.elapsed > 0) optimized.c.t = resume.elapsed;
+          if (resume.timeRemaining !== null) optimized.c.r = resume.timeRemaining;
+          if (resume.runTimeRemaining) {
+            optimized.c.rt = resume.runTimeRemaining;
+            optimized.c.rp = state.runPuzzles;
+            optimized.c.rs = state.runScore.total;
+          }
+          if (state.gameMode === 'endless') {
+            optimized.c.es = state.endlessStreak;
+            optimized.c.ed = state.endlessSeed;
+          }
+        }
       }
     }
 
@@ -316,6 +411,45 @@ export async function saveOptimizedProgress(state: GameState): Promise<void> {
       optimized.dlv = true;
     }
 
+    // Add hint budget (modes never played keep their starting budget)
+    if (state.hintBudget) {
+      const hints: { [mode: string]: number } = {};
+      for (const [mode, count] of Object.entries(state.hintBudget)) {
+        const modeKey = GAME_MODE_REVERSE[mode];
+        if (modeKey) hints[modeKey] = count;
+      }
+      if (Object.keys(hints).length > 0) {
+        optimized.h = hints;
+      }
+    }
+
+    // Add Calm Mode progress (titles to IDs where possible, like g)
+    if (state.calmProgress && state.calmProgress.completedPuzzles > 0) {
+      const calmByGenre: { [genre: string]: string[] } = {};
+      for (const [genre, titles] of Object.entries(state.calmProgress.completedByGenre)) {
+        if (titles.length > 0) {
+          calmByGenre[genre] = titles.map(title => bookRegistry.getBookIdByTitleSync(title) || title);
+        }
+      }
+      optimized.cm = {
+        n: state.calmProgress.completedPuzzles,
+        g: calmByGenre,
+      };
+    }
+
+    // Add Daily Archive progress
+    if (state.dailyProgress && state.dailyProgress.completedDates.length > 0) {
+      optimized.dy = {
+        d: state.dailyProgress.completedDates.map(date => date.replace(/-/g, '')),
+        l: state.dailyProgress.longestStreak,
+      };
+    }
+
+    // Add the Practice Mode puzzle (the custom puzzles themselves are stored separately)
+    if (state.gameMode === 'practice' && state.practicePuzzleId) {
+      optimized.pr = state.practicePuzzleId;
+    }
+
     // Add audio settings
     const audioSettings = audioManager.getSettings();
     optimized.a = {
@@ -418,13 +552,36 @@ export async function decodeOptimizedProgress(
   // Decode current state
   if (data.c) {
     const book = await bookRegistry.getBook(data.c.b);
+    const seed = typeof data.c.s === 'number' ? data.c.s : undefined;
+    const runTimeRemaining = typeof data.c.rt === 'number' && data.c.rt > 0 ? data.c.rt : null;
     decoded.currentState = {
       genre: data.c.g,
       bookId: data.c.b,
-      bookTitle: book?.title || '',
+      // Beat the Clock and Practice Mode books are stored by title
+      bookTitle: book?.title || (data.m === 'b' || data.m === 'r' ? data.c.b : ''),
       part: data.c.p,
       puzzleIndex: data.c.i,
+      seed,
     };
+
+    // Progress on the puzzle only means anything for the grid it was saved with
+    if (seed !== undefined && (Array.isArray(data.c.f) || typeof data.c.t === 'number' || runTimeRemaining)) {
+      decoded.currentState.resume = {
+        seed,
+        foundWords: Array.isArray(data.c.f) ? data.c.f.filter(index => Number.isInteger(index) && index >= 0) : [],
+        elapsed: data.c.t || 0,
+        timeRemaining: typeof data.c.r === 'number' ? data.c.r : null,
+        runTimeRemaining,
+      };
+    }
+    if (runTimeRemaining && Array.isArray(data.c.rp)) {
+      decoded.currentState.runPuzzles = data.c.rp;
+      decoded.currentState.runScore = data.c.rs || 0;
+    }
+    if (typeof data.c.ed === 'number') {
+      decoded.currentState.endlessStreak = data.c.es || 0;
+      decoded.currentState.endlessSeed = data.c.ed;
+    }
   }
 
   // Decode selection state
@@ -454,6 +611,39 @@ export async function decodeOptimizedProgress(
     decoded.hasVisitedLibrary = true;
   }
 
+  // Decode hint budget
+  if (data.h && typeof data.h === 'object') {
+    decoded.hintBudget = {};
+    for (const [modeKey, count] of Object.entries(data.h)) {
+      const mode = GAME_MODE_MAP[modeKey];
+      if (mode && typeof count === 'number') {
+        decoded.hintBudget[mode] = count;
+      }
+    }
+  }
+
+  // Decode Calm Mode progress
+  if (data.cm && typeof data.cm === 'object') {
+    decoded.calmProgress = {
+      completedPuzzles: data.cm.n || 0,
+      completedByGenre: new Map(Object.entries(data.cm.g || {})),
+    };
+  }
+
+  // Decode Daily Archive progress
+  if (data.dy && Array.isArray(data.dy.d)) {
+    decoded.dailyProgress = {
+      completedDates: data.dy.d
+        .filter(date => /^\d{8}$/.test(date))
+        .map(date => `${date.slice(0, 4)}-${date.slice(4, 6)}-${date.slice(6, 8)}`),
+      longestStreak: data.dy.l || 0,
+    };
+  }
+
+  if (typeof data.pr === 'string') {
+    decoded.practicePuzzleId = data.pr;
+  }
+
   // Decode audio settings
   if (data.a) {
     decoded.audioSettings = {
@@ -495,7 +685,17 @@ export async function convertToGameStateFormat(
   currentBook: string;
   currentStoryPart: number;
   currentPuzzleIndex: number;
-  gameMode: 'story' | 'puzzle-only' | 'beat-the-clock';
+  currentSeed: number | null;
+  puzzleResume: PuzzleResume | null;
+  runPuzzles: number[];
+  runScore: RunScore;
+  endlessStreak: number;
+  endlessSeed: number;
+  gameMode: 'story' | 'puzzle-only' | 'beat-the-clock' | 'endless' | 'calm' | 'daily' | 'practice';
+  hintBudget: { [gameMode: string]: number };
+  calmProgress: { completedPuzzles: number; completedByGenre: { [genre: string]: string[] } };
+  dailyProgress: { completedDates: string[]; longestStreak: number };
+  practicePuzzleId: string | null;
   selectedGenre: string;
   nextKethaneumIndex: number;
   puzzlesSinceLastKethaneum: number;
@@ -546,6 +746,19 @@ export async function convertToGameStateFormat(
     completedPuzzlesByGenre[genre] = titles;
   }
 
+  // Convert Calm Mode progress (IDs back to titles where possible)
+  const calmByGenre: { [genre: string]: string[] } = {};
+  if (decoded.calmProgress) {
+    for (const [genre, ids] of decoded.calmProgress.completedByGenre) {
+      const titles: string[] = [];
+      for (const id of ids) {
+        const book = await bookRegistry.getBook(id);
+        titles.push(book?.title || id);
+      }
+      calmByGenre[genre] = titles;
+    }
+  }
+
   // Extract values from decoded progress
   const currentGenre = decoded.currentState?.genre || '';
   let selectedGenre = decoded.selectionState?.selectedGenre || '';
@@ -568,7 +781,20 @@ export async function convertToGameStateFormat(
     currentBook: decoded.currentState?.bookTitle || '',
     currentStoryPart: decoded.currentState?.part ?? -1,
     currentPuzzleIndex: decoded.currentState?.puzzleIndex ?? -1,
+    currentSeed: decoded.currentState?.seed ?? null,
+    puzzleResume: decoded.currentState?.resume ?? null,
+    runPuzzles: decoded.currentState?.runPuzzles ?? [],
+    runScore: { ...EMPTY_RUN_SCORE, total: decoded.currentState?.runScore ?? 0 },
+    endlessStreak: decoded.currentState?.endlessStreak ?? 0,
+    endlessSeed: decoded.currentState?.endlessSeed ?? 0,
     gameMode: decoded.gameMode,
+    hintBudget: decoded.hintBudget ?? {},
+    calmProgress: {
+      completedPuzzles: decoded.calmProgress?.completedPuzzles ?? 0,
+      completedByGenre: calmByGenre,
+    },
+    dailyProgress: decoded.dailyProgress ?? { completedDates: [], longestStreak: 0 },
+    practicePuzzleId: decoded.practicePuzzleId ?? null,
     selectedGenre,
     nextKethaneumIndex: decoded.selectionState?.nextKethaneumIndex || 0,
     puzzlesSinceLastKethaneum: decoded.selectionState?.puzzlesSinceLastKethaneum || 0,
@@ -92,3 +92,17 @@ export function createSeededRandom(seed: number): () => number {
   };
 }
 
+
+/**
+ * Hash a string into a non-zero 32-bit unsigned integer (FNV-1a)
+ * Suitable as a seed for createSeededRandom
+ */
+export function hashString(value: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  // createSeededRandom treats 0 as "no seed", so never return it
+  return (hash >>> 0) || 1;
+}